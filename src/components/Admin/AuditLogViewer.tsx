@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { ScrollText, Download, ShieldCheck, AlertTriangle, CheckCircle } from 'lucide-react';
+import { AuditLog, AuditChainStatus } from '../../types';
+import { api } from '../../services/api';
+import { downloadFile } from '../../utils/download';
+import { getErrorMessage } from '../../utils/errors';
+import WarehouseSelect from '../Warehouses/WarehouseSelect';
+
+const formatValue = (value: unknown) =>
+  value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Searchable, exportable audit trail with a check that no entry was edited or removed
+const AuditLogViewer: React.FC = () => {
+  const [userId, setUserId] = useState('');
+  const [action, setAction] = useState('');
+  const [warehouseName, setWarehouseName] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState('');
+  const [actions, setActions] = useState<string[]>([]);
+  const [rows, setRows] = useState<AuditLog[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [chain, setChain] = useState<AuditChainStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadActions();
+  }, []);
+
+  const loadActions = async () => {
+    try {
+      const response = await api.get('/audit-logs/actions');
+      setActions(response.data);
+    } catch (err) {
+      // Filtering by action is optional
+    }
+  };
+
+  const filterQuery = () => {
+    const params = new URLSearchParams();
+    if (userId.trim()) params.set('user', userId.trim());
+    if (action) params.set('action', action);
+    if (warehouseName) params.set('warehouse', warehouseName);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    if (search.trim()) params.set('q', search.trim());
+    return params.toString();
+  };
+
+  const loadPage = async (nextPage: number) => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await api.get(`/audit-logs?${filterQuery()}&page=${nextPage}`);
+      setRows(response.data.rows);
+      setHasMore(response.data.hasMore);
+      setPage(nextPage);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load audit log'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportCsv = async () => {
+    try {
+      const response = await api.get(`/audit-logs/export?${filterQuery()}`, { responseType: 'text' });
+      downloadFile(response.data, `audit_log_${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv');
+    } catch (err) {
+      setError('Failed to export audit log');
+    }
+  };
+
+  const verifyChain = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await api.get('/audit-logs/verify');
+      setChain(response.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to verify audit log'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Audit Log</h2>
+        <ScrollText className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {chain && (chain.valid ? (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <p className="text-green-800 break-all">
+            {chain.checked} entries verified. Head #{chain.headSeq ?? 0}: {chain.headHash ?? 'empty log'}
+          </p>
+        </div>
+      ) : (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">
+            Chain broken at entry #{chain.firstBrokenSeq}: it or an earlier entry was altered or removed
+          </p>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <input
+          type="text"
+          value={userId}
+          onChange={(e) => setUserId(e.target.value)}
+          placeholder="User ID"
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="">All actions</option>
+          {actions.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <WarehouseSelect value={warehouseName} onChange={setWarehouseName} allLabel="All warehouses" />
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search details"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={() => loadPage(1)}
+          disabled={loading}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          {loading ? 'Loading...' : 'Search'}
+        </button>
+        <button
+          onClick={exportCsv}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          CSV
+        </button>
+        <button
+          onClick={verifyChain}
+          disabled={loading}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          <ShieldCheck className="w-4 h-4" />
+          Verify Chain
+        </button>
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4">#</th>
+                  <th className="py-2 pr-4">Time</th>
+                  <th className="py-2 pr-4">User</th>
+                  <th className="py-2 pr-4">Action</th>
+                  <th className="py-2 pr-4">Warehouse</th>
+                  <th className="py-2 pr-4">IP</th>
+                  <th className="py-2">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.id} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-4 text-gray-500">{row.seq}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{new Date(row.created_at).toLocaleString()}</td>
+                    <td className="py-2 pr-4">
+                      <span className="font-medium text-gray-900">{row.username ?? '—'}</span>
+                      {row.actor_role && <span className="text-xs text-gray-500"> · {row.actor_role}</span>}
+                    </td>
+                    <td className="py-2 pr-4 font-medium text-gray-900">{row.action}</td>
+                    <td className="py-2 pr-4">{row.warehouse_name ?? ''}</td>
+                    <td className="py-2 pr-4 text-gray-500">{row.ip_address ?? ''}</td>
+                    <td className="py-2 text-xs text-gray-700">
+                      {Object.entries(row.details)
+                        .filter(([, value]) => value !== null && value !== undefined)
+                        .map(([key, value]) => (
+                          <div key={key} className="break-all">
+                            <span className="text-gray-500">{key}:</span> {formatValue(value)}
+                          </div>
+                        ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <button
+              onClick={() => loadPage(page - 1)}
+              disabled={loading || page === 1}
+              className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              Newer
+            </button>
+            <span>Page {page}</span>
+            <button
+              onClick={() => loadPage(page + 1)}
+              disabled={loading || !hasMore}
+              className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              Older
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogViewer;
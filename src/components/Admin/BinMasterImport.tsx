@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { Upload, Download, FileSpreadsheet, AlertTriangle, CheckCircle } from 'lucide-react';
+import { api } from '../../services/api';
+import { downloadFile } from '../../utils/download';
+import { getErrorMessage } from '../../utils/errors';
+
+type ImportMode = 'upsert' | 'replace';
+// Bins with their totals, or the SKUs inside existing bins
+type ImportKind = 'bins' | 'contents';
+
+const IMPORT_PATHS: Record<ImportKind, string> = {
+  bins: '/bin-master',
+  contents: '/bin-master/contents'
+};
+
+interface ImportDiff {
+  mode: ImportMode;
+  dryRun: boolean;
+  summary: {
+    rows: number;
+    inserted: number;
+    updated: number;
+    unchanged: number;
+    deleted: number;
+    errors: number;
+  };
+  errors: { line: number; message: string }[];
+  changes: {
+    inserted: { bin_no: string; warehouse_name: string; sku?: string; qty_as_per_books: number }[];
+    updated: { bin_no: string; warehouse_name: string; sku?: string; before: number; after: number }[];
+    deleted: { bin_no: string; warehouse_name: string; sku?: string; qty_as_per_books: number }[];
+  };
+}
+
+// XLSX files are converted to CSV in the browser so the server only validates one format
+const readFileAsCsv = async (file: File): Promise<string> => {
+  if (!/\.xlsx?$/i.test(file.name)) {
+    return file.text();
+  }
+
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return XLSX.utils.sheet_to_csv(sheet, { blankrows: false });
+};
+
+const BinMasterImport: React.FC = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [kind, setKind] = useState<ImportKind>('bins');
+  const [mode, setMode] = useState<ImportMode>('upsert');
+  const [diff, setDiff] = useState<ImportDiff | null>(null);
+  const [committed, setCommitted] = useState(false);
+  const [exportWarehouse, setExportWarehouse] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const csv = await readFileAsCsv(file);
+      const response = await api.post(`${IMPORT_PATHS[kind]}/import`, { csv, mode, dryRun });
+      setDiff(response.data);
+      setCommitted(!dryRun);
+    } catch (err) {
+      setError(getErrorMessage(err, dryRun ? 'Failed to validate file' : 'Failed to import bin master'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setDiff(null);
+    setCommitted(false);
+  };
+
+  const handleModeChange = (value: ImportMode) => {
+    setMode(value);
+    setDiff(null);
+    setCommitted(false);
+  };
+
+  const handleKindChange = (value: ImportKind) => {
+    setKind(value);
+    setDiff(null);
+    setCommitted(false);
+  };
+
+  const exportBins = async () => {
+    if (!exportWarehouse.trim()) return;
+
+    setError('');
+    try {
+      const response = await api.get(
+        `${IMPORT_PATHS[kind]}/export?warehouse=${encodeURIComponent(exportWarehouse.trim())}`,
+        { responseType: 'text' }
+      );
+      downloadFile(response.data, `${kind === 'contents' ? 'bin_contents' : 'bin_master'}_${exportWarehouse.trim()}.csv`, 'text/csv');
+    } catch (err) {
+      setError(kind === 'contents' ? 'Failed to export bin contents' : 'Failed to export bin master');
+    }
+  };
+
+  const canCommit = diff?.dryRun && diff.summary.errors === 0 && !committed;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Bin Master Import</h2>
+          <p className="text-sm text-gray-600">
+            {kind === 'contents'
+              ? 'CSV or XLSX with bin_no, warehouse_name, sku, description, uom, qty_as_per_books'
+              : 'CSV or XLSX with bin_no, warehouse_name, qty_as_per_books'}
+          </p>
+        </div>
+        <FileSpreadsheet className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          value={kind}
+          onChange={(e) => handleKindChange(e.target.value as ImportKind)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="bins">Bins</option>
+          <option value="contents">SKU contents</option>
+        </select>
+        <input
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          onChange={handleFileChange}
+          className="text-sm text-gray-700"
+        />
+        <select
+          value={mode}
+          onChange={(e) => handleModeChange(e.target.value as ImportMode)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="upsert">{kind === 'contents' ? 'Upsert (add and update SKUs)' : 'Upsert (add and update bins)'}</option>
+          <option value="replace">
+            {kind === 'contents' ? 'Replace bin contents (remove SKUs not in file)' : 'Replace warehouse (remove bins not in file)'}
+          </option>
+        </select>
+        <button
+          onClick={() => runImport(true)}
+          disabled={!file || loading}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          {loading ? 'Checking...' : 'Preview'}
+        </button>
+        <button
+          onClick={() => runImport(false)}
+          disabled={!canCommit || loading}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          <Upload className="w-4 h-4" />
+          Commit Import
+        </button>
+      </div>
+
+      {diff && (
+        <div className="space-y-4">
+          {committed && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800">Import committed</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+            {[
+              ['New', diff.summary.inserted],
+              ['Updated', diff.summary.updated],
+              ['Unchanged', diff.summary.unchanged],
+              ['Removed', diff.summary.deleted],
+              ['Errors', diff.summary.errors]
+            ].map(([label, value]) => (
+              <div key={label} className="bg-gray-50 rounded-lg p-3">
+                <p className="text-sm text-gray-600">{label}</p>
+                <p className="text-xl font-bold text-gray-900">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          {diff.errors.length > 0 && (
+            <div className="max-h-60 overflow-y-auto border border-red-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-red-700 bg-red-50">
+                    <th className="py-2 px-3">Line</th>
+                    <th className="py-2 px-3">Problem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.errors.map((rowError) => (
+                    <tr key={rowError.line} className="border-t border-red-100">
+                      <td className="py-2 px-3 font-medium">{rowError.line}</td>
+                      <td className="py-2 px-3 text-gray-700">{rowError.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {(diff.changes.updated.length > 0 || diff.changes.deleted.length > 0) && (
+            <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 bg-gray-50">
+                    <th className="py-2 px-3">Bin</th>
+                    <th className="py-2 px-3">Warehouse</th>
+                    <th className="py-2 px-3">Books before</th>
+                    <th className="py-2 px-3">Books after</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.changes.updated.map((change) => (
+                    <tr key={`u-${change.warehouse_name}-${change.bin_no}-${change.sku ?? ''}`} className="border-t">
+                      <td className="py-2 px-3 font-medium">{change.bin_no}{change.sku && ` · ${change.sku}`}</td>
+                      <td className="py-2 px-3">{change.warehouse_name}</td>
+                      <td className="py-2 px-3">{change.before}</td>
+                      <td className="py-2 px-3">{change.after}</td>
+                    </tr>
+                  ))}
+                  {diff.changes.deleted.map((bin) => (
+                    <tr key={`d-${bin.warehouse_name}-${bin.bin_no}-${bin.sku ?? ''}`} className="border-t text-red-700">
+                      <td className="py-2 px-3 font-medium">{bin.bin_no}{bin.sku && ` · ${bin.sku}`}</td>
+                      <td className="py-2 px-3">{bin.warehouse_name}</td>
+                      <td className="py-2 px-3">{bin.qty_as_per_books}</td>
+                      <td className="py-2 px-3">removed</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="pt-6 border-t flex flex-wrap items-center gap-4">
+        <input
+          type="text"
+          value={exportWarehouse}
+          onChange={(e) => setExportWarehouse(e.target.value)}
+          placeholder="Warehouse to export"
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button
+          onClick={exportBins}
+          disabled={!exportWarehouse.trim()}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          Export CSV
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BinMasterImport;
@@ -0,0 +1,378 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldAlert, SlidersHorizontal, AlertTriangle, CheckCircle } from 'lucide-react';
+import { AnomalyEvidence, AnomalyFlag, AnomalyRule, AnomalyThresholds } from '../../types';
+import { api } from '../../services/api';
+import { getErrorMessage } from '../../utils/errors';
+
+interface AnomalyReviewProps {
+  // Limits the queue to one warehouse and enables re-running the rules for it
+  warehouseName?: string;
+}
+
+const RULE_LABELS: Record<AnomalyRule, string> = {
+  exact_match: 'Matches books too often',
+  quick_counts: 'Counts seconds apart',
+  impossible_rate: 'Impossible counting speed',
+  round_numbers: 'Too many round numbers',
+  variance_cluster: 'Large variances clustered'
+};
+
+// Rules measured as a share of counts rather than a count or rate
+const SHARE_RULES: AnomalyRule[] = ['exact_match', 'round_numbers', 'variance_cluster'];
+
+const THRESHOLD_FIELDS: { column: keyof Omit<AnomalyThresholds, 'inherited' | 'updated_at'>; field: string; label: string; share?: boolean }[] = [
+  { column: 'exact_match_rate', field: 'exactMatchRate', label: 'Book match rate (%)', share: true },
+  { column: 'exact_match_min_bins', field: 'exactMatchMinBins', label: 'Min bins for match rate' },
+  { column: 'min_seconds_between_counts', field: 'minSecondsBetweenCounts', label: 'Quick count under (seconds)' },
+  { column: 'quick_count_limit', field: 'quickCountLimit', label: 'Quick counts allowed' },
+  { column: 'max_bins_per_hour', field: 'maxBinsPerHour', label: 'Max bins per hour' },
+  { column: 'rate_min_bins', field: 'rateMinBins', label: 'Min bins for speed' },
+  { column: 'round_number_share', field: 'roundNumberShare', label: 'Round number share (%)', share: true },
+  { column: 'round_number_min_bins', field: 'roundNumberMinBins', label: 'Min bins for round numbers' },
+  { column: 'large_variance_qty', field: 'largeVarianceQty', label: 'Large variance (qty)' },
+  { column: 'variance_cluster_share', field: 'varianceClusterShare', label: 'Share of large variances (%)', share: true },
+  { column: 'variance_cluster_min', field: 'varianceClusterMin', label: 'Min large variances' }
+];
+
+const formatMeasure = (flag: AnomalyFlag) => {
+  if (SHARE_RULES.includes(flag.rule)) {
+    return `${Math.round(Number(flag.metric) * 1000) / 10}% (limit ${Math.round(Number(flag.threshold) * 1000) / 10}%)`;
+  }
+  const unit = flag.rule === 'impossible_rate' ? ' bins/h' : ' counts';
+  return `${Number(flag.metric)}${unit} (limit ${Number(flag.threshold)}${unit})`;
+};
+
+// Vendor review queue for rule-based flags on counters and team leaders
+const AnomalyReview: React.FC<AnomalyReviewProps> = ({ warehouseName }) => {
+  const [flags, setFlags] = useState<AnomalyFlag[]>([]);
+  const [status, setStatus] = useState('open');
+  const [rule, setRule] = useState('');
+  const [evidence, setEvidence] = useState<Record<string, AnomalyEvidence>>({});
+  const [openEvidenceId, setOpenEvidenceId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [detectDate, setDetectDate] = useState('');
+  const [thresholds, setThresholds] = useState<AnomalyThresholds | null>(null);
+  const [thresholdInputs, setThresholdInputs] = useState<Record<string, string>>({});
+  const [showThresholds, setShowThresholds] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadFlags();
+  }, [warehouseName, status, rule]);
+
+  const loadFlags = async () => {
+    const params = new URLSearchParams();
+    if (warehouseName) params.set('warehouse', warehouseName);
+    if (status) params.set('status', status);
+    if (rule) params.set('rule', rule);
+
+    try {
+      const response = await api.get(`/anomalies?${params.toString()}`);
+      setFlags(response.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load anomaly flags'));
+    }
+  };
+
+  const toggleEvidence = async (flag: AnomalyFlag) => {
+    if (openEvidenceId === flag.id) {
+      setOpenEvidenceId(null);
+      return;
+    }
+
+    setOpenEvidenceId(flag.id);
+    if (evidence[flag.id]) return;
+
+    try {
+      const response = await api.get(`/anomalies/${flag.id}/evidence`);
+      setEvidence(prev => ({ ...prev, [flag.id]: response.data }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load evidence'));
+    }
+  };
+
+  const review = async (flag: AnomalyFlag, decision: 'confirmed' | 'dismissed') => {
+    setLoading(true);
+    setError('');
+    setSuccess('');
+    try {
+      await api.put(`/anomalies/${flag.id}/review`, { status: decision, note: notes[flag.id] || '' });
+      setSuccess(`${RULE_LABELS[flag.rule]} for ${flag.subject} ${decision}`);
+      loadFlags();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to review flag'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runDetection = async () => {
+    if (!warehouseName || !detectDate) return;
+
+    setLoading(true);
+    setError('');
+    setSuccess('');
+    try {
+      const response = await api.post('/anomalies/detect', { warehouse: warehouseName, date: detectDate });
+      setSuccess(`${response.data.flagged} ${response.data.flagged === 1 ? 'flag' : 'flags'} raised for ${detectDate}`);
+      loadFlags();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to run anomaly rules'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleThresholds = async () => {
+    if (showThresholds) {
+      setShowThresholds(false);
+      return;
+    }
+
+    try {
+      const response = await api.get('/anomalies/thresholds');
+      applyThresholds(response.data);
+      setShowThresholds(true);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load thresholds'));
+    }
+  };
+
+  const applyThresholds = (data: AnomalyThresholds) => {
+    setThresholds(data);
+    setThresholdInputs(Object.fromEntries(THRESHOLD_FIELDS.map(({ column, share }) => [
+      column,
+      String(share ? Math.round(Number(data[column]) * 1000) / 10 : Number(data[column]))
+    ])));
+  };
+
+  const saveThresholds = async () => {
+    const body: Record<string, number> = {};
+    for (const { column, field, share } of THRESHOLD_FIELDS) {
+      const value = parseFloat(thresholdInputs[column]);
+      if (isNaN(value)) {
+        setError('Every threshold needs a number');
+        return;
+      }
+      body[field] = share ? Math.round(value * 10) / 1000 : value;
+    }
+
+    setLoading(true);
+    setError('');
+    setSuccess('');
+    try {
+      const response = await api.put('/anomalies/thresholds', body);
+      applyThresholds(response.data);
+      setSuccess('Thresholds saved; they apply from the next run');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save thresholds'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Anomaly Review</h2>
+        <ShieldAlert className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <p className="text-green-700">{success}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="open">Open</option>
+          <option value="confirmed">Confirmed</option>
+          <option value="dismissed">Dismissed</option>
+          <option value="">All</option>
+        </select>
+        <select
+          value={rule}
+          onChange={(e) => setRule(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="">All rules</option>
+          {(Object.keys(RULE_LABELS) as AnomalyRule[]).map((key) => (
+            <option key={key} value={key}>{RULE_LABELS[key]}</option>
+          ))}
+        </select>
+        {warehouseName && (
+          <>
+            <input
+              type="date"
+              value={detectDate}
+              onChange={(e) => setDetectDate(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <button
+              onClick={runDetection}
+              disabled={loading || !detectDate}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+              Run Rules
+            </button>
+          </>
+        )}
+        <button
+          onClick={toggleThresholds}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          Thresholds
+        </button>
+      </div>
+
+      {showThresholds && thresholds && (
+        <div className="p-4 bg-gray-50 rounded-lg space-y-4">
+          {thresholds.inherited && (
+            <p className="text-sm text-gray-600">You are on the default thresholds. Saving creates your own.</p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {THRESHOLD_FIELDS.map(({ column, label }) => (
+              <label key={column} className="flex items-center justify-between gap-2 text-sm text-gray-700">
+                {label}
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={thresholdInputs[column] ?? ''}
+                  onChange={(e) => setThresholdInputs(prev => ({ ...prev, [column]: e.target.value }))}
+                  className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={saveThresholds}
+            disabled={loading}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            {loading ? 'Saving...' : 'Save Thresholds'}
+          </button>
+        </div>
+      )}
+
+      {flags.length === 0 ? (
+        <p className="text-gray-600">No flags to review.</p>
+      ) : (
+        <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+          {flags.map((flag) => (
+            <div key={flag.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium text-gray-900">{RULE_LABELS[flag.rule]}</p>
+                  <p className="text-sm text-gray-600">
+                    {flag.subject} · {flag.subject_role === 'worker' ? 'worker' : 'team leader'} · {flag.wh_name} · {flag.date}
+                  </p>
+                  <p className="text-sm text-red-600">{formatMeasure(flag)}</p>
+                </div>
+                <div className="text-xs text-gray-600 text-right">
+                  {Object.entries(flag.evidence)
+                    .filter(([key]) => key !== 'counting_data_ids')
+                    .map(([key, value]) => (
+                      <div key={key}>
+                        <span className="text-gray-500">{key.replace(/_/g, ' ')}:</span> {String(value)}
+                      </div>
+                    ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={() => toggleEvidence(flag)}
+                  className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  {openEvidenceId === flag.id ? 'Hide Evidence' : `Evidence (${flag.evidence.counting_data_ids?.length ?? 0})`}
+                </button>
+                {flag.status === 'open' ? (
+                  <>
+                    <input
+                      type="text"
+                      value={notes[flag.id] || ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [flag.id]: e.target.value }))}
+                      placeholder="Review note"
+                      className="flex-1 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                    <button
+                      onClick={() => review(flag, 'dismissed')}
+                      disabled={loading}
+                      className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                    >
+                      Dismiss
+                    </button>
+                    <button
+                      onClick={() => review(flag, 'confirmed')}
+                      disabled={loading}
+                      className="px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                    >
+                      Confirm
+                    </button>
+                  </>
+                ) : (
+                  <span className={`text-sm ${flag.status === 'confirmed' ? 'text-red-600' : 'text-gray-600'}`}>
+                    {flag.status === 'confirmed' ? 'Confirmed' : 'Dismissed'}
+                    {flag.reviewed_at && ` ${new Date(flag.reviewed_at).toLocaleString()}`}
+                    {flag.review_note && ` · ${flag.review_note}`}
+                  </span>
+                )}
+              </div>
+
+              {openEvidenceId === flag.id && evidence[flag.id] && (
+                <div className="max-h-60 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b">
+                        <th className="py-2 pr-4">Time</th>
+                        <th className="py-2 pr-4">Bin</th>
+                        <th className="py-2 pr-4">Worker</th>
+                        <th className="py-2 pr-4">Counted</th>
+                        <th className="py-2 pr-4">Books</th>
+                        <th className="py-2">Recount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {evidence[flag.id].counts.map((count) => (
+                        <tr key={count.id} className="border-b last:border-0">
+                          <td className="py-2 pr-4">{new Date(count.created_at).toLocaleTimeString()}</td>
+                          <td className="py-2 pr-4 font-medium text-gray-900">{count.bin_no}</td>
+                          <td className="py-2 pr-4">{count.username}</td>
+                          <td className="py-2 pr-4">{count.qty_counted}</td>
+                          <td className="py-2 pr-4">
+                            {count.qty_as_per_books}
+                            {count.is_blind && <span className="text-xs text-gray-500"> (blind)</span>}
+                          </td>
+                          <td className="py-2">{count.qty_recounted_tl ?? '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnomalyReview;
@@ -1,24 +1,60 @@
 import React, { useState } from 'react';
 import { User, Lock, AlertCircle } from 'lucide-react';
+import OTPVerification from './OTPVerification';
+import { setRealtimeSession } from '../../services/supabase';
+
+// The /user-management/login response. Workers sign in with their password first;
+// the token only reaches the OTP step until it is verified
+export interface LoginResult {
+  accessToken?: string;
+  refreshToken?: string;
+  otpRequired?: boolean;
+}
 
 interface LoginFormProps {
   role: 'admin' | 'vendor' | 'team_leader' | 'worker';
-  onLogin: (userId: string, password: string) => Promise<void>;
+  onLogin: (userId: string, password: string) => Promise<LoginResult | void>;
+  onOtpVerified?: () => void;
+  onOtpCancelled?: () => void;
   loading?: boolean;
   error?: string;
 }
 
-const LoginForm: React.FC<LoginFormProps> = ({ role, onLogin, loading, error }) => {
+const LoginForm: React.FC<LoginFormProps> = ({ role, onLogin, onOtpVerified, onOtpCancelled, loading, error }) => {
   const [userId, setUserId] = useState('');
   const [password, setPassword] = useState('');
+  const [awaitingOtp, setAwaitingOtp] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (userId.trim() && password.trim()) {
-      await onLogin(userId.trim(), password);
+      const result = await onLogin(userId.trim(), password);
+      if (result?.accessToken && result.refreshToken) {
+        // Live views go without updates rather than failing the sign-in
+        await setRealtimeSession(result.accessToken, result.refreshToken).catch(() => undefined);
+      }
+      if (result?.otpRequired) {
+        setAwaitingOtp(true);
+      }
     }
   };
 
+  if (awaitingOtp) {
+    return (
+      <OTPVerification
+        onVerified={() => {
+          setAwaitingOtp(false);
+          onOtpVerified?.();
+        }}
+        onCancel={() => {
+          setAwaitingOtp(false);
+          setPassword('');
+          onOtpCancelled?.();
+        }}
+      />
+    );
+  }
+
   const getRoleTitle = () => {
     switch (role) {
       case 'admin': return 'Admin Login';
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { KeyRound, Clock, AlertCircle } from 'lucide-react';
+import { api } from '../../services/api';
+import { getErrorMessage } from '../../utils/errors';
+
+interface OTPVerificationProps {
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+interface OTPStatus {
+  id: string;
+  is_approved: boolean;
+  expires_at: string;
+}
+
+const STATUS_POLL_INTERVAL_MS = 5000;
+
+const OTPVerification: React.FC<OTPVerificationProps> = ({ onVerified, onCancel }) => {
+  const [otpRequest, setOtpRequest] = useState<OTPStatus | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    requestOtp();
+  }, []);
+
+  useEffect(() => {
+    if (!otpRequest || otpRequest.is_approved) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await api.get(`/otp/status/${otpRequest.id}`);
+        setOtpRequest(response.data);
+      } catch (err) {
+        // Keep polling; the next attempt may succeed
+      }
+    }, STATUS_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [otpRequest]);
+
+  const requestOtp = async () => {
+    setLoading(true);
+    setError('');
+    setCode('');
+    try {
+      const response = await api.post('/otp/request');
+      setOtpRequest(response.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to request OTP'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!otpRequest || !code.trim()) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      await api.post('/otp/verify', { requestId: otpRequest.id, code: code.trim() });
+      onVerified();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to verify OTP'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const expired = otpRequest ? new Date(otpRequest.expires_at) <= new Date() : false;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="mx-auto w-16 h-16 bg-indigo-100 rounded-full flex items-center justify-center mb-4">
+            <KeyRound className="w-8 h-8 text-indigo-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">OTP Verification</h1>
+          <p className="text-gray-600 text-sm">
+            {otpRequest?.is_approved
+              ? 'Your team leader approved the request. Enter the code they give you.'
+              : 'Waiting for your team leader to approve your login.'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {otpRequest && !otpRequest.is_approved && !expired && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-3">
+            <Clock className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+            <p className="text-yellow-800 text-sm">Pending approval</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label htmlFor="otpCode" className="block text-sm font-medium text-gray-700 mb-2">
+              OTP Code
+            </label>
+            <input
+              id="otpCode"
+              type="text"
+              inputMode="numeric"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg text-center tracking-widest text-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+              placeholder="------"
+              disabled={loading || !otpRequest?.is_approved || expired}
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading || code.length !== 6 || !otpRequest?.is_approved || expired}
+            className="w-full bg-indigo-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? 'Verifying...' : 'Verify'}
+          </button>
+        </form>
+
+        <div className="mt-6 flex justify-between">
+          <button
+            onClick={onCancel}
+            className="text-gray-600 hover:text-gray-700 text-sm font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={requestOtp}
+            disabled={loading}
+            className="text-indigo-600 hover:text-indigo-700 text-sm font-medium disabled:opacity-50 transition-colors"
+          >
+            Request new OTP
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OTPVerification;
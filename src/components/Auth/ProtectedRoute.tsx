@@ -0,0 +1,35 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { User } from '../../types';
+
+type Role = User['role'];
+
+export const DASHBOARD_PATHS: Record<Role, string> = {
+  admin: '/admin',
+  vendor: '/vendor',
+  team_leader: '/team-leader',
+  worker: '/worker'
+};
+
+interface ProtectedRouteProps {
+  roles: Role[];
+  children: React.ReactNode;
+}
+
+// Signed-out users go to role selection; other roles go to their own dashboard
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ roles, children }) => {
+  const { user } = useAuth();
+
+  if (!user) {
+    return <Navigate to="/" replace />;
+  }
+
+  if (!roles.includes(user.role)) {
+    return <Navigate to={DASHBOARD_PATHS[user.role]} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Routes, Route, Navigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import ProtectedRoute, { DASHBOARD_PATHS } from './ProtectedRoute';
+import AdminDashboard from '../../pages/AdminDashboard';
+import VendorDashboard from '../../pages/VendorDashboard';
+import TeamLeaderDashboard from '../../pages/TeamLeaderDashboard';
+import WorkerDashboard from '../../pages/WorkerDashboard';
+
+// Dashboard routes, one per role; `/dashboard` sends users to their own page
+const RoleRoutes: React.FC = () => {
+  const { user } = useAuth();
+
+  return (
+    <Routes>
+      <Route
+        path="/dashboard"
+        element={<Navigate to={user ? DASHBOARD_PATHS[user.role] : '/'} replace />}
+      />
+      <Route
+        path={DASHBOARD_PATHS.admin}
+        element={<ProtectedRoute roles={['admin']}><AdminDashboard /></ProtectedRoute>}
+      />
+      <Route
+        path={DASHBOARD_PATHS.vendor}
+        element={<ProtectedRoute roles={['vendor']}><VendorDashboard /></ProtectedRoute>}
+      />
+      <Route
+        path={DASHBOARD_PATHS.team_leader}
+        element={<ProtectedRoute roles={['team_leader']}><TeamLeaderDashboard /></ProtectedRoute>}
+      />
+      <Route
+        path={DASHBOARD_PATHS.worker}
+        element={<ProtectedRoute roles={['worker']}><WorkerDashboard /></ProtectedRoute>}
+      />
+    </Routes>
+  );
+};
+
+export default RoleRoutes;
@@ -0,0 +1,366 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardList, Plus, Users, Lock, AlertTriangle, EyeOff, Timer } from 'lucide-react';
+import { CountCampaign, CampaignProgress, WarehouseSettings } from '../../types';
+import { api } from '../../services/api';
+import { getErrorMessage } from '../../utils/errors';
+
+// Choices for how long a session may go without a heartbeat before it is closed
+const SESSION_TIMEOUT_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+interface CampaignManagerProps {
+  warehouseName: string;
+  canEditSettings?: boolean;
+}
+
+const CampaignManager: React.FC<CampaignManagerProps> = ({ warehouseName, canEditSettings = false }) => {
+  const [campaigns, setCampaigns] = useState<CountCampaign[]>([]);
+  const [progress, setProgress] = useState<Record<string, CampaignProgress>>({});
+  const [name, setName] = useState('');
+  const [campaignType, setCampaignType] = useState<'full' | 'cycle'>('full');
+  const [abcClass, setAbcClass] = useState<'A' | 'B' | 'C'>('A');
+  const [blindMode, setBlindMode] = useState<'default' | 'blind' | 'visible'>('default');
+  const [requireSecondCount, setRequireSecondCount] = useState(false);
+  const [settings, setSettings] = useState<WarehouseSettings | null>(null);
+  const [assignTarget, setAssignTarget] = useState<string | null>(null);
+  const [workerIds, setWorkerIds] = useState('');
+  const [strategy, setStrategy] = useState<'block' | 'round_robin'>('block');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (warehouseName) {
+      loadCampaigns();
+      loadSettings();
+    }
+  }, [warehouseName]);
+
+  const loadSettings = async () => {
+    try {
+      const response = await api.get(`/worker-performance/settings?warehouse=${encodeURIComponent(warehouseName)}`);
+      setSettings(response.data);
+    } catch (err) {
+      // Campaigns still work without the warehouse defaults shown
+    }
+  };
+
+  const updateSettings = async (changes: { blindCount?: boolean; requireSecondCount?: boolean; sessionTimeoutMinutes?: number }) => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await api.put(`/worker-performance/settings?warehouse=${encodeURIComponent(warehouseName)}`, changes);
+      setSettings(response.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update warehouse settings'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadCampaigns = async () => {
+    try {
+      const response = await api.get(`/count-campaigns?warehouse=${encodeURIComponent(warehouseName)}`);
+      setCampaigns(response.data);
+      response.data
+        .filter((campaign: CountCampaign) => campaign.status === 'open')
+        .forEach((campaign: CountCampaign) => loadProgress(campaign.id));
+    } catch (err) {
+      setError('Failed to load campaigns');
+    }
+  };
+
+  const loadProgress = async (campaignId: string) => {
+    try {
+      const response = await api.get(`/count-campaigns/${campaignId}/progress`);
+      setProgress(prev => ({ ...prev, [campaignId]: response.data }));
+    } catch (err) {
+      // Progress is refreshed on the next load
+    }
+  };
+
+  const createCampaign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      await api.post('/count-campaigns', {
+        name: name.trim(),
+        campaignType,
+        warehouseName,
+        abcClass: campaignType === 'cycle' ? abcClass : undefined,
+        blindCount: blindMode === 'default' ? null : blindMode === 'blind',
+        requireSecondCount: blindMode === 'blind' ? requireSecondCount : null
+      });
+      setName('');
+      await loadCampaigns();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create campaign'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const assignBins = async (campaignId: string) => {
+    const workerUserIds = workerIds.split(',').map(id => id.trim()).filter(Boolean);
+    if (workerUserIds.length === 0) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      await api.post(`/count-campaigns/${campaignId}/assign`, { workerUserIds, strategy });
+      setAssignTarget(null);
+      setWorkerIds('');
+      await loadProgress(campaignId);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to assign bins'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeCampaign = async (campaign: CountCampaign) => {
+    if (!window.confirm(`Close "${campaign.name}"? Its results will be frozen.`)) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      await api.post(`/count-campaigns/${campaign.id}/close`);
+      await loadCampaigns();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to close campaign'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isBlind = (campaign: CountCampaign) => campaign.blind_count ?? settings?.blind_count ?? false;
+
+  const percent = (value: number, total: number) => (total > 0 ? Math.round((value / total) * 100) : 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Count Campaigns</h2>
+          <p className="text-sm text-gray-600">Warehouse: {warehouseName}</p>
+        </div>
+        <ClipboardList className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {settings && (
+        <div className="p-4 bg-gray-50 rounded-lg flex flex-wrap items-center gap-6 text-sm text-gray-700">
+          <span className="flex items-center gap-2 font-medium">
+            <EyeOff className="w-4 h-4" />
+            Warehouse default
+          </span>
+          {canEditSettings ? (
+            <>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.blind_count}
+                  onChange={(e) => updateSettings({ blindCount: e.target.checked })}
+                  disabled={loading}
+                />
+                Blind counting
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.require_second_count}
+                  onChange={(e) => updateSettings({ requireSecondCount: e.target.checked })}
+                  disabled={loading || !settings.blind_count}
+                />
+                Second blind count before recount
+              </label>
+              <label className="flex items-center gap-2">
+                <Timer className="w-4 h-4" />
+                Close idle sessions after
+                <select
+                  value={settings.session_timeout_minutes}
+                  onChange={(e) => updateSettings({ sessionTimeoutMinutes: parseInt(e.target.value) })}
+                  disabled={loading}
+                  className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  {SESSION_TIMEOUT_OPTIONS
+                    .concat(SESSION_TIMEOUT_OPTIONS.includes(settings.session_timeout_minutes) ? [] : [settings.session_timeout_minutes])
+                    .sort((a, b) => a - b)
+                    .map((minutes) => (
+                      <option key={minutes} value={minutes}>{minutes} min</option>
+                    ))}
+                </select>
+              </label>
+            </>
+          ) : (
+            <span>
+              {settings.blind_count
+                ? `Blind counting${settings.require_second_count ? ' with a second count' : ''}`
+                : 'Book quantities shown to workers'}
+              {` · idle sessions close after ${settings.session_timeout_minutes} min`}
+            </span>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={createCampaign} className="flex flex-wrap items-center gap-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Campaign name"
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <select
+          value={campaignType}
+          onChange={(e) => setCampaignType(e.target.value as 'full' | 'cycle')}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="full">Full physical inventory</option>
+          <option value="cycle">ABC cycle count</option>
+        </select>
+        {campaignType === 'cycle' && (
+          <select
+            value={abcClass}
+            onChange={(e) => setAbcClass(e.target.value as 'A' | 'B' | 'C')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="A">Class A</option>
+            <option value="B">Class B</option>
+            <option value="C">Class C</option>
+          </select>
+        )}
+        <select
+          value={blindMode}
+          onChange={(e) => setBlindMode(e.target.value as 'default' | 'blind' | 'visible')}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="default">Warehouse default</option>
+          <option value="blind">Blind count</option>
+          <option value="visible">Show book quantities</option>
+        </select>
+        {blindMode === 'blind' && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={requireSecondCount}
+              onChange={(e) => setRequireSecondCount(e.target.checked)}
+            />
+            Second blind count
+          </label>
+        )}
+        <button
+          type="submit"
+          disabled={loading || !name.trim()}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Create
+        </button>
+      </form>
+
+      <div className="space-y-4">
+        {campaigns.map((campaign) => {
+          const campaignProgress = progress[campaign.id];
+          return (
+            <div key={campaign.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <div>
+                  <p className="font-medium text-gray-900">{campaign.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {campaign.campaign_type === 'full' ? 'Full inventory' : `Cycle count, class ${campaign.abc_class || '-'}`}
+                    {isBlind(campaign) && ' · Blind'}
+                  </p>
+                </div>
+                {campaign.status === 'closed' ? (
+                  <span className="flex items-center gap-1 text-sm text-gray-500">
+                    <Lock className="w-4 h-4" />
+                    Closed
+                  </span>
+                ) : (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setAssignTarget(assignTarget === campaign.id ? null : campaign.id)}
+                      className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1"
+                    >
+                      <Users className="w-4 h-4" />
+                      Assign
+                    </button>
+                    <button
+                      onClick={() => closeCampaign(campaign)}
+                      disabled={loading}
+                      className="px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                    >
+                      Close
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {campaignProgress && (
+                <div>
+                  <div className="w-full bg-gray-200 rounded-full h-2 flex overflow-hidden">
+                    <div
+                      className="bg-green-500 h-2"
+                      style={{ width: `${percent(campaignProgress.counted, campaignProgress.total)}%` }}
+                    />
+                    <div
+                      className="bg-yellow-500 h-2"
+                      style={{ width: `${percent(campaignProgress.recount, campaignProgress.total)}%` }}
+                    />
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {campaignProgress.counted} counted · {campaignProgress.recount} in recount · {campaignProgress.uncounted} uncounted
+                  </p>
+                  <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-gray-600">
+                    {campaignProgress.workers.map((worker) => (
+                      <span key={worker.worker_id || 'unassigned'}>
+                        {worker.worker_user_id || 'Unassigned'}: {worker.counted}/{worker.counted + worker.recount + worker.uncounted}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {assignTarget === campaign.id && (
+                <div className="mt-4 flex flex-wrap items-center gap-4">
+                  <input
+                    type="text"
+                    value={workerIds}
+                    onChange={(e) => setWorkerIds(e.target.value)}
+                    placeholder="Worker IDs, comma separated"
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                  <select
+                    value={strategy}
+                    onChange={(e) => setStrategy(e.target.value as 'block' | 'round_robin')}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="block">Contiguous blocks</option>
+                    <option value="round_robin">Round robin</option>
+                  </select>
+                  <button
+                    onClick={() => assignBins(campaign.id)}
+                    disabled={loading || !workerIds.trim()}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                  >
+                    Assign Uncounted Bins
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignManager;
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { Activity, Package, AlertTriangle, Users, Award } from 'lucide-react';
+import { DashboardSummary } from '../../types';
+import { api } from '../../services/api';
+
+interface HierarchyOverviewProps {
+  warehouseName?: string;
+  showTeams: boolean;
+}
+
+const REFRESH_INTERVAL_MS = 15000;
+
+const HierarchyOverview: React.FC<HierarchyOverviewProps> = ({ warehouseName, showTeams }) => {
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadSummary();
+    const interval = setInterval(loadSummary, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [warehouseName]);
+
+  const loadSummary = async () => {
+    try {
+      const query = warehouseName ? `?warehouse=${encodeURIComponent(warehouseName)}` : '';
+      const response = await api.get(`/dashboard${query}`);
+      setSummary(response.data);
+      setError('');
+    } catch (err) {
+      setError('Failed to load dashboard');
+    }
+  };
+
+  if (!summary) {
+    return error ? (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+        <AlertTriangle className="w-5 h-5 text-red-500" />
+        <p className="text-red-700">{error}</p>
+      </div>
+    ) : (
+      <div className="bg-white rounded-xl shadow-sm p-6 text-gray-600">Loading dashboard...</div>
+    );
+  }
+
+  const { totals } = summary;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Active Sessions</p>
+              <p className="text-2xl font-bold text-gray-900">{totals.activeSessions}</p>
+              <p className="text-xs text-gray-500">of {totals.workers} workers</p>
+            </div>
+            <Activity className="w-8 h-8 text-green-600" />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Bins Counted Today</p>
+              <p className="text-2xl font-bold text-gray-900">{totals.binsCounted}</p>
+              <p className="text-xs text-gray-500">{totals.qtyCounted} units</p>
+            </div>
+            <Package className="w-8 h-8 text-blue-600" />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Variances</p>
+              <p className="text-2xl font-bold text-gray-900">{totals.variances}</p>
+              <p className="text-xs text-gray-500">{totals.openVariances} awaiting approval</p>
+            </div>
+            <AlertTriangle className="w-8 h-8 text-orange-600" />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Teams</p>
+              <p className="text-2xl font-bold text-gray-900">{summary.teams.length}</p>
+              <p className="text-xs text-gray-500">{summary.date}</p>
+            </div>
+            <Users className="w-8 h-8 text-purple-600" />
+          </div>
+        </div>
+      </div>
+
+      {showTeams && summary.teams.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Team Progress</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4">Team Leader</th>
+                <th className="py-2 pr-4">Warehouse</th>
+                <th className="py-2 pr-4">Active</th>
+                <th className="py-2 pr-4">Bins</th>
+                <th className="py-2 pr-4">Variances</th>
+                <th className="py-2">Open</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.teams.map((team) => (
+                <tr key={team.team_leader_id} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium text-gray-900">{team.team_leader_user_id}</td>
+                  <td className="py-2 pr-4">{team.warehouse_name || '-'}</td>
+                  <td className="py-2 pr-4">{team.activeSessions}/{team.workers}</td>
+                  <td className="py-2 pr-4">{team.binsCounted}</td>
+                  <td className="py-2 pr-4">{team.variances}</td>
+                  <td className="py-2">{team.openVariances}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Worker Rankings</h2>
+          <Award className="w-6 h-6 text-indigo-600" />
+        </div>
+        {summary.workers.length === 0 ? (
+          <p className="text-gray-600">No workers in this view.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4">Rank</th>
+                  <th className="py-2 pr-4">Worker</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Bins</th>
+                  <th className="py-2 pr-4">Variances</th>
+                  <th className="py-2">Efficiency</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.workers.map((worker) => (
+                  <tr key={worker.worker_id} className="border-b last:border-0">
+                    <td className="py-2 pr-4">{worker.ranking ?? '-'}</td>
+                    <td className="py-2 pr-4 font-medium text-gray-900">{worker.worker_user_id}</td>
+                    <td className="py-2 pr-4">
+                      <span className={worker.session_active ? 'text-green-600' : 'text-gray-500'}>
+                        {worker.session_active ? 'Counting' : 'Idle'}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4">{worker.bins_counted}</td>
+                    <td className={`py-2 pr-4 ${worker.open_variances > 0 ? 'text-red-600' : ''}`}>
+                      {worker.variances}
+                    </td>
+                    <td className="py-2">{worker.efficiency != null ? `${worker.efficiency}%` : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HierarchyOverview;
@@ -0,0 +1,348 @@
+import React, { useState, useEffect } from 'react';
+import { Activity, AlertTriangle, Clock, Coffee, Gauge, Radio } from 'lucide-react';
+import { CountingData, LiveBoardSnapshot, LiveSession, WorkerPerformance } from '../../types';
+import { api } from '../../services/api';
+import { useRealtimeChanges } from '../../hooks/useRealtimeChanges';
+import { getErrorMessage } from '../../utils/errors';
+
+interface LiveCountingBoardProps {
+  warehouseName?: string;
+  // Team leaders can force-close the sessions they lead
+  teamLeaderId?: string;
+}
+
+const RATE_WINDOW_MINUTES = 5;
+const IDLE_AFTER_MINUTES = 10;
+// Matches the window /dashboard/live returns counts for
+const VARIANCE_WINDOW_MINUTES = 30;
+const MAX_VARIANCES_SHOWN = 15;
+const CLOCK_TICK_MS = 30000;
+
+const minutesSince = (timestamp: string, now: number) => (now - new Date(timestamp).getTime()) / 60000;
+
+const LiveCountingBoard: React.FC<LiveCountingBoardProps> = ({ warehouseName, teamLeaderId }) => {
+  const [snapshot, setSnapshot] = useState<LiveBoardSnapshot | null>(null);
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const [closingId, setClosingId] = useState<string | null>(null);
+
+  const status = useRealtimeChanges(
+    `live-board-${warehouseName}`,
+    [
+      { table: 'counting_data', filter: `wh_name=eq.${warehouseName}` },
+      { table: 'counting_sessions', filter: `warehouse_name=eq.${warehouseName}` },
+      { table: 'worker_performance', filter: `wh_name=eq.${warehouseName}` }
+    ],
+    (table, payload) => {
+      if (payload.eventType === 'DELETE') return;
+
+      if (table === 'counting_data') {
+        applyCount(payload.new as unknown as CountingData, payload.eventType === 'INSERT');
+      } else if (table === 'counting_sessions') {
+        applySession(payload.new as { id: string, status: string, break_started_at: string | null });
+      } else if (table === 'worker_performance') {
+        applyPerformance(payload.new as unknown as WorkerPerformance);
+      }
+    },
+    !!warehouseName
+  );
+
+  useEffect(() => {
+    setSnapshot(null);
+    if (warehouseName) {
+      loadSnapshot();
+    }
+  }, [warehouseName]);
+
+  // Changes made while the channel was down are never replayed, so resync on every (re)connect
+  useEffect(() => {
+    if (status === 'live' && warehouseName) {
+      loadSnapshot();
+    }
+  }, [status]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadSnapshot = async () => {
+    try {
+      const response = await api.get(`/dashboard/live?warehouse=${encodeURIComponent(warehouseName || '')}`);
+      setSnapshot(response.data);
+      setNow(Date.now());
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load live board'));
+    }
+  };
+
+  const applyCount = (count: CountingData, isNew: boolean) => {
+    // Only sessions in the caller's part of the hierarchy are on the board; a count from a
+    // session started after the snapshot needs a reload to pick up the session and its worker
+    if (!snapshot?.sessions.some(session => session.session_id === count.session_id)) {
+      if (isNew) loadSnapshot();
+      return;
+    }
+
+    setSnapshot(current => {
+      if (!current) return current;
+
+      const alreadySeen = current.recentCounts.some(existing => existing.id === count.id);
+      return {
+        ...current,
+        sessions: isNew && !alreadySeen
+          ? current.sessions.map(session => session.session_id === count.session_id
+              ? { ...session, bins_counted: session.bins_counted + 1, last_count_at: count.created_at }
+              : session)
+          : current.sessions,
+        recentCounts: alreadySeen
+          ? current.recentCounts.map(existing => existing.id === count.id ? count : existing)
+          : [count, ...current.recentCounts]
+      };
+    });
+    setNow(Date.now());
+  };
+
+  const applySession = (session: { id: string, status: string, break_started_at: string | null }) => {
+    // Heartbeats and breaks update a session already on the board
+    if (session.status === 'active' && snapshot?.sessions.some(existing => existing.session_id === session.id)) {
+      setSnapshot(current => current && {
+        ...current,
+        sessions: current.sessions.map(existing => existing.session_id === session.id
+          ? { ...existing, break_started_at: session.break_started_at }
+          : existing)
+      });
+      return;
+    }
+
+    if (session.status === 'active') {
+      loadSnapshot();
+      return;
+    }
+
+    setSnapshot(current => current && {
+      ...current,
+      sessions: current.sessions.filter(existing => existing.session_id !== session.id)
+    });
+  };
+
+  const applyPerformance = (performance: WorkerPerformance) => {
+    setSnapshot(current => current && {
+      ...current,
+      sessions: current.sessions.map(session => session.worker_user_id === performance.username
+        ? { ...session, efficiency: performance.efficiency }
+        : session)
+    });
+  };
+
+  const forceClose = async (session: LiveSession) => {
+    const reason = window.prompt(`Close ${session.worker_user_id}'s session? Say why.`, '');
+    if (!reason?.trim()) return;
+
+    setClosingId(session.session_id);
+    setError('');
+    try {
+      await api.post(`/counting-session/end/${session.session_id}`, { reason: reason.trim() });
+      setSnapshot(current => current && {
+        ...current,
+        sessions: current.sessions.filter(existing => existing.session_id !== session.session_id)
+      });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to close session'));
+    } finally {
+      setClosingId(null);
+    }
+  };
+
+  if (!warehouseName) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm p-6 text-gray-600">
+        Choose a warehouse to watch its count floor live.
+      </div>
+    );
+  }
+
+  if (!snapshot) {
+    return error ? (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+        <AlertTriangle className="w-5 h-5 text-red-500" />
+        <p className="text-red-700">{error}</p>
+      </div>
+    ) : (
+      <div className="bg-white rounded-xl shadow-sm p-6 text-gray-600">Loading live board...</div>
+    );
+  }
+
+  const lastActivity = (session: LiveSession) => session.last_count_at || session.start_time;
+  // Workers on a break are not idle
+  const idleSessions = snapshot.sessions.filter(session =>
+    !session.break_started_at && minutesSince(lastActivity(session), now) >= IDLE_AFTER_MINUTES);
+  const recentBins = snapshot.recentCounts.filter(count => minutesSince(count.created_at, now) <= RATE_WINDOW_MINUTES).length;
+  const binsPerMinute = Math.round((recentBins / RATE_WINDOW_MINUTES) * 10) / 10;
+  const variances = snapshot.recentCounts
+    .filter(count => count.difference !== 0 && minutesSince(count.created_at, now) <= VARIANCE_WINDOW_MINUTES);
+  const sessions = [...snapshot.sessions].sort((a, b) => lastActivity(a).localeCompare(lastActivity(b)));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Live Floor · {snapshot.warehouse}</h2>
+        <span className={`flex items-center gap-2 text-sm ${status === 'live' ? 'text-green-600' : 'text-orange-600'}`}>
+          <Radio className="w-4 h-4" />
+          {status === 'live' ? 'Live' : status === 'connecting' ? 'Connecting...' : 'Reconnecting...'}
+        </span>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Active Workers</p>
+              <p className="text-2xl font-bold text-gray-900">{snapshot.sessions.length}</p>
+            </div>
+            <Activity className="w-8 h-8 text-green-600" />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Bins per Minute</p>
+              <p className="text-2xl font-bold text-gray-900">{binsPerMinute}</p>
+              <p className="text-xs text-gray-500">last {RATE_WINDOW_MINUTES} minutes</p>
+            </div>
+            <Gauge className="w-8 h-8 text-blue-600" />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">New Variances</p>
+              <p className="text-2xl font-bold text-gray-900">{variances.length}</p>
+              <p className="text-xs text-gray-500">last {VARIANCE_WINDOW_MINUTES} minutes</p>
+            </div>
+            <AlertTriangle className="w-8 h-8 text-orange-600" />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Idle Workers</p>
+              <p className={`text-2xl font-bold ${idleSessions.length > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {idleSessions.length}
+              </p>
+              <p className="text-xs text-gray-500">no count for {IDLE_AFTER_MINUTES}+ minutes</p>
+            </div>
+            <Clock className="w-8 h-8 text-purple-600" />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h3 className="text-base font-semibold text-gray-900 mb-4">Active Workers</h3>
+          {sessions.length === 0 ? (
+            <p className="text-gray-600">No one is counting right now.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Worker</th>
+                    <th className="py-2 pr-4">Bins</th>
+                    <th className="py-2 pr-4">Last Count</th>
+                    <th className="py-2">Efficiency</th>
+                    {teamLeaderId && <th className="py-2"></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map((session) => {
+                    const idleMinutes = Math.floor(minutesSince(lastActivity(session), now));
+                    return (
+                      <tr key={session.session_id} className="border-b last:border-0">
+                        <td className="py-2 pr-4 font-medium text-gray-900">{session.worker_user_id}</td>
+                        <td className="py-2 pr-4">{session.bins_counted}</td>
+                        {session.break_started_at ? (
+                          <td className="py-2 pr-4 text-amber-600">
+                            <span className="flex items-center gap-1">
+                              <Coffee className="w-4 h-4" />
+                              on break {Math.floor(minutesSince(session.break_started_at, now))}m
+                            </span>
+                          </td>
+                        ) : (
+                          <td className={`py-2 pr-4 ${idleMinutes >= IDLE_AFTER_MINUTES ? 'text-red-600 font-medium' : ''}`}>
+                            {session.last_count_at ? `${idleMinutes}m ago` : `none (started ${idleMinutes}m ago)`}
+                          </td>
+                        )}
+                        <td className="py-2">{session.efficiency != null ? `${session.efficiency}%` : '-'}</td>
+                        {teamLeaderId && (
+                          <td className="py-2 text-right">
+                            {session.team_leader_id === teamLeaderId && (
+                              <button
+                                onClick={() => forceClose(session)}
+                                disabled={closingId === session.session_id}
+                                className="px-3 py-1 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                              >
+                                {closingId === session.session_id ? 'Closing...' : 'Close'}
+                              </button>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h3 className="text-base font-semibold text-gray-900 mb-4">Variance Feed</h3>
+          {variances.length === 0 ? (
+            <p className="text-gray-600">No recent variances.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Time</th>
+                    <th className="py-2 pr-4">Worker</th>
+                    <th className="py-2 pr-4">Bin</th>
+                    <th className="py-2">Difference</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {variances.slice(0, MAX_VARIANCES_SHOWN).map((count) => (
+                    <tr key={count.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4">{new Date(count.created_at).toLocaleTimeString()}</td>
+                      <td className="py-2 pr-4 font-medium text-gray-900">{count.username}</td>
+                      <td className="py-2 pr-4">{count.bin_no}</td>
+                      <td className={`py-2 ${count.difference < 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                        {count.difference > 0 ? `+${count.difference}` : count.difference}
+                        {count.qty_recounted_tl != null && <span className="text-xs text-gray-500"> (recounted)</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveCountingBoard;
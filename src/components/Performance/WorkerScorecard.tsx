@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { TrendingUp, AlertTriangle } from 'lucide-react';
+import { PerformancePoint, PerformanceTrends } from '../../types';
+import { api } from '../../services/api';
+import { getErrorMessage } from '../../utils/errors';
+
+interface WorkerScorecardProps {
+  warehouseName?: string;
+  // Set for a worker's own scorecard; managers pick from the workers in range
+  workerUserId?: string;
+}
+
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 48;
+
+interface SparklineProps {
+  dates: string[];
+  series: PerformancePoint[];
+  average: PerformancePoint[];
+  metric: 'binsPerHour' | 'accuracyRate' | 'sessionHours';
+}
+
+// Worker line over the warehouse average (dashed), on a shared date axis
+const Sparkline: React.FC<SparklineProps> = ({ dates, series, average, metric }) => {
+  const max = Math.max(...series.map(point => point[metric]), ...average.map(point => point[metric]), 0);
+  const x = (date: string) => dates.length > 1
+    ? (dates.indexOf(date) / (dates.length - 1)) * SPARKLINE_WIDTH
+    : SPARKLINE_WIDTH / 2;
+  const y = (value: number) => max > 0 ? SPARKLINE_HEIGHT - (value / max) * (SPARKLINE_HEIGHT - 4) - 2 : SPARKLINE_HEIGHT - 2;
+  const pointsOf = (points: PerformancePoint[]) => points
+    .map(point => `${x(point.date).toFixed(1)},${y(point[metric]).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="overflow-visible">
+      <polyline points={pointsOf(average)} fill="none" stroke="#9ca3af" strokeWidth="1.5" strokeDasharray="4 3" />
+      <polyline points={pointsOf(series)} fill="none" stroke="#4f46e5" strokeWidth="2" />
+      {series.length === 1 && (
+        <circle cx={x(series[0].date)} cy={y(series[0][metric])} r="3" fill="#4f46e5" />
+      )}
+    </svg>
+  );
+};
+
+const WorkerScorecard: React.FC<WorkerScorecardProps> = ({ warehouseName, workerUserId }) => {
+  // Left to the server at first, which knows the warehouse's business date
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [trends, setTrends] = useState<PerformanceTrends | null>(null);
+  const [selected, setSelected] = useState<string | null>(workerUserId || null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadTrends();
+  }, [warehouseName, workerUserId]);
+
+  const loadTrends = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const params = new URLSearchParams();
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      if (warehouseName) params.set('warehouse', warehouseName);
+      if (workerUserId) params.set('worker', workerUserId);
+
+      const response = await api.get(`/worker-performance/trends?${params.toString()}`);
+      const data: PerformanceTrends = response.data;
+      setTrends(data);
+      setFrom(data.from);
+      setTo(data.to);
+      if (!data.workers.some(worker => worker.username === selected)) {
+        setSelected(data.workers[0]?.username ?? null);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load performance trends'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const worker = trends?.workers.find(candidate => candidate.username === selected);
+  const dates = trends?.averageSeries.map(point => point.date) ?? [];
+
+  const comparisons = worker && trends ? [
+    {
+      label: 'Bins per Hour',
+      metric: 'binsPerHour' as const,
+      value: worker.binsPerHour,
+      average: trends.averages.binsPerHour,
+      format: (value: number) => value.toFixed(1)
+    },
+    {
+      label: 'Accuracy',
+      metric: 'accuracyRate' as const,
+      value: worker.accuracyRate,
+      average: trends.averages.accuracyRate,
+      format: (value: number) => `${Math.round(value * 100)}%`
+    },
+    {
+      label: 'Session Hours',
+      metric: 'sessionHours' as const,
+      value: worker.sessionHours,
+      average: trends.averages.sessionHours,
+      format: (value: number) => `${value.toFixed(1)}h`
+    }
+  ] : [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Performance Scorecard</h2>
+          <p className="text-sm text-gray-600">
+            {trends ? `${trends.warehouse} · ${trends.averages.workers} workers in range` : 'Performance over time'}
+          </p>
+        </div>
+        <TrendingUp className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button
+          onClick={loadTrends}
+          disabled={loading || !from || !to}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          {loading ? 'Loading...' : 'Apply'}
+        </button>
+        {!workerUserId && trends && trends.workers.length > 0 && (
+          <select
+            value={selected ?? ''}
+            onChange={(e) => setSelected(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {trends.workers.map((candidate) => (
+              <option key={candidate.username} value={candidate.username}>{candidate.username}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {trends && !worker && (
+        <p className="text-gray-600">No counting activity in this period.</p>
+      )}
+
+      {worker && trends && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {comparisons.map((comparison) => {
+            const delta = comparison.value - comparison.average;
+            return (
+              <div key={comparison.label} className="border border-gray-200 rounded-lg p-4">
+                <p className="text-sm font-medium text-gray-600">{comparison.label}</p>
+                <div className="flex items-baseline gap-3">
+                  <p className="text-2xl font-bold text-gray-900">{comparison.format(comparison.value)}</p>
+                  <p className={`text-sm ${delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {delta >= 0 ? '+' : '-'}{comparison.format(Math.abs(delta))} vs avg
+                  </p>
+                </div>
+                <p className="text-xs text-gray-500 mb-2">Warehouse average {comparison.format(comparison.average)}</p>
+                <Sparkline
+                  dates={dates}
+                  series={worker.series}
+                  average={trends.averageSeries}
+                  metric={comparison.metric}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!workerUserId && trends && trends.workers.length > 1 && (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4">Worker</th>
+                <th className="py-2 pr-4">Bins</th>
+                <th className="py-2 pr-4">Bins/hr</th>
+                <th className="py-2 pr-4">Accuracy</th>
+                <th className="py-2">Hours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trends.workers.map((row) => (
+                <tr
+                  key={row.username}
+                  onClick={() => setSelected(row.username)}
+                  className={`border-b last:border-0 cursor-pointer ${row.username === selected ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                >
+                  <td className="py-2 pr-4 font-medium text-gray-900">{row.username}</td>
+                  <td className="py-2 pr-4">{row.bins}</td>
+                  <td className={`py-2 pr-4 ${row.binsPerHour < trends.averages.binsPerHour ? 'text-red-600' : ''}`}>
+                    {row.binsPerHour.toFixed(1)}
+                  </td>
+                  <td className={`py-2 pr-4 ${row.accuracyRate < trends.averages.accuracyRate ? 'text-red-600' : ''}`}>
+                    {Math.round(row.accuracyRate * 100)}%
+                  </td>
+                  <td className="py-2">{row.sessionHours.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkerScorecard;
@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { Scale, Download, FileText, CheckCircle, AlertTriangle } from 'lucide-react';
+import { ReconciliationRow, ReconciliationSummary } from '../../types';
+import { api } from '../../services/api';
+import { downloadFile } from '../../utils/download';
+import { getErrorMessage } from '../../utils/errors';
+
+interface ReconciliationReportProps {
+  warehouseName: string;
+  campaignId?: string;
+  canSignOff: boolean;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  damaged: 'Damaged stock',
+  misplaced: 'Misplaced stock',
+  wrong_bin: 'Stored in wrong bin',
+  book_error: 'Book quantity error',
+  in_transit: 'Pending inward/outward',
+  other: 'Other'
+};
+
+const ReconciliationReport: React.FC<ReconciliationReportProps> = ({ warehouseName, campaignId, canSignOff }) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [rows, setRows] = useState<ReconciliationRow[]>([]);
+  const [summary, setSummary] = useState<ReconciliationSummary | null>(null);
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const scopeQuery = () => {
+    const params = new URLSearchParams({ warehouse: warehouseName });
+    if (campaignId) params.set('campaignId', campaignId);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    return params.toString();
+  };
+
+  const loadReport = async () => {
+    setLoading(true);
+    setError('');
+    setMessage('');
+    try {
+      const response = await api.get(`/reconciliation?${scopeQuery()}`);
+      setRows(response.data.rows);
+      setSummary(response.data.summary);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load reconciliation'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportCsv = async () => {
+    try {
+      const response = await api.get(`/reconciliation/export?${scopeQuery()}`, { responseType: 'text' });
+      downloadFile(response.data, `reconciliation_${warehouseName}.csv`, 'text/csv');
+    } catch (err) {
+      setError('Failed to export reconciliation');
+    }
+  };
+
+  // One row per SKU for bins with contents, for the client's item-level audit
+  const exportSkuCsv = async () => {
+    try {
+      const response = await api.get(`/reconciliation/items/export?${scopeQuery()}`, { responseType: 'text' });
+      downloadFile(response.data, `reconciliation_items_${warehouseName}.csv`, 'text/csv');
+    } catch (err) {
+      setError('Failed to export SKU reconciliation');
+    }
+  };
+
+  const exportPdf = async () => {
+    const [{ jsPDF }, { default: autoTable }] = await Promise.all([
+      import('jspdf'),
+      import('jspdf-autotable')
+    ]);
+
+    const doc = new jsPDF({ orientation: 'landscape' });
+    doc.setFontSize(14);
+    doc.text(`Stock Reconciliation - ${warehouseName}`, 14, 15);
+    doc.setFontSize(9);
+    doc.text(
+      `Period: ${from || 'start'} to ${to || 'today'}   Generated: ${new Date().toLocaleString()}`,
+      14,
+      21
+    );
+    if (summary) {
+      doc.text(
+        `Bins: ${summary.bins}   With variance: ${summary.binsWithVariance}   ` +
+        `Net variance: ${summary.netVarianceQty} units / ${summary.netVarianceValue.toFixed(2)}`,
+        14,
+        26
+      );
+    }
+
+    autoTable(doc, {
+      startY: 30,
+      styles: { fontSize: 8 },
+      head: [['Bin', 'Counted on', 'Worker', 'Books', 'Counted', 'Recount', 'Final', 'Difference', 'Value', 'Reason', 'Status']],
+      body: rows.map(row => [
+        row.bin_no,
+        row.counted_on,
+        row.username,
+        row.qty_as_per_books,
+        row.qty_counted,
+        row.qty_recounted_tl ?? '',
+        row.final_qty,
+        row.difference,
+        Number(row.variance_value).toFixed(2),
+        row.reason_for_difference ? REASON_LABELS[row.reason_for_difference] : '',
+        row.posted ? 'Posted' : row.is_locked ? 'Approved' : row.difference !== 0 ? 'Pending' : 'Matched'
+      ])
+    });
+
+    doc.save(`reconciliation_${warehouseName}.pdf`);
+  };
+
+  const signOff = async () => {
+    if (!summary || !window.confirm(`Post ${summary.readyToPost} approved adjustments to the books?`)) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const response = await api.post('/reconciliation/sign-off', {
+        warehouse: warehouseName,
+        campaignId,
+        from: from || null,
+        to: to || null
+      });
+      await loadReport();
+      setMessage(`${response.data.posted} adjustments posted to bin master`);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to post adjustments'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Variance Reconciliation</h2>
+          <p className="text-sm text-gray-600">Warehouse: {warehouseName}</p>
+        </div>
+        <Scale className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <p className="text-green-800">{message}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button
+          onClick={loadReport}
+          disabled={loading}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          {loading ? 'Loading...' : 'Run Report'}
+        </button>
+        <button
+          onClick={exportCsv}
+          disabled={rows.length === 0}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          CSV
+        </button>
+        <button
+          onClick={exportSkuCsv}
+          disabled={rows.length === 0}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          SKU CSV
+        </button>
+        <button
+          onClick={exportPdf}
+          disabled={rows.length === 0}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          <FileText className="w-4 h-4" />
+          PDF
+        </button>
+        {canSignOff && (
+          <button
+            onClick={signOff}
+            disabled={loading || !summary || summary.readyToPost === 0}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+          >
+            Sign Off &amp; Post ({summary?.readyToPost ?? 0})
+          </button>
+        )}
+      </div>
+
+      {summary && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+          <div className="bg-gray-50 rounded-lg p-3">
+            <p className="text-sm text-gray-600">Bins Counted</p>
+            <p className="text-xl font-bold text-gray-900">{summary.bins}</p>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <p className="text-sm text-gray-600">With Variance</p>
+            <p className="text-xl font-bold text-gray-900">{summary.binsWithVariance}</p>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <p className="text-sm text-gray-600">Net Variance</p>
+            <p className="text-xl font-bold text-gray-900">{summary.netVarianceQty}</p>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <p className="text-sm text-gray-600">Variance Value</p>
+            <p className="text-xl font-bold text-gray-900">{summary.netVarianceValue.toFixed(2)}</p>
+          </div>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4">Bin</th>
+                <th className="py-2 pr-4">Books</th>
+                <th className="py-2 pr-4">Final Count</th>
+                <th className="py-2 pr-4">Difference</th>
+                <th className="py-2 pr-4">Value</th>
+                <th className="py-2 pr-4">Reason</th>
+                <th className="py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.counting_data_id} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium text-gray-900">{row.bin_no}</td>
+                  <td className="py-2 pr-4">{row.qty_as_per_books}</td>
+                  <td className="py-2 pr-4">{row.final_qty}</td>
+                  <td className={`py-2 pr-4 font-medium ${row.difference === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {row.difference}
+                  </td>
+                  <td className="py-2 pr-4">{Number(row.variance_value).toFixed(2)}</td>
+                  <td className="py-2 pr-4">
+                    {row.reason_for_difference ? REASON_LABELS[row.reason_for_difference] : '-'}
+                  </td>
+                  <td className="py-2 text-gray-600">
+                    {row.posted ? 'Posted' : row.is_locked ? 'Approved' : row.difference !== 0 ? 'Pending' : 'Matched'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReconciliationReport;
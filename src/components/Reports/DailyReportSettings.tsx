@@ -0,0 +1,288 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, Eye, Download, Send, AlertTriangle, CheckCircle } from 'lucide-react';
+import { ReportDelivery, ReportSubscription, ReportTransport } from '../../types';
+import { api } from '../../services/api';
+import { getErrorMessage } from '../../utils/errors';
+import { downloadFile } from '../../utils/download';
+
+interface DailyReportSettingsProps {
+  // Preview and test sends need a warehouse; the settings apply to all of the vendor's
+  warehouseName?: string;
+}
+
+const TRANSPORT_LABELS: Record<ReportTransport, string> = {
+  smtp: 'Email',
+  webhook: 'Webhook',
+  file: 'File drop'
+};
+
+// Deliveries listed under the settings
+const RECENT_DELIVERIES = 10;
+
+// Vendor's end-of-day count summary: when it goes out, how, and to whom
+const DailyReportSettings: React.FC<DailyReportSettingsProps> = ({ warehouseName }) => {
+  const [subscription, setSubscription] = useState<ReportSubscription | null>(null);
+  const [sendAt, setSendAt] = useState('07:00');
+  const [transport, setTransport] = useState<ReportTransport>('smtp');
+  const [recipients, setRecipients] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [deliveries, setDeliveries] = useState<ReportDelivery[]>([]);
+  const [reportDate, setReportDate] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadSubscription();
+    loadDeliveries();
+  }, []);
+
+  const applySubscription = (data: ReportSubscription) => {
+    setSubscription(data);
+    setSendAt(data.send_at.slice(0, 5));
+    setTransport(data.transport);
+    setRecipients(data.recipients.join(', '));
+    setWebhookUrl(data.webhook_url || '');
+    // A vendor who has never saved starts switched on
+    setIsActive(data.id ? data.is_active : true);
+  };
+
+  const loadSubscription = async () => {
+    try {
+      const response = await api.get('/daily-report/subscription');
+      applySubscription(response.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load report settings'));
+    }
+  };
+
+  const loadDeliveries = async () => {
+    try {
+      const response = await api.get('/daily-report/deliveries');
+      setDeliveries(response.data);
+    } catch (err) {
+      // History is informational; the settings still work without it
+    }
+  };
+
+  const saveSubscription = async () => {
+    setLoading(true);
+    setError('');
+    setSuccess('');
+    try {
+      const response = await api.put('/daily-report/subscription', {
+        sendAt,
+        transport,
+        recipients: recipients.split(/[,;\s]+/).filter(Boolean),
+        webhookUrl,
+        isActive
+      });
+      applySubscription(response.data);
+      setSuccess(response.data.is_active ? `Daily summary goes out at ${sendAt} local time` : 'Daily summary paused');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save report settings'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const preview = async () => {
+    if (!warehouseName || !reportDate) return;
+
+    setError('');
+    try {
+      const response = await api.get(
+        `/daily-report/preview?warehouse=${encodeURIComponent(warehouseName)}&date=${reportDate}`,
+        { responseType: 'text' }
+      );
+      const url = URL.createObjectURL(new Blob([response.data], { type: 'text/html' }));
+      window.open(url, '_blank');
+      // Give the new tab time to load before the URL goes away
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to build preview'));
+    }
+  };
+
+  const downloadCsv = async () => {
+    if (!warehouseName || !reportDate) return;
+
+    setError('');
+    try {
+      const response = await api.get(
+        `/daily-report/preview?warehouse=${encodeURIComponent(warehouseName)}&date=${reportDate}&format=csv`,
+        { responseType: 'text' }
+      );
+      downloadFile(response.data, `count_summary_${warehouseName}_${reportDate}.csv`, 'text/csv');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download CSV'));
+    }
+  };
+
+  const sendTest = async () => {
+    if (!warehouseName || !reportDate) return;
+
+    setLoading(true);
+    setError('');
+    setSuccess('');
+    try {
+      await api.post('/daily-report/send', { warehouse: warehouseName, date: reportDate });
+      setSuccess(`Summary for ${warehouseName} on ${reportDate} sent by ${TRANSPORT_LABELS[transport].toLowerCase()}`);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to send report'));
+    } finally {
+      setLoading(false);
+      loadDeliveries();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Daily Count Summary</h2>
+        <Mail className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <p className="text-green-700">{success}</p>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">
+        Each of your warehouses gets a summary of its previous business day: bins counted against plan, variance,
+        top and bottom workers, and open recounts, with the day's counts attached as CSV.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Send at (warehouse local time)
+          <input
+            type="time"
+            value={sendAt}
+            onChange={(e) => setSendAt(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Delivery
+          <select
+            value={transport}
+            onChange={(e) => setTransport(e.target.value as ReportTransport)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {(Object.keys(TRANSPORT_LABELS) as ReportTransport[]).map((key) => (
+              <option key={key} value={key}>{TRANSPORT_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700 md:col-span-2">
+          Recipients
+          <textarea
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+            rows={2}
+            placeholder="ops@example.com, stock@example.com"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </label>
+        {transport === 'webhook' && (
+          <label className="flex flex-col gap-1 text-sm text-gray-700 md:col-span-2">
+            Webhook URL
+            <input
+              type="url"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              placeholder="https://"
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={isActive}
+            onChange={(e) => setIsActive(e.target.checked)}
+            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          Send daily
+        </label>
+        <button
+          onClick={saveSubscription}
+          disabled={loading}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          {loading ? 'Saving...' : 'Save Settings'}
+        </button>
+      </div>
+
+      {warehouseName && (
+        <div className="pt-6 border-t flex flex-wrap items-center gap-4">
+          <input
+            type="date"
+            value={reportDate}
+            onChange={(e) => setReportDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button
+            onClick={preview}
+            disabled={!reportDate}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center gap-2"
+          >
+            <Eye className="w-4 h-4" />
+            Preview
+          </button>
+          <button
+            onClick={downloadCsv}
+            disabled={!reportDate}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={sendTest}
+            disabled={loading || !reportDate || !subscription?.id}
+            title={subscription?.id ? undefined : 'Save settings first'}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors flex items-center gap-2"
+          >
+            <Send className="w-4 h-4" />
+            Send Now
+          </button>
+        </div>
+      )}
+
+      {deliveries.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">Recent deliveries</h3>
+          {deliveries.slice(0, RECENT_DELIVERIES).map((delivery) => (
+            <div key={delivery.id} className="flex flex-wrap items-center gap-3 text-sm">
+              <span className={delivery.status === 'sent' ? 'text-green-700' : 'text-red-700'}>
+                {delivery.status === 'sent' ? 'Sent' : 'Failed'}
+              </span>
+              <span className="text-gray-900">{delivery.wh_name} · {delivery.report_date}</span>
+              <span className="text-gray-500">
+                {TRANSPORT_LABELS[delivery.transport]}{delivery.triggered_by ? ', sent by hand' : ''} · {new Date(delivery.created_at).toLocaleString()}
+              </span>
+              {delivery.error && <span className="text-red-600 w-full">{delivery.error}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DailyReportSettings;
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, AlertTriangle } from 'lucide-react';
+import { api } from '../../services/api';
+
+interface PendingOTPRequest {
+  id: string;
+  worker_id: string;
+  expires_at: string;
+  created_at: string;
+  worker: { user_id: string };
+}
+
+interface ApprovedOTP {
+  workerUserId: string;
+  code: string;
+}
+
+const REFRESH_INTERVAL_MS = 10000;
+
+const OTPApprovals: React.FC = () => {
+  const [requests, setRequests] = useState<PendingOTPRequest[]>([]);
+  const [approved, setApproved] = useState<ApprovedOTP | null>(null);
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadPending();
+    const interval = setInterval(loadPending, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadPending = async () => {
+    try {
+      const response = await api.get('/otp/pending');
+      setRequests(response.data);
+    } catch (err) {
+      setError('Failed to load OTP requests');
+    }
+  };
+
+  const approveRequest = async (request: PendingOTPRequest) => {
+    setApprovingId(request.id);
+    setError('');
+    try {
+      const response = await api.post(`/otp/approve/${request.id}`);
+      setApproved({ workerUserId: request.worker.user_id, code: response.data.otp_code });
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+    } catch (err) {
+      setError(`Failed to approve OTP for ${request.worker.user_id}`);
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString();
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">OTP Approvals</h2>
+          <p className="text-sm text-gray-600">{requests.length} workers waiting to log in</p>
+        </div>
+        <ShieldCheck className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {approved && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-sm text-green-800">Give this code to {approved.workerUserId}:</p>
+          <p className="text-2xl font-bold tracking-widest text-green-900">{approved.code}</p>
+        </div>
+      )}
+
+      {requests.length === 0 ? (
+        <p className="text-sm text-gray-500">No pending requests</p>
+      ) : (
+        <div className="space-y-3">
+          {requests.map((request) => (
+            <div key={request.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+              <div>
+                <p className="font-medium text-gray-900">{request.worker.user_id}</p>
+                <p className="text-sm text-gray-600">
+                  Requested {formatTime(request.created_at)}, expires {formatTime(request.expires_at)}
+                </p>
+              </div>
+              <button
+                onClick={() => approveRequest(request)}
+                disabled={approvingId === request.id}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                {approvingId === request.id ? 'Approving...' : 'Approve'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OTPApprovals;
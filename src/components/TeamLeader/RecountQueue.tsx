@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import { RotateCcw, Lock, CheckCircle, AlertTriangle } from 'lucide-react';
+import { CountingData } from '../../types';
+import { api } from '../../services/api';
+
+interface RecountQueueProps {
+  teamLeaderId: string;
+}
+
+interface RecountEntry {
+  quantity: string;
+  // Per-SKU recounts of a bin with contents; SKUs left blank keep their count
+  skus: Record<string, string>;
+  reason: string;
+}
+
+const RECOUNT_REASONS = [
+  { value: 'damaged', label: 'Damaged stock' },
+  { value: 'misplaced', label: 'Misplaced stock' },
+  { value: 'wrong_bin', label: 'Stored in wrong bin' },
+  { value: 'book_error', label: 'Book quantity error' },
+  { value: 'in_transit', label: 'Pending inward/outward' },
+  { value: 'other', label: 'Other' }
+];
+
+const RecountQueue: React.FC<RecountQueueProps> = ({ teamLeaderId }) => {
+  const [records, setRecords] = useState<CountingData[]>([]);
+  const [entries, setEntries] = useState<Record<string, RecountEntry>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadQueue();
+  }, [teamLeaderId]);
+
+  const loadQueue = async () => {
+    try {
+      const response = await api.get(`/counting-data/recount-queue?teamLeaderId=${teamLeaderId}`);
+      setRecords(response.data);
+    } catch (err) {
+      setError('Failed to load recount queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getEntry = (record: CountingData): RecountEntry => {
+    return entries[record.id] || {
+      quantity: record.qty_recounted_tl?.toString() ?? '',
+      skus: Object.fromEntries((record.items ?? []).map(item => [item.sku, item.qty_recounted_tl?.toString() ?? ''])),
+      reason: record.reason_for_difference ?? ''
+    };
+  };
+
+  const updateEntry = (record: CountingData, changes: Partial<RecountEntry>) => {
+    setEntries(prev => ({ ...prev, [record.id]: { ...getEntry(record), ...changes } }));
+  };
+
+  const replaceRecord = (updated: CountingData) => {
+    setRecords(prev => prev.map(record => record.id === updated.id ? { ...record, ...updated } : record));
+  };
+
+  const isItemRecord = (record: CountingData) => (record.items?.length ?? 0) > 0;
+
+  const hasRecountInput = (record: CountingData, entry: RecountEntry) => isItemRecord(record)
+    ? Object.values(entry.skus).some(value => value.trim())
+    : !!entry.quantity.trim();
+
+  const saveRecount = async (record: CountingData) => {
+    const entry = getEntry(record);
+    const qty = parseInt(entry.quantity);
+    const items = Object.entries(entry.skus)
+      .filter(([, value]) => value.trim())
+      .map(([sku, value]) => ({ sku, qty: parseInt(value) }));
+    if (isItemRecord(record) ? items.some(item => isNaN(item.qty) || item.qty < 0) : isNaN(qty) || qty < 0) {
+      setError('Please enter a valid recount quantity');
+      return;
+    }
+
+    setSavingId(record.id);
+    setError('');
+    try {
+      const response = await api.put(`/counting-data/recount/${record.id}`, {
+        ...(isItemRecord(record) ? { items } : { qtyRecounted: qty }),
+        reason: entry.reason || null
+      });
+      replaceRecord(response.data);
+    } catch (err) {
+      setError(`Failed to save recount for ${record.bin_no}`);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const approveRecord = async (record: CountingData) => {
+    setSavingId(record.id);
+    setError('');
+    try {
+      const response = await api.post(`/counting-data/approve/${record.id}`);
+      replaceRecord(response.data);
+    } catch (err) {
+      setError(`Failed to approve ${record.bin_no}`);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const pendingCount = records.filter(record => !record.is_locked).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Recount Queue</h2>
+          <p className="text-sm text-gray-600">{pendingCount} bins awaiting recount or approval</p>
+        </div>
+        <RotateCcw className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-gray-500 text-sm">Loading...</p>
+      ) : records.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <CheckCircle className="w-10 h-10 mx-auto mb-2 text-green-500" />
+          <p className="text-sm">No bins with a count difference</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4">Bin</th>
+                <th className="py-2 pr-4">Worker</th>
+                <th className="py-2 pr-4">Books</th>
+                <th className="py-2 pr-4">Counted</th>
+                <th className="py-2 pr-4">Difference</th>
+                <th className="py-2 pr-4">Recount</th>
+                <th className="py-2 pr-4">Reason</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map((record) => {
+                const entry = getEntry(record);
+                const saving = savingId === record.id;
+                return (
+                  <tr key={record.id} className="border-b last:border-0">
+                    <td className="py-3 pr-4 font-medium text-gray-900">
+                      {record.bin_no}
+                      {record.items?.map(item => (
+                        <div key={item.sku} className={`text-xs font-normal ${item.difference === 0 ? 'text-gray-500' : 'text-red-600'}`}>
+                          {item.sku}: {item.qty_second_count ?? item.qty_counted} / {item.qty_as_per_books} {item.uom}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-700">{record.username}</td>
+                    <td className="py-3 pr-4 text-gray-700">{record.qty_as_per_books}</td>
+                    <td className="py-3 pr-4 text-gray-700">
+                      {record.qty_counted}
+                      {record.qty_second_count != null && (
+                        <span className="text-xs text-gray-500"> (2nd: {record.qty_second_count})</span>
+                      )}
+                    </td>
+                    <td className={`py-3 pr-4 font-medium ${record.difference === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {record.difference}
+                    </td>
+                    {record.is_locked ? (
+                      <>
+                        <td className="py-3 pr-4 text-gray-700">{record.qty_recounted_tl}</td>
+                        <td className="py-3 pr-4 text-gray-700">
+                          {RECOUNT_REASONS.find(r => r.value === record.reason_for_difference)?.label || '-'}
+                        </td>
+                        <td className="py-3">
+                          <span className="flex items-center gap-1 text-gray-500">
+                            <Lock className="w-4 h-4" />
+                            Approved
+                          </span>
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="py-3 pr-4">
+                          {isItemRecord(record) ? (
+                            <div className="space-y-1">
+                              {record.items!.map(item => (
+                                <label key={item.sku} className="flex items-center gap-2 text-xs text-gray-600">
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    value={entry.skus[item.sku] ?? ''}
+                                    onChange={(e) => updateEntry(record, { skus: { ...entry.skus, [item.sku]: e.target.value } })}
+                                    className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                                  />
+                                  {item.sku}
+                                </label>
+                              ))}
+                            </div>
+                          ) : (
+                            <input
+                              type="number"
+                              min="0"
+                              value={entry.quantity}
+                              onChange={(e) => updateEntry(record, { quantity: e.target.value })}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                          )}
+                        </td>
+                        <td className="py-3 pr-4">
+                          <select
+                            value={entry.reason}
+                            onChange={(e) => updateEntry(record, { reason: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                          >
+                            <option value="">Select reason</option>
+                            {RECOUNT_REASONS.map(reason => (
+                              <option key={reason.value} value={reason.value}>{reason.label}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-3">
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => saveRecount(record)}
+                              disabled={saving || !hasRecountInput(record, entry)}
+                              className="px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                            >
+                              Save
+                            </button>
+                            <button
+                              onClick={() => approveRecord(record)}
+                              disabled={saving || record.qty_recounted_tl === null || record.qty_recounted_tl === undefined}
+                              className="px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                            >
+                              Approve
+                            </button>
+                          </div>
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecountQueue;
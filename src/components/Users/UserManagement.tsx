@@ -0,0 +1,362 @@
+import React, { useState, useEffect } from 'react';
+import { UserPlus, CheckCircle, AlertTriangle } from 'lucide-react';
+import { User, Warehouse } from '../../types';
+import { api } from '../../services/api';
+import { getErrorMessage } from '../../utils/errors';
+
+type ManagedUser = Omit<User, 'password_hash'>;
+
+interface UserManagementProps {
+  callerRole: 'admin' | 'vendor' | 'team_leader';
+}
+
+const CHILD_ROLE_LABELS: Record<UserManagementProps['callerRole'], string> = {
+  admin: 'Vendor',
+  vendor: 'Team Leader',
+  team_leader: 'Worker'
+};
+
+// Approval is the direct parent's alone, so only the caller's own child role gets the button
+const CHILD_ROLES: Record<UserManagementProps['callerRole'], User['role']> = {
+  admin: 'vendor',
+  vendor: 'team_leader',
+  team_leader: 'worker'
+};
+
+const ROLE_LABELS: Record<User['role'], string> = {
+  admin: 'Admin',
+  vendor: 'Vendor',
+  team_leader: 'Team Leader',
+  worker: 'Worker'
+};
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface WarehouseAssignment {
+  user: ManagedUser;
+  codes: string[];
+  primary: string;
+}
+
+const UserManagement: React.FC<UserManagementProps> = ({ callerRole }) => {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [userId, setUserId] = useState('');
+  const [password, setPassword] = useState('');
+  const [email, setEmail] = useState('');
+  const [warehouseName, setWarehouseName] = useState('');
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [assignment, setAssignment] = useState<WarehouseAssignment | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadUsers();
+    loadWarehouses();
+  }, [callerRole]);
+
+  const loadWarehouses = async () => {
+    try {
+      const response = await api.get('/warehouses');
+      setWarehouses(response.data);
+    } catch (err) {
+      // Assignment stays unavailable until the list loads
+    }
+  };
+
+  const loadUsers = async () => {
+    try {
+      const response = await api.get('/user-management');
+      setUsers(response.data);
+    } catch (err) {
+      setError('Failed to load users');
+    }
+  };
+
+  // Action responses leave out the assignment list, so keep the one already loaded
+  const replaceUser = (updated: ManagedUser) => {
+    setUsers(prev => prev.map(user => user.id === updated.id ? { ...user, ...updated } : user));
+  };
+
+  const createUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
+    setBusyId('new');
+    setError('');
+    setMessage('');
+    try {
+      const response = await api.post('/user-management', {
+        userId: userId.trim(),
+        password,
+        email: email.trim() || undefined,
+        warehouseName: warehouseName || undefined
+      });
+      setUsers(prev => [...prev, { ...response.data, warehouses: response.data.warehouse_name ? [response.data.warehouse_name] : [] }]);
+      setMessage(`${response.data.user_id} created and awaiting approval`);
+      setUserId('');
+      setPassword('');
+      setEmail('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create user'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const runAction = async (user: ManagedUser, action: string, body?: object) => {
+    setBusyId(user.id);
+    setError('');
+    setMessage('');
+    try {
+      const response = await api.post(`/user-management/${user.id}/${action}`, body);
+      if (response.data.id) {
+        replaceUser(response.data);
+      }
+      return true;
+    } catch (err) {
+      setError(getErrorMessage(err, `Failed to update ${user.user_id}`));
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const resetPassword = async (user: ManagedUser) => {
+    const newPassword = window.prompt(`New password for ${user.user_id} (at least ${MIN_PASSWORD_LENGTH} characters)`);
+    if (!newPassword) return;
+
+    if (await runAction(user, 'reset-password', { password: newPassword })) {
+      setMessage(`Password reset for ${user.user_id}`);
+    }
+  };
+
+  const toggleAssignedCode = (code: string) => {
+    if (!assignment) return;
+    const codes = assignment.codes.includes(code)
+      ? assignment.codes.filter(existing => existing !== code)
+      : [...assignment.codes, code];
+    const primary = codes.includes(assignment.primary) ? assignment.primary : codes[0] || '';
+    setAssignment({ ...assignment, codes, primary });
+  };
+
+  const saveAssignment = async () => {
+    if (!assignment) return;
+    if (await runAction(assignment.user, 'warehouses', { warehouseCodes: assignment.codes, primary: assignment.primary })) {
+      setMessage(`Warehouses updated for ${assignment.user.user_id}`);
+      setAssignment(null);
+    }
+  };
+
+  const teamLeaders = users.filter(user => user.role === 'team_leader' && user.is_active !== false);
+  const teamLeaderName = (id?: string) => users.find(user => user.id === id)?.user_id || '-';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">User Management</h2>
+        <UserPlus className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <p className="text-green-800">{message}</p>
+        </div>
+      )}
+
+      <form onSubmit={createUser} className="flex flex-wrap items-center gap-4">
+        <input
+          type="text"
+          value={userId}
+          onChange={(e) => setUserId(e.target.value)}
+          placeholder={`New ${CHILD_ROLE_LABELS[callerRole]} user ID`}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Initial password"
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email (optional)"
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        {callerRole !== 'team_leader' && (
+          <select
+            value={warehouseName}
+            onChange={(e) => setWarehouseName(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">Warehouse</option>
+            {warehouses.map((warehouse) => (
+              <option key={warehouse.id} value={warehouse.code}>{warehouse.code}</option>
+            ))}
+          </select>
+        )}
+        <button
+          type="submit"
+          disabled={busyId === 'new' || !userId.trim() || !password}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          Create {CHILD_ROLE_LABELS[callerRole]}
+        </button>
+      </form>
+
+      {assignment && (
+        <div className="border border-indigo-200 bg-indigo-50 rounded-lg p-4 space-y-3">
+          <p className="font-medium text-gray-900">Warehouses for {assignment.user.user_id}</p>
+          <div className="flex flex-wrap gap-4">
+            {warehouses.map((warehouse) => (
+              <label key={warehouse.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={assignment.codes.includes(warehouse.code)}
+                  onChange={() => toggleAssignedCode(warehouse.code)}
+                />
+                {warehouse.code}
+                {assignment.codes.includes(warehouse.code) && (
+                  <span className="flex items-center gap-1 text-gray-600">
+                    <input
+                      type="radio"
+                      name="primary-warehouse"
+                      checked={assignment.primary === warehouse.code}
+                      onChange={() => setAssignment({ ...assignment, primary: warehouse.code })}
+                    />
+                    primary
+                  </span>
+                )}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={saveAssignment}
+              disabled={busyId === assignment.user.id || assignment.codes.length === 0}
+              className="px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setAssignment(null)}
+              className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {users.length === 0 ? (
+        <p className="text-gray-600">No users yet.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4">User ID</th>
+                <th className="py-2 pr-4">Role</th>
+                <th className="py-2 pr-4">Warehouse</th>
+                <th className="py-2 pr-4">Team Leader</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((user) => (
+                <tr key={user.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium text-gray-900">{user.user_id}</td>
+                  <td className="py-2 pr-4">{ROLE_LABELS[user.role]}</td>
+                  <td className="py-2 pr-4">
+                    {user.warehouse_name || '-'}
+                    {(user.warehouses?.length ?? 0) > 1 && (
+                      <span className="text-gray-500" title={user.warehouses?.join(', ')}> +{(user.warehouses?.length ?? 0) - 1}</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {user.role === 'worker' && callerRole !== 'team_leader' ? (
+                      <select
+                        value={user.team_leader_id || ''}
+                        disabled={busyId === user.id}
+                        onChange={(e) => runAction(user, 'move', { teamLeaderId: e.target.value }).then(moved => { if (moved) loadUsers(); })}
+                        className="px-2 py-1 border border-gray-300 rounded-lg"
+                      >
+                        {teamLeaders.map((teamLeader) => (
+                          <option key={teamLeader.id} value={teamLeader.id}>{teamLeader.user_id}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      user.role === 'worker' ? teamLeaderName(user.team_leader_id) : '-'
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {user.is_active === false ? (
+                      <span className="text-gray-500">Deactivated</span>
+                    ) : user.is_approved ? (
+                      <span className="text-green-600">Active</span>
+                    ) : (
+                      <span className="text-yellow-600">Awaiting approval</span>
+                    )}
+                  </td>
+                  <td className="py-2 flex gap-2">
+                    {!user.is_approved && user.role === CHILD_ROLES[callerRole] && (
+                      <button
+                        onClick={() => runAction(user, 'approve')}
+                        disabled={busyId === user.id}
+                        className="px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                      >
+                        Approve
+                      </button>
+                    )}
+                    <button
+                      onClick={() => runAction(user, user.is_active === false ? 'reactivate' : 'deactivate')}
+                      disabled={busyId === user.id}
+                      className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                    >
+                      {user.is_active === false ? 'Reactivate' : 'Deactivate'}
+                    </button>
+                    <button
+                      onClick={() => setAssignment({
+                        user,
+                        codes: user.warehouses ?? (user.warehouse_name ? [user.warehouse_name] : []),
+                        primary: user.warehouse_name || ''
+                      })}
+                      disabled={busyId === user.id || warehouses.length === 0}
+                      className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                    >
+                      Warehouses
+                    </button>
+                    <button
+                      onClick={() => resetPassword(user)}
+                      disabled={busyId === user.id}
+                      className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                    >
+                      Reset Password
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserManagement;
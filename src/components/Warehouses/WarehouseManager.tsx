@@ -0,0 +1,290 @@
+import React, { useState, useEffect } from 'react';
+import { Building2, AlertTriangle, CheckCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { Warehouse, WarehouseZone } from '../../types';
+import { api } from '../../services/api';
+import { getErrorMessage } from '../../utils/errors';
+
+const DEFAULT_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Warehouses the caller owns (vendors) or all of them (admins), with their zones and aisles
+const WarehouseManager: React.FC = () => {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [zones, setZones] = useState<WarehouseZone[]>([]);
+  const [zoneCode, setZoneCode] = useState('');
+  const [parentZoneId, setParentZoneId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadWarehouses();
+  }, []);
+
+  const loadWarehouses = async () => {
+    try {
+      const response = await api.get('/warehouses?managed=true&includeInactive=true');
+      setWarehouses(response.data);
+    } catch (err) {
+      setError('Failed to load warehouses');
+    }
+  };
+
+  const loadZones = async (warehouseId: string) => {
+    try {
+      const response = await api.get(`/warehouses/${warehouseId}/zones`);
+      setZones(response.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load zones'));
+    }
+  };
+
+  const toggleExpanded = (warehouseId: string) => {
+    setZones([]);
+    setParentZoneId('');
+    if (expandedId === warehouseId) {
+      setExpandedId(null);
+    } else {
+      setExpandedId(warehouseId);
+      loadZones(warehouseId);
+    }
+  };
+
+  const run = async (action: () => Promise<string>, fallback: string) => {
+    setBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      setMessage(await action());
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createWarehouse = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const response = await api.post('/warehouses', {
+        code: code.trim(),
+        name: name.trim() || undefined,
+        timezone: timezone.trim()
+      });
+      setWarehouses(prev => [...prev, response.data].sort((a, b) => a.code.localeCompare(b.code)));
+      setCode('');
+      setName('');
+      return `Warehouse ${response.data.code} created`;
+    }, 'Failed to create warehouse');
+  };
+
+  const updateWarehouse = (
+    warehouse: Warehouse,
+    changes: { name?: string; timezone?: string; shiftCutoff?: string; isActive?: boolean }
+  ) => {
+    run(async () => {
+      const response = await api.put(`/warehouses/${warehouse.id}`, changes);
+      setWarehouses(prev => prev.map(existing => existing.id === warehouse.id ? response.data : existing));
+      return `Warehouse ${warehouse.code} updated`;
+    }, `Failed to update ${warehouse.code}`);
+  };
+
+  const editTimezone = (warehouse: Warehouse) => {
+    const next = window.prompt(`Time zone for ${warehouse.code} (e.g. Asia/Kolkata)`, warehouse.timezone);
+    if (next && next.trim() !== warehouse.timezone) {
+      updateWarehouse(warehouse, { timezone: next.trim() });
+    }
+  };
+
+  // Counts before the cutoff (local time) belong to the previous business day
+  const editShiftCutoff = (warehouse: Warehouse) => {
+    const current = warehouse.shift_cutoff.slice(0, 5);
+    const next = window.prompt(`Business day for ${warehouse.code} starts at (HH:MM, local time)`, current);
+    if (next && next.trim() !== current) {
+      updateWarehouse(warehouse, { shiftCutoff: next.trim() });
+    }
+  };
+
+  const renameWarehouse = (warehouse: Warehouse) => {
+    const next = window.prompt(`Display name for ${warehouse.code}`, warehouse.name);
+    if (next && next.trim() !== warehouse.name) {
+      updateWarehouse(warehouse, { name: next.trim() });
+    }
+  };
+
+  const createZone = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!expandedId) return;
+    run(async () => {
+      const response = await api.post(`/warehouses/${expandedId}/zones`, {
+        code: zoneCode.trim(),
+        parentZoneId: parentZoneId || undefined
+      });
+      setZones(prev => [...prev, response.data]);
+      setZoneCode('');
+      return `${parentZoneId ? 'Aisle' : 'Zone'} ${response.data.code} added`;
+    }, 'Failed to add zone');
+  };
+
+  const topZones = zones.filter(zone => !zone.parent_zone_id);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Warehouses</h2>
+        <Building2 className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <p className="text-green-800">{message}</p>
+        </div>
+      )}
+
+      <form onSubmit={createWarehouse} className="flex flex-wrap items-center gap-4">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Code"
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (optional)"
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <input
+          type="text"
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          placeholder="Time zone"
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={busy || !code.trim() || !timezone.trim()}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          Add Warehouse
+        </button>
+      </form>
+
+      {warehouses.length === 0 ? (
+        <p className="text-gray-600">No warehouses yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {warehouses.map((warehouse) => (
+            <div key={warehouse.id} className="border border-gray-200 rounded-lg">
+              <div className="flex flex-wrap items-center gap-4 p-3">
+                <button onClick={() => toggleExpanded(warehouse.id)} className="text-gray-500 hover:text-gray-700">
+                  {expandedId === warehouse.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                </button>
+                <div className="flex-1">
+                  <p className={`font-medium ${warehouse.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {warehouse.code}{warehouse.name !== warehouse.code && ` · ${warehouse.name}`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {warehouse.timezone} · day starts {warehouse.shift_cutoff.slice(0, 5)}{!warehouse.is_active && ' · Inactive'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => renameWarehouse(warehouse)}
+                  disabled={busy}
+                  className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => editTimezone(warehouse)}
+                  disabled={busy}
+                  className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Time Zone
+                </button>
+                <button
+                  onClick={() => editShiftCutoff(warehouse)}
+                  disabled={busy}
+                  className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Shift Cutoff
+                </button>
+                <button
+                  onClick={() => updateWarehouse(warehouse, { isActive: !warehouse.is_active })}
+                  disabled={busy}
+                  className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  {warehouse.is_active ? 'Deactivate' : 'Reactivate'}
+                </button>
+              </div>
+
+              {expandedId === warehouse.id && (
+                <div className="border-t border-gray-200 p-3 space-y-3">
+                  {topZones.length === 0 ? (
+                    <p className="text-sm text-gray-600">No zones yet.</p>
+                  ) : (
+                    <ul className="text-sm space-y-1">
+                      {topZones.map((zone) => (
+                        <li key={zone.id}>
+                          <span className="font-medium text-gray-900">{zone.code}</span>
+                          {zones.some(aisle => aisle.parent_zone_id === zone.id) && (
+                            <span className="text-gray-600">
+                              {' · aisles '}
+                              {zones.filter(aisle => aisle.parent_zone_id === zone.id).map(aisle => aisle.code).join(', ')}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <form onSubmit={createZone} className="flex flex-wrap items-center gap-3">
+                    <input
+                      type="text"
+                      value={zoneCode}
+                      onChange={(e) => setZoneCode(e.target.value)}
+                      placeholder={parentZoneId ? 'Aisle code' : 'Zone code'}
+                      className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                    <select
+                      value={parentZoneId}
+                      onChange={(e) => setParentZoneId(e.target.value)}
+                      className="px-3 py-1 border border-gray-300 rounded-lg"
+                    >
+                      <option value="">New zone</option>
+                      {topZones.map((zone) => (
+                        <option key={zone.id} value={zone.id}>Aisle in {zone.code}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={busy || !zoneCode.trim()}
+                      className="px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                    >
+                      Add
+                    </button>
+                  </form>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WarehouseManager;
@@ -0,0 +1,48 @@
+import React, { useState, useEffect } from 'react';
+import { Warehouse } from '../../types';
+import { api } from '../../services/api';
+
+interface WarehouseSelectProps {
+  value: string;
+  onChange: (code: string) => void;
+  // Label of the empty option; leave out to force a choice
+  allLabel?: string;
+}
+
+// Picks from the warehouses the caller can see, so a code can never be mistyped
+const WarehouseSelect: React.FC<WarehouseSelectProps> = ({ value, onChange, allLabel }) => {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+
+  useEffect(() => {
+    loadWarehouses();
+  }, []);
+
+  const loadWarehouses = async () => {
+    try {
+      const response = await api.get('/warehouses');
+      setWarehouses(response.data);
+    } catch (err) {
+      // The current value stays selectable below
+    }
+  };
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+    >
+      {(allLabel !== undefined || !value) && <option value="">{allLabel ?? 'Select warehouse'}</option>}
+      {value && !warehouses.some(warehouse => warehouse.code === value) && (
+        <option value={value}>{value}</option>
+      )}
+      {warehouses.map((warehouse) => (
+        <option key={warehouse.id} value={warehouse.code}>
+          {warehouse.name === warehouse.code ? warehouse.code : `${warehouse.code} · ${warehouse.name}`}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default WarehouseSelect;
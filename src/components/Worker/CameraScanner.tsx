@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, X } from 'lucide-react';
+
+interface CameraScannerProps {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+// Not yet part of the TypeScript DOM library
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options?: { formats: string[] }) => BarcodeDetectorLike;
+  }
+}
+
+const DETECT_INTERVAL_MS = 250;
+
+const CameraScanner: React.FC<CameraScannerProps> = ({ onDetected, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [error, setError] = useState('');
+
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    let stopped = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopFallback: (() => void) | undefined;
+
+    const detected = (code: string) => {
+      if (stopped) return;
+      stopped = true;
+      onDetectedRef.current(code);
+    };
+
+    const startNativeDetector = async (video: HTMLVideoElement) => {
+      const BarcodeDetector = window.BarcodeDetector!;
+      const detector = new BarcodeDetector({
+        formats: ['code_128', 'code_39', 'ean_13', 'ean_8', 'qr_code', 'upc_a', 'data_matrix']
+      });
+
+      stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      video.srcObject = stream;
+      await video.play();
+
+      const scanFrame = async () => {
+        if (stopped) return;
+        try {
+          const codes = await detector.detect(video);
+          if (codes.length > 0) {
+            detected(codes[0].rawValue);
+            return;
+          }
+        } catch (err) {
+          // Frame not ready yet; try the next one
+        }
+        timer = setTimeout(scanFrame, DETECT_INTERVAL_MS);
+      };
+      scanFrame();
+    };
+
+    // Browsers without BarcodeDetector decode with ZXing instead
+    const startFallbackDetector = async (video: HTMLVideoElement) => {
+      const { BrowserMultiFormatReader } = await import('@zxing/browser');
+      const reader = new BrowserMultiFormatReader();
+      const controls = await reader.decodeFromVideoDevice(undefined, video, (result) => {
+        if (result) {
+          detected(result.getText());
+        }
+      });
+      stopFallback = () => controls.stop();
+    };
+
+    const start = async () => {
+      const video = videoRef.current;
+      if (!video) return;
+
+      try {
+        if (window.BarcodeDetector) {
+          await startNativeDetector(video);
+        } else {
+          await startFallbackDetector(video);
+        }
+      } catch (err) {
+        setError('Unable to access the camera');
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stopFallback?.();
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl p-4 max-w-md w-full">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Camera className="w-5 h-5 text-indigo-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Scan Barcode</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error ? (
+          <p className="text-red-700 text-sm">{error}</p>
+        ) : (
+          <video ref={videoRef} className="w-full rounded-lg bg-black" muted playsInline />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraScanner;
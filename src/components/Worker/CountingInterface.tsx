@@ -1,7 +1,14 @@
-import React, { useState, useEffect } from 'react';
-import { Play, Square, Package, Search, CheckCircle, AlertTriangle } from 'lucide-react';
-import { BinMaster, CountingSession } from '../../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Square, Package, Search, CheckCircle, AlertTriangle, CloudOff, Camera, ScanLine, Coffee } from 'lucide-react';
+import { BinMaster, CountingSession, SkuCount } from '../../types';
+import { useNavigate } from 'react-router-dom';
 import { api } from '../../services/api';
+import { enqueueCount, flushQueue, countQueued, getQueuedCounts, getHeldCounts, dismissHeldCount, HeldCount } from '../../services/offlineQueue';
+import { useBarcodeScanner } from '../../hooks/useBarcodeScanner';
+import { getErrorMessage, getErrorStatus, getErrorDetails } from '../../utils/errors';
+import OTPVerification from '../Auth/OTPVerification';
+import CameraScanner from './CameraScanner';
+import SessionCounts from './SessionCounts';
 
 interface CountingInterfaceProps {
   workerId: string;
@@ -9,9 +16,17 @@ interface CountingInterfaceProps {
   warehouseName: string;
 }
 
+const SYNC_INTERVAL_MS = 30000;
+// Well inside the shortest session timeout a warehouse can set
+const HEARTBEAT_INTERVAL_MS = 60000;
+// No tap, key or scan for this long puts the session on a break
+const IDLE_BREAK_MINUTES = 10;
+
 interface QuantityConfirmation {
   binNo: string;
   quantity: number;
+  // Per-SKU counts of a bin with contents; quantity is their total
+  items: SkuCount[];
   show: boolean;
 }
 
@@ -28,18 +43,165 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
   const [confirmation, setConfirmation] = useState<QuantityConfirmation>({
     binNo: '',
     quantity: 0,
+    items: [],
     show: false
   });
+  const [skuQuantities, setSkuQuantities] = useState<Record<string, string>>({});
+  // Scanned SKUs the bin does not hold per the books
+  const [extraSkus, setExtraSkus] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [pendingSync, setPendingSync] = useState(0);
+  const [heldCounts, setHeldCounts] = useState<HeldCount[]>([]);
+  const [signInRequired, setSignInRequired] = useState(false);
+  const [campaignOpen, setCampaignOpen] = useState(false);
+  // Workers verify a team-leader-approved OTP before their first session of the shift
+  const [otpRequired, setOtpRequired] = useState(false);
+  const [itemScanMode, setItemScanMode] = useState(false);
+  const [lastScannedItem, setLastScannedItem] = useState('');
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [syncedAt, setSyncedAt] = useState(0);
+  const quantityInputRef = useRef<HTMLInputElement>(null);
+  const lastActivityRef = useRef(Date.now());
+  const navigate = useNavigate();
 
   useEffect(() => {
     loadBins();
     checkActiveSession();
+    syncQueuedCounts();
+
+    window.addEventListener('online', syncQueuedCounts);
+    const interval = setInterval(syncQueuedCounts, SYNC_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', syncQueuedCounts);
+      clearInterval(interval);
+    };
+  }, []);
+
+  // In item mode the scanner does the counting; a focused input would only catch its keystrokes
+  useEffect(() => {
+    if (selectedBin && !itemScanMode) {
+      quantityInputRef.current?.focus();
+    }
+  }, [selectedBin, itemScanMode]);
+
+  useEffect(() => {
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+    window.addEventListener('pointerdown', markActive);
+    window.addEventListener('keydown', markActive);
+    return () => {
+      window.removeEventListener('pointerdown', markActive);
+      window.removeEventListener('keydown', markActive);
+    };
   }, []);
 
+  // Keeps the session open while the screen is; an idle worker is moved onto a break
+  useEffect(() => {
+    if (!session) return;
+
+    const interval = setInterval(() => {
+      sendHeartbeat(session.id);
+      if (!session.break_started_at && Date.now() - lastActivityRef.current >= IDLE_BREAK_MINUTES * 60000) {
+        setBreak(true, 'idle');
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [session?.id, session?.break_started_at]);
+
+  const selectBin = (bin: BinMaster) => {
+    setSelectedBin(bin);
+    setQuantity('');
+    setSkuQuantities({});
+    setExtraSkus([]);
+    setLastScannedItem('');
+  };
+
+  const binSkus = selectedBin?.contents ?? [];
+  const isItemBin = binSkus.length > 0;
+
+  const addSkuUnit = (sku: string) => {
+    setSkuQuantities(prev => ({ ...prev, [sku]: String((parseInt(prev[sku]) || 0) + 1) }));
+  };
+
+  const handleScan = (code: string) => {
+    const scanned = code.trim();
+    lastActivityRef.current = Date.now();
+    setCameraOpen(false);
+    setSearchTerm('');
+    setError('');
+
+    const bin = bins.find(b => b.bin_no.toLowerCase() === scanned.toLowerCase());
+    if (bin) {
+      // Re-scanning the open bin label must not wipe an item count in progress
+      if (!(itemScanMode && selectedBin?.id === bin.id)) {
+        selectBin(bin);
+      }
+      return;
+    }
+
+    // In item mode every non-bin scan inside the selected bin adds one unit
+    if (itemScanMode && selectedBin) {
+      if (isItemBin) {
+        const sku = binSkus.find(content => content.sku.toLowerCase() === scanned.toLowerCase())?.sku
+          ?? extraSkus.find(extra => extra.toLowerCase() === scanned.toLowerCase());
+        if (!sku) {
+          setExtraSkus(prev => [...prev, scanned]);
+        }
+        addSkuUnit(sku ?? scanned);
+      } else {
+        setQuantity(prev => String((parseInt(prev) || 0) + 1));
+      }
+      setLastScannedItem(scanned);
+      return;
+    }
+
+    setError(`Unknown bin: ${scanned} is not in ${warehouseName}`);
+  };
+
+  useBarcodeScanner(handleScan, { enabled: !!session && !session.break_started_at && !confirmation.show });
+
+  const syncQueuedCounts = async () => {
+    try {
+      const result = await flushQueue();
+      setSignInRequired(result.signInRequired);
+      if (result.rejected.length > 0) {
+        setError(result.rejected
+          .map(({ count, error: reason }) => `Count for ${count.binNo} was rejected: ${reason}`)
+          .join('\n'));
+      }
+
+      // The server ended the session (e.g. force-closed); start a new one to keep counting
+      const endedSessionIds = result.held.map(({ count }) => count.sessionId);
+      if (endedSessionIds.length > 0) {
+        setSession(current => current && endedSessionIds.includes(current.id) ? null : current);
+      }
+      if (result.duplicates.length > 0) {
+        setNotice(result.duplicates
+          .map(count => `${count.binNo} was already counted in this session; the new count is flagged for your team leader`)
+          .join('\n'));
+      }
+    } catch (err) {
+      // Queue stays in IndexedDB; the next sync retries
+    } finally {
+      setPendingSync(await countQueued().catch(() => 0));
+      setHeldCounts(await getHeldCounts().catch(() => []));
+      setSyncedAt(Date.now());
+    }
+  };
+
   const loadBins = async () => {
     try {
+      // While a campaign is open, workers only see their assigned, uncounted bins in order
+      const assigned = await api.get(`/count-campaigns/assigned/${workerId}?warehouse=${encodeURIComponent(warehouseName)}`);
+      setCampaignOpen(assigned.data.campaignOpen);
+      if (assigned.data.campaignOpen) {
+        setBins(assigned.data.bins);
+        return;
+      }
+
       const response = await api.get(`/bin-master?warehouse=${warehouseName}`);
       setBins(response.data);
     } catch (err) {
@@ -50,7 +212,10 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
   const checkActiveSession = async () => {
     try {
       const response = await api.get(`/counting-session/active/${workerId}`);
-      if (response.data) {
+      // A session belongs to one warehouse; counts here would be rejected
+      if (response.data && response.data.warehouse_name !== warehouseName) {
+        setNotice(`Your active session is in ${response.data.warehouse_name}. Switch to it to continue counting.`);
+      } else if (response.data) {
         setSession(response.data);
       }
     } catch (err) {
@@ -58,6 +223,41 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
     }
   };
 
+  const sendHeartbeat = async (sessionId: string) => {
+    try {
+      const response = await api.post(`/counting-session/heartbeat/${sessionId}`);
+      setSession(current => current && current.id === sessionId ? response.data : current);
+    } catch (err) {
+      // Closed for inactivity or by the team leader; a dropped connection just retries next time
+      if (getErrorStatus(err) === 409) {
+        setSession(null);
+        setSelectedBin(null);
+        setNotice('Your counting session was closed. Start a new session to keep counting.');
+      }
+    }
+  };
+
+  const setBreak = async (onBreak: boolean, reason: 'break' | 'idle' = 'break') => {
+    if (!session) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const response = onBreak
+        ? await api.post(`/counting-session/break/${session.id}`, { reason })
+        : await api.post(`/counting-session/resume/${session.id}`);
+      setSession(response.data);
+      lastActivityRef.current = Date.now();
+      setNotice(onBreak && reason === 'idle'
+        ? `No activity for ${IDLE_BREAK_MINUTES} minutes, so your session was paused`
+        : '');
+    } catch (err) {
+      setError(getErrorMessage(err, onBreak ? 'Failed to start break' : 'Failed to resume counting'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const startCounting = async () => {
     setLoading(true);
     setError('');
@@ -69,7 +269,11 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
       });
       setSession(response.data);
     } catch (err) {
-      setError('Failed to start counting session');
+      if (getErrorDetails(err).some(detail => detail.code === 'otp_required')) {
+        setOtpRequired(true);
+        return;
+      }
+      setError(getErrorMessage(err, 'Failed to start counting session'));
     } finally {
       setLoading(false);
     }
@@ -80,11 +284,24 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
     
     setLoading(true);
     setError('');
+
+    // Queued counts must reach the server while the session is still open
+    // Counts held back from an earlier, ended session do not block this one
+    await syncQueuedCounts();
+    const unsynced = (await getQueuedCounts().catch(() => [])).filter(count => count.sessionId === session.id);
+    if (unsynced.length > 0) {
+      setError('Some counts have not synced yet. Reconnect before ending the session.');
+      setLoading(false);
+      return;
+    }
+
     try {
-      await api.post(`/counting-session/end/${session.id}`);
+      await api.post(`/counting-session/end/${session.id}`, {});
       setSession(null);
       setSelectedBin(null);
       setQuantity('');
+      setSkuQuantities({});
+      setExtraSkus([]);
       setSearchTerm('');
     } catch (err) {
       setError('Failed to end counting session');
@@ -94,7 +311,30 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
   };
 
   const handleQuantitySubmit = () => {
-    if (!selectedBin || !quantity.trim()) return;
+    if (!selectedBin) return;
+
+    // Every SKU needs an explicit count so a skipped line is never read as zero
+    if (isItemBin) {
+      const items = [...binSkus.map(content => content.sku), ...extraSkus].map(sku => ({
+        sku,
+        qty: parseInt(skuQuantities[sku] ?? '')
+      }));
+      if (items.some(item => isNaN(item.qty) || item.qty < 0)) {
+        setError('Enter a count for every SKU (0 if none were found)');
+        return;
+      }
+
+      setError('');
+      setConfirmation({
+        binNo: selectedBin.bin_no,
+        quantity: items.reduce((total, item) => total + item.qty, 0),
+        items,
+        show: true
+      });
+      return;
+    }
+
+    if (!quantity.trim()) return;
     
     const qty = parseInt(quantity);
     if (isNaN(qty) || qty < 0) {
@@ -105,6 +345,7 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
     setConfirmation({
       binNo: selectedBin.bin_no,
       quantity: qty,
+      items: [],
       show: true
     });
   };
@@ -114,30 +355,47 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
 
     setLoading(true);
     setError('');
+    setNotice('');
     try {
-      await api.post('/counting-data', {
+      // Saved locally first so a dropped connection never loses the count
+      await enqueueCount({
         sessionId: session.id,
         binNo: selectedBin.bin_no,
         qtyCountedWorker: confirmation.quantity,
-        qtyAsPerBooks: selectedBin.qty_as_per_books
+        items: confirmation.items.length > 0 ? confirmation.items : undefined
       });
 
+      // Counted campaign bins drop off the worker's list
+      if (selectedBin.campaign_id) {
+        setBins(prev => prev.filter(bin => bin.id !== selectedBin.id));
+      }
+
       // Reset form
       setSelectedBin(null);
       setQuantity('');
+      setSkuQuantities({});
+      setExtraSkus([]);
       setSearchTerm('');
-      setConfirmation({ binNo: '', quantity: 0, show: false });
+      setLastScannedItem('');
+      setConfirmation({ binNo: '', quantity: 0, items: [], show: false });
     } catch (err) {
       setError('Failed to save counting data');
     } finally {
       setLoading(false);
     }
+
+    await syncQueuedCounts();
   };
 
   const cancelConfirmation = () => {
-    setConfirmation({ binNo: '', quantity: 0, show: false });
+    setConfirmation({ binNo: '', quantity: 0, items: [], show: false });
   };
 
+  const booksForSku = (sku: string) => binSkus.find(content => content.sku === sku)?.qty_as_per_books ?? 0;
+
+  // Blind sessions never show book quantities; the server omits them anyway
+  const showBooks = (bin: BinMaster | null) => !session?.blind_count && bin?.qty_as_per_books != null;
+
   const filteredBins = bins.filter(bin =>
     bin.bin_no.toLowerCase().includes(searchTerm.toLowerCase())
   );
@@ -146,6 +404,18 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
     return new Date(dateString).toLocaleTimeString();
   };
 
+  if (otpRequired) {
+    return (
+      <OTPVerification
+        onVerified={() => {
+          setOtpRequired(false);
+          startCounting();
+        }}
+        onCancel={() => setOtpRequired(false)}
+      />
+    );
+  }
+
   return (
     <div className="max-w-4xl mx-auto p-6">
       <div className="bg-white rounded-xl shadow-lg p-8">
@@ -157,13 +427,23 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
           
           {session ? (
             <div className="text-right">
-              <div className="flex items-center gap-2 text-green-600 mb-2">
-                <Play className="w-5 h-5" />
-                <span className="font-medium">Session Active</span>
-              </div>
+              {session.break_started_at ? (
+                <div className="flex items-center gap-2 text-amber-600 mb-2">
+                  <Coffee className="w-5 h-5" />
+                  <span className="font-medium">On Break</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-green-600 mb-2">
+                  <Play className="w-5 h-5" />
+                  <span className="font-medium">Session Active</span>
+                </div>
+              )}
               <p className="text-sm text-gray-600">
                 Started: {formatTime(session.start_time)}
               </p>
+              {session.blind_count && (
+                <p className="text-sm text-indigo-700">Blind count</p>
+              )}
             </div>
           ) : (
             <div className="text-gray-500">
@@ -176,7 +456,63 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
         {error && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
             <AlertTriangle className="w-5 h-5 text-red-500" />
-            <p className="text-red-700">{error}</p>
+            <p className="text-red-700 whitespace-pre-line">{error}</p>
+          </div>
+        )}
+
+        {notice && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-yellow-600" />
+            <p className="text-yellow-800 whitespace-pre-line">{notice}</p>
+          </div>
+        )}
+
+        {pendingSync > 0 && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-3">
+            <CloudOff className="w-5 h-5 text-yellow-600" />
+            <p className="text-yellow-800">
+              {signInRequired
+                ? `Your sign-in has expired. ${pendingSync} ${pendingSync === 1 ? 'count is' : 'counts are'} saved on this device and will be sent once you sign in again`
+                : `${pendingSync} ${pendingSync === 1 ? 'count' : 'counts'} waiting to sync`}
+            </p>
+            {signInRequired && (
+              <button
+                onClick={() => navigate('/')}
+                className="ml-auto px-3 py-1 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors text-sm"
+              >
+                Sign in again
+              </button>
+            )}
+          </div>
+        )}
+
+        {heldCounts.length > 0 && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <div className="flex items-center gap-3 mb-2">
+              <AlertTriangle className="w-5 h-5 text-red-500" />
+              <p className="text-red-700">
+                {heldCounts.length} {heldCounts.length === 1 ? 'count' : 'counts'} could not be added to an ended session.
+                They are kept on this device; show them to your team leader.
+              </p>
+            </div>
+            <ul className="space-y-1">
+              {heldCounts.map(({ count }) => (
+                <li key={count.clientKey} className="flex items-center justify-between text-sm text-red-700">
+                  <span>
+                    {count.binNo}: {count.qtyCountedWorker} ({new Date(count.queuedAt).toLocaleString()})
+                  </span>
+                  <button
+                    onClick={async () => {
+                      await dismissHeldCount(count.clientKey).catch(() => undefined);
+                      setHeldCounts(await getHeldCounts().catch(() => []));
+                    }}
+                    className="text-red-600 hover:text-red-800 font-medium"
+                  >
+                    Dismiss
+                  </button>
+                </li>
+              ))}
+            </ul>
           </div>
         )}
 
@@ -196,72 +532,184 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
           </div>
         ) : (
           <div className="space-y-8">
-            {/* Bin Selection */}
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Step 1: Select Bin</h3>
-              <div className="relative mb-4">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-                <input
-                  type="text"
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  placeholder="Search bins..."
-                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                />
+            {session.break_started_at ? (
+              <div className="text-center py-12">
+                <Coffee className="w-16 h-16 text-amber-500 mx-auto mb-4" />
+                <h2 className="text-xl font-semibold text-gray-900 mb-2">On Break</h2>
+                <p className="text-gray-600 mb-6">
+                  Since {formatTime(session.break_started_at)}. Break time does not count against your efficiency.
+                </p>
+                <button
+                  onClick={() => setBreak(false)}
+                  disabled={loading}
+                  className="bg-green-600 text-white px-8 py-3 rounded-lg font-medium hover:bg-green-700 focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 transition-colors flex items-center gap-2 mx-auto"
+                >
+                  <Play className="w-5 h-5" />
+                  {loading ? 'Resuming...' : 'Resume Counting'}
+                </button>
               </div>
+            ) : (
+              <>
+                {/* Bin Selection */}
+                <div>
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900">Step 1: Select Bin</h3>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={itemScanMode}
+                        onChange={(e) => setItemScanMode(e.target.checked)}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <ScanLine className="w-4 h-4" />
+                      Scan each item
+                    </label>
+                  </div>
+                  <div className="flex gap-4 mb-4">
+                    <div className="relative flex-1">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                      <input
+                        type="text"
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        placeholder="Search or scan bins..."
+                        className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      />
+                    </div>
+                    <button
+                      onClick={() => setCameraOpen(true)}
+                      className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <Camera className="w-5 h-5" />
+                      Scan
+                    </button>
+                  </div>
               
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 max-h-60 overflow-y-auto">
-                {filteredBins.map((bin) => (
-                  <button
-                    key={bin.id}
-                    onClick={() => setSelectedBin(bin)}
-                    className={`p-4 border rounded-lg text-left transition-colors ${
-                      selectedBin?.id === bin.id
-                        ? 'border-indigo-500 bg-indigo-50'
-                        : 'border-gray-200 hover:border-gray-300'
-                    }`}
-                  >
-                    <div className="font-medium text-gray-900">{bin.bin_no}</div>
-                    <div className="text-sm text-gray-600">
-                      Books: {bin.qty_as_per_books}
+                  {campaignOpen && bins.length === 0 && (
+                    <p className="text-sm text-gray-600 mb-4">
+                      A count campaign is running and none of its bins are waiting for you. Ask your team leader for more.
+                    </p>
+                  )}
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 max-h-60 overflow-y-auto">
+                    {filteredBins.map((bin) => (
+                      <button
+                        key={bin.id}
+                        onClick={() => selectBin(bin)}
+                        className={`p-4 border rounded-lg text-left transition-colors ${
+                          selectedBin?.id === bin.id
+                            ? 'border-indigo-500 bg-indigo-50'
+                            : 'border-gray-200 hover:border-gray-300'
+                        }`}
+                      >
+                        <div className="font-medium text-gray-900">{bin.bin_no}</div>
+                        {showBooks(bin) && (
+                          <div className="text-sm text-gray-600">
+                            Books: {bin.qty_as_per_books}
+                          </div>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Quantity Entry */}
+                {selectedBin && (
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">Step 2: Enter Quantity</h3>
+                    <div className="bg-gray-50 p-4 rounded-lg mb-4">
+                      <p className="text-sm text-gray-600">Selected Bin:</p>
+                      <p className="font-medium text-gray-900">{selectedBin.bin_no}</p>
+                      {showBooks(selectedBin) && (
+                        <p className="text-sm text-gray-600">Quantity as per books: {selectedBin.qty_as_per_books}</p>
+                      )}
+                      {itemScanMode && (
+                        <p className="text-sm text-indigo-700 mt-2">
+                          {lastScannedItem
+                            ? `Last item scanned: ${lastScannedItem}`
+                            : 'Scan each item to add it to the count'}
+                        </p>
+                      )}
                     </div>
-                  </button>
-                ))}
-              </div>
-            </div>
 
-            {/* Quantity Entry */}
-            {selectedBin && (
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Step 2: Enter Quantity</h3>
-                <div className="bg-gray-50 p-4 rounded-lg mb-4">
-                  <p className="text-sm text-gray-600">Selected Bin:</p>
-                  <p className="font-medium text-gray-900">{selectedBin.bin_no}</p>
-                  <p className="text-sm text-gray-600">Quantity as per books: {selectedBin.qty_as_per_books}</p>
-                </div>
-                
-                <div className="flex gap-4">
-                  <input
-                    type="number"
-                    value={quantity}
-                    onChange={(e) => setQuantity(e.target.value)}
-                    placeholder="Enter counted quantity"
-                    min="0"
-                    className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                  />
-                  <button
-                    onClick={handleQuantitySubmit}
-                    disabled={!quantity.trim() || loading}
-                    className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 transition-colors"
-                  >
-                    Submit
-                  </button>
-                </div>
-              </div>
+                    {isItemBin ? (
+                      <div className="space-y-3">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-600 border-b">
+                              <th className="py-2 pr-4">SKU</th>
+                              <th className="py-2 pr-4">Description</th>
+                              {showBooks(selectedBin) && <th className="py-2 pr-4">Books</th>}
+                              <th className="py-2">Counted</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {[...binSkus, ...extraSkus.map(sku => ({ sku, description: 'Not on the books', uom: '' }))].map((content) => (
+                              <tr key={content.sku} className="border-b last:border-0">
+                                <td className="py-2 pr-4 font-medium text-gray-900">{content.sku}</td>
+                                <td className="py-2 pr-4 text-gray-600">{content.description || '-'}</td>
+                                {showBooks(selectedBin) && (
+                                  <td className="py-2 pr-4 text-gray-600">{booksForSku(content.sku)} {content.uom}</td>
+                                )}
+                                <td className="py-2">
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    value={skuQuantities[content.sku] ?? ''}
+                                    onChange={(e) => setSkuQuantities(prev => ({ ...prev, [content.sku]: e.target.value }))}
+                                    className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                                  />
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <button
+                          onClick={handleQuantitySubmit}
+                          disabled={loading}
+                          className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 transition-colors"
+                        >
+                          Submit
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-4">
+                        <input
+                          ref={quantityInputRef}
+                          type="number"
+                          value={quantity}
+                          onChange={(e) => setQuantity(e.target.value)}
+                          placeholder="Enter counted quantity"
+                          min="0"
+                          className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        />
+                        <button
+                          onClick={handleQuantitySubmit}
+                          disabled={!quantity.trim() || loading}
+                          className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 transition-colors"
+                        >
+                          Submit
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
             )}
 
+            <SessionCounts sessionId={session.id} refreshKey={syncedAt} onVoided={loadBins} />
+
             {/* End Counting */}
-            <div className="pt-6 border-t">
+            <div className="pt-6 border-t flex flex-wrap gap-4">
+              {!session.break_started_at && (
+                <button
+                  onClick={() => setBreak(true)}
+                  disabled={loading}
+                  className="border border-amber-300 text-amber-700 px-8 py-3 rounded-lg font-medium hover:bg-amber-50 disabled:opacity-50 transition-colors flex items-center gap-2"
+                >
+                  <Coffee className="w-5 h-5" />
+                  Take a Break
+                </button>
+              )}
               <button
                 onClick={endCounting}
                 disabled={loading}
@@ -275,6 +723,10 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
         )}
       </div>
 
+      {cameraOpen && (
+        <CameraScanner onDetected={handleScan} onClose={() => setCameraOpen(false)} />
+      )}
+
       {/* Confirmation Modal */}
       {confirmation.show && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -293,20 +745,33 @@ const CountingInterface: React.FC<CountingInterfaceProps> = ({
                 <span className="text-gray-600">Counted Quantity:</span>
                 <span className="font-medium">{confirmation.quantity}</span>
               </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Books Quantity:</span>
-                <span className="font-medium">{selectedBin?.qty_as_per_books}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Difference:</span>
-                <span className={`font-medium ${
-                  confirmation.quantity - (selectedBin?.qty_as_per_books || 0) === 0
-                    ? 'text-green-600'
-                    : 'text-red-600'
-                }`}>
-                  {confirmation.quantity - (selectedBin?.qty_as_per_books || 0)}
-                </span>
-              </div>
+              {confirmation.items.map((item) => (
+                <div key={item.sku} className="flex justify-between text-sm">
+                  <span className="text-gray-600 pl-4">{item.sku}:</span>
+                  <span className={showBooks(selectedBin) && item.qty !== booksForSku(item.sku) ? 'text-red-600' : 'text-gray-900'}>
+                    {item.qty}
+                    {showBooks(selectedBin) && ` (books ${booksForSku(item.sku)})`}
+                  </span>
+                </div>
+              ))}
+              {showBooks(selectedBin) && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Books Quantity:</span>
+                    <span className="font-medium">{selectedBin?.qty_as_per_books}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Difference:</span>
+                    <span className={`font-medium ${
+                      confirmation.quantity - (selectedBin?.qty_as_per_books || 0) === 0
+                        ? 'text-green-600'
+                        : 'text-red-600'
+                    }`}>
+                      {confirmation.quantity - (selectedBin?.qty_as_per_books || 0)}
+                    </span>
+                  </div>
+                </>
+              )}
             </div>
             
             <div className="flex gap-3">
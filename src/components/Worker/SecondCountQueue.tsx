@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { Repeat, AlertTriangle, CheckCircle } from 'lucide-react';
+import { SecondCountTask } from '../../types';
+import { api } from '../../services/api';
+import { getErrorMessage, getErrorStatus } from '../../utils/errors';
+
+const REFRESH_INTERVAL_MS = 30000;
+
+// Blind counts another worker got wrong against the books; recounted here without seeing either number
+const SecondCountQueue: React.FC = () => {
+  const [tasks, setTasks] = useState<SecondCountTask[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadTasks();
+    const interval = setInterval(loadTasks, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadTasks = async () => {
+    try {
+      const response = await api.get('/counting-data/second-count-queue');
+      setTasks(response.data);
+    } catch (err) {
+      // Retried on the next refresh
+    }
+  };
+
+  // Bins with SKU contents are second-counted per SKU
+  const skuKey = (task: SecondCountTask, sku: string) => `${task.id}:${sku}`;
+
+  const isFilled = (task: SecondCountTask) => task.items.length > 0
+    ? task.items.every(item => (quantities[skuKey(task, item.sku)] ?? '').trim())
+    : !!(quantities[task.id] ?? '').trim();
+
+  const submitCount = async (task: SecondCountTask) => {
+    const items = task.items.map(item => ({ sku: item.sku, qty: parseInt(quantities[skuKey(task, item.sku)] ?? '') }));
+    const qty = parseInt(quantities[task.id] ?? '');
+    if (task.items.length > 0 ? items.some(item => isNaN(item.qty) || item.qty < 0) : isNaN(qty) || qty < 0) {
+      setError('Please enter a valid quantity');
+      return;
+    }
+
+    setSavingId(task.id);
+    setError('');
+    setSuccess('');
+    try {
+      await api.put(`/counting-data/${task.id}/second-count`, task.items.length > 0 ? { items } : { qtyCounted: qty });
+      setSuccess(`Second count for ${task.bin_no} saved`);
+      setTasks(prev => prev.filter(existing => existing.id !== task.id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save second count'));
+      // Someone else took it, or it was settled; drop it from the list
+      if (getErrorStatus(err) === 409 || getErrorStatus(err) === 404) {
+        loadTasks();
+      }
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (tasks.length === 0 && !error && !success) return null;
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Second Counts Requested</h2>
+          <p className="text-sm text-gray-600">Count these bins again before they go to your team leader</p>
+        </div>
+        <Repeat className="w-6 h-6 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <p className="text-green-700">{success}</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {tasks.map((task) => (
+          <div key={task.id} className="flex items-center gap-4 border border-gray-200 rounded-lg p-3">
+            <div className="flex-1">
+              <p className="font-medium text-gray-900">{task.bin_no}</p>
+              <p className="text-xs text-gray-500">First counted {new Date(task.created_at).toLocaleTimeString()}</p>
+            </div>
+            {task.items.length > 0 ? (
+              <div className="space-y-2">
+                {task.items.map((item) => (
+                  <label key={item.sku} className="flex items-center justify-end gap-2 text-sm text-gray-700">
+                    {item.sku}{item.description && ` · ${item.description}`}
+                    <input
+                      type="number"
+                      min="0"
+                      value={quantities[skuKey(task, item.sku)] ?? ''}
+                      onChange={(e) => setQuantities(prev => ({ ...prev, [skuKey(task, item.sku)]: e.target.value }))}
+                      placeholder={item.uom}
+                      className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <input
+                type="number"
+                min="0"
+                value={quantities[task.id] ?? ''}
+                onChange={(e) => setQuantities(prev => ({ ...prev, [task.id]: e.target.value }))}
+                placeholder="Quantity"
+                className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            )}
+            <button
+              onClick={() => submitCount(task)}
+              disabled={savingId === task.id || !isFilled(task)}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+              {savingId === task.id ? 'Saving...' : 'Submit'}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SecondCountQueue;
@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { ListChecks, AlertTriangle, CheckCircle } from 'lucide-react';
+import { CountingData } from '../../types';
+import { api } from '../../services/api';
+import { getErrorMessage, getErrorStatus } from '../../utils/errors';
+
+interface SessionCountsProps {
+  sessionId: string;
+  // Bumped by the parent whenever queued counts have synced
+  refreshKey: number;
+  // Called after a void, so a campaign bin can return to the bin list
+  onVoided: () => void;
+}
+
+// Ticks so Edit and Void disappear once a count's grace window has passed
+const CLOCK_INTERVAL_MS = 15000;
+
+// The worker's counts in the running session, fixable or voidable for a short while after confirming
+const SessionCounts: React.FC<SessionCountsProps> = ({ sessionId, refreshKey, onVoided }) => {
+  const [counts, setCounts] = useState<CountingData[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState('');
+  const [skuQuantities, setSkuQuantities] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadCounts();
+  }, [sessionId, refreshKey]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadCounts = async () => {
+    try {
+      const response = await api.get(`/counting-data?sessionId=${sessionId}`);
+      setCounts(response.data);
+    } catch (err) {
+      // Reloaded after the next sync
+    }
+  };
+
+  // Second counts, recounts and approvals settle a count for good
+  const isEditable = (count: CountingData) =>
+    !!count.editable_until && Date.parse(count.editable_until) > now &&
+    !count.is_locked && count.qty_second_count == null && count.qty_recounted_tl == null;
+
+  const startEdit = (count: CountingData) => {
+    setEditingId(count.id);
+    setQuantity(String(count.qty_counted));
+    setSkuQuantities(Object.fromEntries((count.items || []).map(item => [item.sku, String(item.qty_counted)])));
+    setError('');
+    setSuccess('');
+  };
+
+  const run = async (count: CountingData, action: () => Promise<string>, fallback: string) => {
+    setSavingId(count.id);
+    setError('');
+    setSuccess('');
+    try {
+      setSuccess(await action());
+      setEditingId(null);
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+      // The window closed or the count was checked in the meantime
+      if (getErrorStatus(err) === 409 || getErrorStatus(err) === 404) {
+        loadCounts();
+      }
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const saveEdit = (count: CountingData) => {
+    const items = (count.items || []).map(item => ({ sku: item.sku, qty: parseInt(skuQuantities[item.sku] ?? '') }));
+    const qty = parseInt(quantity);
+    if (items.length > 0 ? items.some(item => isNaN(item.qty) || item.qty < 0) : isNaN(qty) || qty < 0) {
+      setError('Please enter a valid quantity');
+      return;
+    }
+
+    run(count, async () => {
+      const response = await api.put(`/counting-data/${count.id}/edit`, items.length > 0 ? { items } : { qtyCounted: qty });
+      setCounts(prev => prev.map(existing => existing.id === count.id
+        ? { ...response.data, editable_until: existing.editable_until }
+        : existing));
+      return `Count for ${count.bin_no} updated`;
+    }, 'Failed to update count');
+  };
+
+  const voidCount = (count: CountingData) => {
+    const reason = window.prompt(`Void your count of ${count.bin_no}? Optionally say why.`, '');
+    if (reason === null) return;
+
+    run(count, async () => {
+      await api.post(`/counting-data/${count.id}/void`, { reason: reason.trim() || null });
+      setCounts(prev => prev.filter(existing => existing.id !== count.id));
+      onVoided();
+      return `Count for ${count.bin_no} voided`;
+    }, 'Failed to void count');
+  };
+
+  if (counts.length === 0 && !error && !success) return null;
+
+  return (
+    <div className="pt-6 border-t">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">My Counts This Session</h3>
+        <ListChecks className="w-5 h-5 text-indigo-600" />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <p className="text-green-700">{success}</p>
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {counts.map((count) => (
+          <div key={count.id} className="border border-gray-200 rounded-lg p-3">
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">{count.bin_no}</p>
+                <p className="text-xs text-gray-500">
+                  {new Date(count.created_at).toLocaleTimeString()}
+                  {count.original_qty_counted != null && ` · edited, first confirmed ${count.original_qty_counted}`}
+                </p>
+              </div>
+              {editingId !== count.id && (
+                <span className="font-medium text-gray-900">{count.qty_counted}</span>
+              )}
+              {editingId !== count.id && isEditable(count) && (
+                <>
+                  <button
+                    onClick={() => startEdit(count)}
+                    disabled={savingId === count.id}
+                    className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => voidCount(count)}
+                    disabled={savingId === count.id}
+                    className="px-3 py-1 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                  >
+                    Void
+                  </button>
+                </>
+              )}
+            </div>
+
+            {editingId === count.id && (
+              <div className="mt-3 flex flex-wrap items-end gap-3">
+                {(count.items || []).length > 0 ? (
+                  <div className="space-y-2">
+                    {(count.items || []).map((item) => (
+                      <label key={item.sku} className="flex items-center justify-end gap-2 text-sm text-gray-700">
+                        {item.sku}{item.description && ` · ${item.description}`}
+                        <input
+                          type="number"
+                          min="0"
+                          value={skuQuantities[item.sku] ?? ''}
+                          onChange={(e) => setSkuQuantities(prev => ({ ...prev, [item.sku]: e.target.value }))}
+                          placeholder={item.uom}
+                          className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                ) : (
+                  <input
+                    type="number"
+                    min="0"
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                    className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                )}
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => saveEdit(count)}
+                  disabled={savingId === count.id}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                >
+                  {savingId === count.id ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionCounts;
@@ -0,0 +1,114 @@
+import { useEffect, useRef } from 'react';
+
+interface BarcodeScannerOptions {
+  enabled?: boolean;
+  minLength?: number;
+  maxKeyIntervalMs?: number;
+}
+
+const TEXT_INPUT_TYPES = ['text', 'search', 'number', 'tel', 'url', 'email', 'password'];
+
+const isTextField = (target: EventTarget | null): target is HTMLInputElement | HTMLTextAreaElement => {
+  return target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(target.type));
+};
+
+// Types held-back keys into the field as if they had never been intercepted, so React sees the change
+const typeInto = (field: HTMLInputElement | HTMLTextAreaElement, text: string) => {
+  field.focus();
+  if (document.execCommand('insertText', false, text)) return;
+
+  // Number inputs refuse insertText in some browsers; append through the native setter instead
+  const prototype = field instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(field, field.value + text);
+  field.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+// Handheld wedge scanners "type" the code much faster than a person and finish with Enter.
+// Keys aimed at a text field are held until the gap after them shows whether they are a scan
+// or typing; typing is then put back into the field, a scan never reaches it
+export const useBarcodeScanner = (
+  onScan: (code: string) => void,
+  { enabled = true, minLength = 3, maxKeyIntervalMs = 50 }: BarcodeScannerOptions = {}
+) => {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyTime = 0;
+    let held = '';
+    let heldField: HTMLInputElement | HTMLTextAreaElement | null = null;
+    let releaseTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const releaseHeldKeys = () => {
+      clearTimeout(releaseTimer);
+      if (held && heldField) {
+        typeInto(heldField, held);
+      }
+      held = '';
+      heldField = null;
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const now = Date.now();
+      const rapid = now - lastKeyTime <= maxKeyIntervalMs;
+      lastKeyTime = now;
+
+      if (e.key === 'Enter') {
+        if (rapid && buffer.length >= minLength) {
+          e.preventDefault();
+          e.stopPropagation();
+          clearTimeout(releaseTimer);
+          held = '';
+          heldField = null;
+          onScanRef.current(buffer);
+        } else {
+          // Too short for a scan; the field gets its keys before Enter acts on it
+          releaseHeldKeys();
+        }
+        buffer = '';
+        return;
+      }
+
+      if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey) {
+        releaseHeldKeys();
+        return;
+      }
+
+      const inBurst = rapid && buffer !== '';
+      buffer = rapid ? buffer + e.key : e.key;
+
+      if (!isTextField(e.target)) {
+        // Past the first key a burst is the scanner's; keep it away from whatever has focus
+        if (inBurst) {
+          e.preventDefault();
+          e.stopPropagation();
+        }
+        return;
+      }
+
+      // A slow key starts a new run; whatever was held before it was typing
+      if (!rapid || e.target !== heldField) {
+        releaseHeldKeys();
+      }
+
+      e.preventDefault();
+      e.stopPropagation();
+      held += e.key;
+      heldField = e.target;
+
+      clearTimeout(releaseTimer);
+      // Twice the gap, so a key arriving right at the limit still finds its run held
+      releaseTimer = setTimeout(releaseHeldKeys, maxKeyIntervalMs * 2);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      releaseHeldKeys();
+    };
+  }, [enabled, minLength, maxKeyIntervalMs]);
+};
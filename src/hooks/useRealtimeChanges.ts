@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../services/supabase';
+
+export interface RealtimeTable {
+  table: string;
+  filter?: string;
+}
+
+export type RealtimeStatus = 'connecting' | 'live' | 'offline';
+
+// Streams inserts and updates on the given tables; RLS decides which rows reach the subscriber
+export const useRealtimeChanges = (
+  channelName: string,
+  tables: RealtimeTable[],
+  onChange: (table: string, payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => void,
+  enabled = true
+): RealtimeStatus => {
+  const [status, setStatus] = useState<RealtimeStatus>('connecting');
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const tablesKey = tables.map(({ table, filter }) => `${table}:${filter || ''}`).join('|');
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    setStatus('connecting');
+    const channel = supabase.channel(channelName);
+    tables.forEach(({ table, filter }) => {
+      channel.on<Record<string, unknown>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter },
+        payload => onChangeRef.current(table, payload)
+      );
+    });
+
+    channel.subscribe(channelStatus => {
+      setStatus(channelStatus === 'SUBSCRIBED' ? 'live' : channelStatus === 'CLOSED' ? 'connecting' : 'offline');
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+    // tablesKey stands in for the tables array, which callers usually build inline
+  }, [channelName, tablesKey, enabled]);
+
+  return status;
+};
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import Layout from '../components/Layout/Layout';
+import HierarchyOverview from '../components/Dashboard/HierarchyOverview';
+import UserManagement from '../components/Users/UserManagement';
+import BinMasterImport from '../components/Admin/BinMasterImport';
+import CampaignManager from '../components/Campaigns/CampaignManager';
+import ReconciliationReport from '../components/Reconciliation/ReconciliationReport';
+import WorkerScorecard from '../components/Performance/WorkerScorecard';
+import WarehouseSelect from '../components/Warehouses/WarehouseSelect';
+import WarehouseManager from '../components/Warehouses/WarehouseManager';
+import AnomalyReview from '../components/Anomalies/AnomalyReview';
+import AuditLogViewer from '../components/Admin/AuditLogViewer';
+
+const AdminDashboard: React.FC = () => {
+  const { user } = useAuth();
+  const [warehouseName, setWarehouseName] = useState('');
+
+  if (!user) return null;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-xl shadow-sm p-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Admin Dashboard</h1>
+            <p className="text-gray-600">Welcome back, {user.user_id}</p>
+          </div>
+          <WarehouseSelect value={warehouseName} onChange={setWarehouseName} allLabel="All warehouses" />
+        </div>
+
+        <HierarchyOverview warehouseName={warehouseName || undefined} showTeams />
+
+        <BinMasterImport />
+
+        <WarehouseManager />
+
+        <UserManagement callerRole="admin" />
+
+        <AuditLogViewer />
+
+        <AnomalyReview warehouseName={warehouseName || undefined} />
+
+        {warehouseName && (
+          <>
+            <CampaignManager warehouseName={warehouseName} canEditSettings />
+            <WorkerScorecard warehouseName={warehouseName} />
+            <ReconciliationReport warehouseName={warehouseName} canSignOff />
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default AdminDashboard;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import Layout from '../components/Layout/Layout';
+import HierarchyOverview from '../components/Dashboard/HierarchyOverview';
+import LiveCountingBoard from '../components/Dashboard/LiveCountingBoard';
+import UserManagement from '../components/Users/UserManagement';
+import OTPApprovals from '../components/TeamLeader/OTPApprovals';
+import RecountQueue from '../components/TeamLeader/RecountQueue';
+import CampaignManager from '../components/Campaigns/CampaignManager';
+import ReconciliationReport from '../components/Reconciliation/ReconciliationReport';
+import WorkerScorecard from '../components/Performance/WorkerScorecard';
+import WarehouseSelect from '../components/Warehouses/WarehouseSelect';
+
+const TeamLeaderDashboard: React.FC = () => {
+  const { user } = useAuth();
+  const [warehouseName, setWarehouseName] = useState(user?.warehouse_name || '');
+
+  if (!user) return null;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-xl shadow-sm p-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Team Leader Dashboard</h1>
+            <p className="text-gray-600">
+              Welcome back, {user.user_id} · {warehouseName || 'No warehouse assigned'}
+            </p>
+          </div>
+          {warehouseName && <WarehouseSelect value={warehouseName} onChange={setWarehouseName} />}
+        </div>
+
+        <LiveCountingBoard warehouseName={warehouseName || undefined} teamLeaderId={user.id} />
+
+        <HierarchyOverview showTeams={false} />
+
+        <UserManagement callerRole="team_leader" />
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <OTPApprovals />
+          <RecountQueue teamLeaderId={user.id} />
+        </div>
+
+        {warehouseName && (
+          <>
+            <CampaignManager warehouseName={warehouseName} />
+            <WorkerScorecard warehouseName={warehouseName} />
+            <ReconciliationReport warehouseName={warehouseName} canSignOff={false} />
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default TeamLeaderDashboard;
@@ -1,14 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import CountingInterface from '../components/Worker/CountingInterface';
+import SecondCountQueue from '../components/Worker/SecondCountQueue';
+import WorkerScorecard from '../components/Performance/WorkerScorecard';
+import WarehouseSelect from '../components/Warehouses/WarehouseSelect';
 import Layout from '../components/Layout/Layout';
 import { Clock, Package, TrendingUp, Award } from 'lucide-react';
 import { api } from '../services/api';
+import { useRealtimeChanges } from '../hooks/useRealtimeChanges';
 
 interface WorkerStats {
   todayBins: number;
   todayQuantity: number;
   todayTime: number;
+  binsPerHour: number;
+  accuracyRate: number;
   efficiency: number;
   ranking: number;
 }
@@ -19,20 +25,31 @@ const WorkerDashboard: React.FC = () => {
     todayBins: 0,
     todayQuantity: 0,
     todayTime: 0,
+    binsPerHour: 0,
+    accuracyRate: 0,
     efficiency: 0,
     ranking: 0
   });
   const [loading, setLoading] = useState(true);
+  const [warehouseName, setWarehouseName] = useState(user?.warehouse_name || '');
 
   useEffect(() => {
     if (user) {
       loadWorkerStats();
     }
-  }, [user]);
+  }, [user, warehouseName]);
+
+  // The performance engine rewrites today's row after every confirmed count
+  useRealtimeChanges(
+    `worker-stats-${user?.id}`,
+    [{ table: 'worker_performance', filter: `username=eq.${user?.user_id}` }],
+    () => loadWorkerStats(),
+    !!user
+  );
 
   const loadWorkerStats = async () => {
     try {
-      const response = await api.get(`/worker-performance/today/${user?.id}`);
+      const response = await api.get(`/worker-performance/today/${user?.id}?warehouse=${encodeURIComponent(warehouseName)}`);
       if (response.data) {
         setStats(response.data);
       }
@@ -55,9 +72,12 @@ const WorkerDashboard: React.FC = () => {
     <Layout>
       <div className="space-y-6">
         {/* Header */}
-        <div className="bg-white rounded-xl shadow-sm p-6">
-          <h1 className="text-2xl font-bold text-gray-900 mb-2">Worker Dashboard</h1>
-          <p className="text-gray-600">Welcome back, {user.user_id}</p>
+        <div className="bg-white rounded-xl shadow-sm p-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Worker Dashboard</h1>
+            <p className="text-gray-600">Welcome back, {user.user_id}</p>
+          </div>
+          {warehouseName && <WarehouseSelect value={warehouseName} onChange={setWarehouseName} />}
         </div>
 
         {/* Stats Cards */}
@@ -95,8 +115,11 @@ const WorkerDashboard: React.FC = () => {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Efficiency</p>
+                <p className="text-sm font-medium text-gray-600">Efficiency Score</p>
                 <p className="text-2xl font-bold text-gray-900">{stats.efficiency}%</p>
+                <p className="text-xs text-gray-500">
+                  {stats.binsPerHour} bins/hr · {Math.round(stats.accuracyRate * 100)}% accurate
+                </p>
               </div>
               <Award className="w-8 h-8 text-purple-600" />
             </div>
@@ -104,11 +127,17 @@ const WorkerDashboard: React.FC = () => {
         </div>
 
         {/* Counting Interface */}
+        {/* Remounted per warehouse so its bin list is reloaded */}
         <CountingInterface
+          key={warehouseName}
           workerId={user.id}
           teamLeaderId={user.team_leader_id || ''}
-          warehouseName={user.warehouse_name || ''}
+          warehouseName={warehouseName}
         />
+
+        <SecondCountQueue />
+
+        <WorkerScorecard workerUserId={user.user_id} />
       </div>
     </Layout>
   );
@@ -0,0 +1,190 @@
+import { api } from './api';
+import { ApiFieldError, SkuCount } from '../types';
+import { getErrorMessage, getErrorStatus, getErrorDetails } from '../utils/errors';
+
+export interface QueuedCount {
+  clientKey: string;
+  sessionId: string;
+  binNo: string;
+  qtyCountedWorker: number;
+  // Only for bins with SKU contents; qtyCountedWorker is then their total
+  items?: SkuCount[];
+  queuedAt: string;
+}
+
+export interface RejectedCount {
+  count: QueuedCount;
+  error: string;
+  details: ApiFieldError[];
+}
+
+// Refused because their session has ended; kept on the device for the team leader to sort out, never resent
+export interface HeldCount extends RejectedCount {
+  heldAt: string;
+}
+
+export interface FlushResult {
+  synced: number;
+  rejected: RejectedCount[];
+  // Held during this run; earlier ones are in getHeldCounts
+  held: HeldCount[];
+  duplicates: QueuedCount[];
+  // The server refused the worker's token; everything stays queued until they sign in again
+  signInRequired: boolean;
+}
+
+const DB_NAME = 'warehouse-counting';
+const DB_VERSION = 2;
+const STORE_NAME = 'pending-counts';
+const HELD_STORE_NAME = 'held-counts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushPromise: Promise<FlushResult> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'clientKey' });
+          store.createIndex('queuedAt', 'queuedAt');
+        }
+        if (!db.objectStoreNames.contains(HELD_STORE_NAME)) {
+          db.createObjectStore(HELD_STORE_NAME, { keyPath: 'count.clientKey' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE_NAME
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const enqueueCount = async (
+  count: Omit<QueuedCount, 'clientKey' | 'queuedAt'>
+): Promise<QueuedCount> => {
+  const queued: QueuedCount = {
+    ...count,
+    clientKey: crypto.randomUUID(),
+    queuedAt: new Date().toISOString()
+  };
+  await runTransaction('readwrite', store => store.add(queued));
+  return queued;
+};
+
+export const getQueuedCounts = (): Promise<QueuedCount[]> => {
+  return runTransaction('readonly', store => store.index('queuedAt').getAll());
+};
+
+export const countQueued = (): Promise<number> => {
+  return runTransaction('readonly', store => store.count());
+};
+
+const removeQueuedCount = (clientKey: string) => {
+  return runTransaction('readwrite', store => store.delete(clientKey));
+};
+
+// Moved out of the queue in one transaction, so a count is never both resent and held
+const holdQueuedCount = async (held: HeldCount): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, HELD_STORE_NAME], 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(held.count.clientKey);
+    transaction.objectStore(HELD_STORE_NAME).put(held);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getHeldCounts = (): Promise<HeldCount[]> => {
+  return runTransaction('readonly', store => store.getAll(), HELD_STORE_NAME);
+};
+
+// Once the team leader has dealt with it
+export const dismissHeldCount = (clientKey: string) => {
+  return runTransaction('readwrite', store => store.delete(clientKey), HELD_STORE_NAME);
+};
+
+const isAuthFailure = (status?: number) => status === 401 || status === 403;
+
+// A 4xx (other than timeouts, rate limits and an expired sign-in) means the server will never accept the count.
+// Deadlocks and serialization failures come back as 503 and are retried like an outage
+const isPermanentFailure = (status?: number) => {
+  return status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429
+    && !isAuthFailure(status);
+};
+
+const sendQueuedCounts = async (): Promise<FlushResult> => {
+  const result: FlushResult = { synced: 0, rejected: [], held: [], duplicates: [], signInRequired: false };
+
+  for (const count of await getQueuedCounts()) {
+    try {
+      const response = await api.post('/counting-data', {
+        clientKey: count.clientKey,
+        sessionId: count.sessionId,
+        binNo: count.binNo,
+        qtyCountedWorker: count.qtyCountedWorker,
+        items: count.items,
+        countedAt: count.queuedAt
+      });
+      await removeQueuedCount(count.clientKey);
+      result.synced++;
+      if (response.data?.duplicate_of) {
+        result.duplicates.push(count);
+      }
+    } catch (err) {
+      const status = getErrorStatus(err);
+      const details = getErrorDetails(err);
+      // Real counts the server would not place; never dropped, and the rest still get their turn
+      if (details.some(detail => detail.code === 'session_closed')) {
+        const held = { count, error: getErrorMessage(err, 'Counting session has ended'), details, heldAt: new Date().toISOString() };
+        await holdQueuedCount(held);
+        result.held.push(held);
+        continue;
+      }
+      if (isAuthFailure(status)) {
+        // Usually a token that expired while offline; the counts replay after the next sign-in
+        result.signInRequired = true;
+        break;
+      }
+      if (!isPermanentFailure(status)) {
+        // Still offline or server unavailable; keep the rest queued in order
+        break;
+      }
+      await removeQueuedCount(count.clientKey);
+      result.rejected.push({
+        count,
+        error: getErrorMessage(err, 'Count was rejected by the server'),
+        details
+      });
+    }
+  }
+
+  return result;
+};
+
+// Send queued counts in the order they were confirmed; concurrent callers share one run
+export const flushQueue = (): Promise<FlushResult> => {
+  if (!flushPromise) {
+    flushPromise = sendQueuedCounts().finally(() => {
+      flushPromise = null;
+    });
+  }
+  return flushPromise;
+};
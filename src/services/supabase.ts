@@ -0,0 +1,21 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Used for Realtime subscriptions only; reads and writes go through the edge functions via `api`.
+// It never refreshes on its own: refresh tokens rotate, so only the `api` session may spend them
+export const supabase = createClient(
+  import.meta.env.VITE_SUPABASE_URL,
+  import.meta.env.VITE_SUPABASE_ANON_KEY,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+// Realtime applies RLS as the signed-in user, so the session from /user-management/login,
+// and each pair the `api` session refreshes to, must be handed over
+export const setRealtimeSession = async (accessToken: string, refreshToken: string) => {
+  const { error } = await supabase.auth.setSession({ access_token: accessToken, refresh_token: refreshToken });
+  if (error) throw error;
+};
+
+export const clearRealtimeSession = async () => {
+  await supabase.removeAllChannels();
+  await supabase.auth.signOut({ scope: 'local' });
+};
@@ -4,19 +4,86 @@ export interface User {
   role: 'admin' | 'vendor' | 'team_leader' | 'worker';
   password_hash: string;
   email?: string;
+  // Primary warehouse code; `warehouses` lists every assignment
   warehouse_name?: string;
+  warehouse_id?: string;
+  warehouses?: string[];
   vendor_id?: string;
   team_leader_id?: string;
   is_approved: boolean;
+  is_active: boolean;
+  created_by?: string;
+  approved_by?: string;
+  approved_at?: string;
+  deactivated_at?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface Warehouse {
+  id: string;
+  code: string;
+  name: string;
+  vendor_id?: string;
+  timezone: string;
+  // Local time the business day rolls over, e.g. 05:30:00
+  shift_cutoff: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WarehouseZone {
+  id: string;
+  warehouse_id: string;
+  // Set for aisles
+  parent_zone_id?: string;
+  code: string;
+  name: string;
+  created_at: string;
+}
+
 export interface BinMaster {
   id: string;
   bin_no: string;
   warehouse_name: string;
+  warehouse_id: string;
+  zone_id?: string;
+  // Left out for workers in blind counting mode
+  qty_as_per_books?: number;
+  unit_value?: number;
+  abc_class?: 'A' | 'B' | 'C';
+  campaign_id?: string;
+  // SKUs in the bin; empty for bins counted as a single quantity
+  contents?: BinContent[];
+  created_at: string;
+}
+
+export interface BinContent {
+  sku: string;
+  description?: string;
+  uom: string;
+  // Left out for workers in blind counting mode
+  qty_as_per_books?: number;
+}
+
+// A SKU's counted quantity as sent to the API
+export interface SkuCount {
+  sku: string;
+  qty: number;
+}
+
+export interface CountingDataItem {
+  id: string;
+  counting_data_id: string;
+  sku: string;
+  description?: string;
+  uom: string;
   qty_as_per_books: number;
+  qty_counted: number;
+  qty_second_count?: number;
+  qty_recounted_tl?: number;
+  difference: number;
   created_at: string;
 }
 
@@ -25,9 +92,19 @@ export interface CountingSession {
   worker_id: string;
   team_leader_id: string;
   warehouse_name: string;
+  business_date: string;
   start_time: string;
   end_time?: string;
   status: 'active' | 'completed';
+  campaign_id?: string;
+  blind_count: boolean;
+  require_second_count: boolean;
+  last_heartbeat_at: string;
+  // Set while the worker is on a break
+  break_started_at?: string | null;
+  end_reason?: 'worker' | 'team_leader' | 'timeout' | 'user_deactivated' | null;
+  ended_by?: string | null;
+  end_note?: string | null;
   created_at: string;
 }
 
@@ -44,6 +121,28 @@ export interface CountingData {
   qty_as_per_books: number;
   difference: number;
   reason_for_difference?: string;
+  recounted_by?: string;
+  recounted_at?: string;
+  approved_by?: string;
+  approved_at?: string;
+  is_locked: boolean;
+  client_key?: string;
+  campaign_id?: string;
+  duplicate_of?: string;
+  is_blind: boolean;
+  second_count_required: boolean;
+  awaiting_second_count: boolean;
+  qty_second_count?: number;
+  second_counted_by?: string;
+  second_counted_at?: string;
+  // Per-SKU counts; the quantities above are their totals
+  items?: CountingDataItem[];
+  has_item_variance: boolean;
+  // Set once the worker edits the count; the quantity they first confirmed
+  original_qty_counted?: number;
+  edited_at?: string;
+  // Own counts only: the worker can edit or void the count until then
+  editable_until?: string | null;
   created_at: string;
 }
 
@@ -55,26 +154,286 @@ export interface WorkerPerformance {
   no_of_bins_counted: number;
   no_of_qty_counted: number;
   time_taken_minutes: number;
+  bins_per_hour: number;
+  accuracy_rate: number;
   efficiency: number;
   ranking?: number;
+  computed_at?: string;
   created_at: string;
 }
 
+export interface WarehouseSettings {
+  warehouse_name: string;
+  target_bins_per_hour: number;
+  speed_weight: number;
+  accuracy_weight: number;
+  blind_count: boolean;
+  require_second_count: boolean;
+  session_timeout_minutes: number;
+  updated_at?: string;
+}
+
+export interface CountCampaign {
+  id: string;
+  name: string;
+  campaign_type: 'full' | 'cycle';
+  warehouse_name: string;
+  abc_class?: 'A' | 'B' | 'C';
+  status: 'open' | 'closed';
+  blind_count?: boolean | null;
+  require_second_count?: boolean | null;
+  created_by: string;
+  closed_by?: string;
+  closed_at?: string;
+  created_at: string;
+}
+
+export interface CampaignWorkerProgress {
+  worker_id?: string;
+  worker_user_id?: string;
+  uncounted: number;
+  counted: number;
+  recount: number;
+}
+
+export interface CampaignProgress {
+  total: number;
+  uncounted: number;
+  counted: number;
+  recount: number;
+  workers: CampaignWorkerProgress[];
+}
+
+export interface ReconciliationRow {
+  counting_data_id: string;
+  bin_id?: string;
+  bin_no: string;
+  counted_on: string;
+  username: string;
+  qty_as_per_books: number;
+  qty_counted: number;
+  qty_recounted_tl?: number;
+  final_qty: number;
+  difference: number;
+  unit_value: number;
+  variance_value: number;
+  reason_for_difference?: string;
+  is_locked: boolean;
+  current_books?: number;
+  posted: boolean;
+}
+
+export interface ReconciliationSummary {
+  bins: number;
+  binsWithVariance: number;
+  netVarianceQty: number;
+  netVarianceValue: number;
+  pendingApproval: number;
+  readyToPost: number;
+}
+
+export interface DashboardTotals {
+  workers: number;
+  activeSessions: number;
+  binsCounted: number;
+  qtyCounted: number;
+  variances: number;
+  openVariances: number;
+}
+
+export interface DashboardTeam extends DashboardTotals {
+  team_leader_id: string;
+  team_leader_user_id: string;
+  warehouse_name?: string;
+}
+
+export interface DashboardWorker {
+  worker_id: string;
+  worker_user_id: string;
+  team_leader_id?: string;
+  warehouse_name?: string;
+  session_active: boolean;
+  bins_counted: number;
+  qty_counted: number;
+  variances: number;
+  open_variances: number;
+  efficiency?: number;
+  ranking?: number;
+}
+
+export interface DashboardSummary {
+  date: string;
+  totals: DashboardTotals;
+  teams: DashboardTeam[];
+  workers: DashboardWorker[];
+}
+
+export interface PerformanceMetrics {
+  bins: number;
+  qty: number;
+  sessionHours: number;
+  binsPerHour: number;
+  accuracyRate: number;
+}
+
+export interface PerformancePoint extends PerformanceMetrics {
+  date: string;
+}
+
+export interface WorkerTrend extends PerformanceMetrics {
+  username: string;
+  series: PerformancePoint[];
+}
+
+export interface PerformanceTrends {
+  warehouse: string;
+  from: string;
+  to: string;
+  averages: PerformanceMetrics & { workers: number };
+  averageSeries: PerformancePoint[];
+  workers: WorkerTrend[];
+}
+
+export interface LiveSession {
+  session_id: string;
+  worker_id: string;
+  worker_user_id: string;
+  team_leader_id?: string;
+  vendor_id?: string;
+  start_time: string;
+  bins_counted: number;
+  last_count_at?: string;
+  efficiency?: number;
+  break_started_at?: string | null;
+  last_heartbeat_at: string;
+}
+
+export interface LiveBoardSnapshot {
+  warehouse: string;
+  generatedAt: string;
+  sessions: LiveSession[];
+  recentCounts: CountingData[];
+}
+
+export interface SecondCountTask {
+  id: string;
+  bin_no: string;
+  wh_name: string;
+  created_at: string;
+  items: Pick<CountingDataItem, 'sku' | 'description' | 'uom'>[];
+}
+
 export interface OTPRequest {
   id: string;
   worker_id: string;
   team_leader_id: string;
   otp_code: string;
   is_approved: boolean;
+  attempts: number;
+  approved_at?: string;
+  verified_at?: string;
   expires_at: string;
   created_at: string;
 }
 
+export interface ApiFieldError {
+  field: string;
+  code: string;
+  message: string;
+}
+
+// One entry of the hash-chained audit trail
 export interface AuditLog {
   id: string;
-  user_id: string;
+  seq: number;
+  user_id: string | null;
+  username: string | null;
+  actor_role: string | null;
   action: string;
-  details: string;
-  ip_address?: string;
+  warehouse_name: string | null;
+  details: Record<string, unknown>;
+  ip_address: string | null;
+  prev_hash: string | null;
+  hash: string;
   created_at: string;
-}
\ No newline at end of file
+}
+
+export interface AuditChainStatus {
+  valid: boolean;
+  checked: number;
+  firstBrokenSeq: number | null;
+  headSeq: number | null;
+  headHash: string | null;
+}
+export type AnomalyRule = 'exact_match' | 'quick_counts' | 'impossible_rate' | 'round_numbers' | 'variance_cluster';
+
+// A rule crossed by one worker or team leader on one warehouse day
+export interface AnomalyFlag {
+  id: string;
+  rule: AnomalyRule;
+  subject: string;
+  subject_role: 'worker' | 'team_leader';
+  vendor_id?: string;
+  wh_name: string;
+  date: string;
+  metric: number;
+  threshold: number;
+  // Summary figures per rule, plus the counts behind the flag
+  evidence: Record<string, unknown> & { counting_data_ids?: string[] };
+  status: 'open' | 'confirmed' | 'dismissed';
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_note?: string;
+  detected_at: string;
+}
+
+export interface AnomalyEvidence {
+  flag: AnomalyFlag;
+  counts: Pick<CountingData, 'id' | 'session_id' | 'bin_no' | 'username' | 'tl_name' | 'qty_counted' |
+    'qty_as_per_books' | 'qty_recounted_tl' | 'is_blind' | 'created_at'>[];
+}
+
+export interface AnomalyThresholds {
+  exact_match_rate: number;
+  exact_match_min_bins: number;
+  min_seconds_between_counts: number;
+  quick_count_limit: number;
+  max_bins_per_hour: number;
+  rate_min_bins: number;
+  round_number_share: number;
+  round_number_min_bins: number;
+  large_variance_qty: number;
+  variance_cluster_share: number;
+  variance_cluster_min: number;
+  // True while a vendor is still on the defaults
+  inherited: boolean;
+  updated_at?: string;
+}
+
+export type ReportTransport = 'smtp' | 'webhook' | 'file';
+
+export interface ReportSubscription {
+  // Null until the vendor first saves
+  id: string | null;
+  vendor_id: string;
+  // Warehouse local time, HH:MM:SS
+  send_at: string;
+  transport: ReportTransport;
+  recipients: string[];
+  webhook_url: string | null;
+  is_active: boolean;
+  updated_at?: string;
+}
+
+export interface ReportDelivery {
+  id: string;
+  subscription_id: string;
+  wh_name: string;
+  report_date: string;
+  transport: ReportTransport;
+  status: 'sent' | 'failed';
+  error: string | null;
+  // Set for test sends; scheduled deliveries have none
+  triggered_by: string | null;
+  created_at: string;
+}
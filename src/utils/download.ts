@@ -0,0 +1,9 @@
+// Save generated content (CSV exports, reports) as a browser download
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,25 @@
+import { ApiFieldError } from '../types';
+
+interface ApiErrorShape {
+  response?: {
+    data?: {
+      error?: string;
+      details?: ApiFieldError[];
+    };
+  };
+}
+
+// Prefer the edge function's error message over a generic fallback
+export const getErrorMessage = (err: unknown, fallback: string): string => {
+  return (err as ApiErrorShape)?.response?.data?.error || fallback;
+};
+
+// HTTP status of a failed API call, or undefined when the request never reached the server
+export const getErrorStatus = (err: unknown): number | undefined => {
+  return (err as { response?: { status?: number } })?.response?.status;
+};
+
+// Per-field validation errors returned alongside the message, if any
+export const getErrorDetails = (err: unknown): ApiFieldError[] => {
+  return (err as ApiErrorShape)?.response?.data?.details || [];
+};
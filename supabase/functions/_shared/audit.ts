@@ -0,0 +1,45 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { Caller } from './auth.ts'
+
+type Actor = Pick<Caller, 'id' | 'role' | 'warehouse_name'>
+
+const IPV4_PATTERN = /^(\d{1,3}\.){3}\d{1,3}$/
+const IPV6_PATTERN = /^[0-9A-Fa-f:.]{2,45}$/
+
+// The client address as set by the edge gateway; null if missing or malformed. Clients can send their
+// own X-Forwarded-For, so only its last entry, the one the gateway appended, is trusted
+export function clientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',').pop()
+  const ip = (req.headers.get('x-real-ip') || forwarded || '').trim()
+
+  if (IPV4_PATTERN.test(ip)) {
+    return ip.split('.').every(octet => Number(octet) <= 255) ? ip : null
+  }
+  return ip.includes(':') && IPV6_PATTERN.test(ip) ? ip : null
+}
+
+// Append an entry to the audit trail. The database chains it and stamps the time;
+// the warehouse defaults to the actor's own. A failed write never fails the request
+export async function audit(
+  supabase: SupabaseClient,
+  req: Request,
+  actor: Actor | null,
+  action: string,
+  details: Record<string, unknown>,
+  warehouse?: string | null
+) {
+  const { error } = await supabase
+    .from('audit_logs')
+    .insert({
+      user_id: actor?.id ?? null,
+      actor_role: actor?.role ?? null,
+      action,
+      details,
+      warehouse_name: warehouse === undefined ? actor?.warehouse_name ?? null : warehouse,
+      ip_address: clientIp(req)
+    })
+
+  if (error) {
+    console.error(`Failed to write ${action} audit entry: ${error.message}`)
+  }
+}
@@ -0,0 +1,169 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from './cors.ts'
+import { validationError } from './validation.ts'
+
+export interface Caller {
+  id: string
+  user_id: string
+  role: 'admin' | 'vendor' | 'team_leader' | 'worker'
+  warehouse_name: string | null
+  vendor_id: string | null
+  team_leader_id: string | null
+  is_approved: boolean
+  is_active: boolean
+}
+
+export interface AuthContext {
+  supabase: SupabaseClient
+  caller: Caller
+}
+
+interface AuthOptions {
+  // Reachable before the worker's OTP is verified; only the OTP function itself
+  allowPendingOtp?: boolean
+}
+
+interface ScopedUser {
+  id: string
+  vendor_id: string | null
+  team_leader_id: string | null
+}
+
+// Resolve the calling user's `users` row from the request JWT
+export async function getCaller(req: Request, supabase: SupabaseClient): Promise<Caller | null> {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    return null
+  }
+
+  const token = authHeader.replace('Bearer ', '')
+  const { data: { user }, error } = await supabase.auth.getUser(token)
+  if (error || !user) {
+    return null
+  }
+
+  const { data: caller } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  // Unapproved and deactivated accounts are treated as signed out
+  if (!caller || !caller.is_approved || caller.is_active === false) {
+    return null
+  }
+
+  return caller
+}
+
+// CORS preflight, JWT verification and error handling shared by every function.
+// A worker's token only reaches the OTP function until the OTP is verified
+export function withAuth(
+  handler: (req: Request, context: AuthContext) => Promise<Response>,
+  options: AuthOptions = {}
+) {
+  return async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders })
+    }
+
+    try {
+      const supabase = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      )
+
+      const caller = await getCaller(req, supabase)
+      if (!caller) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // Coded so the worker's screen can tell it apart from other refusals and open the OTP step
+      if (caller.role === 'worker' && !options.allowPendingOtp && !(await hasVerifiedOtp(supabase, caller.id))) {
+        return validationError([{ field: 'otp', code: 'otp_required', message: 'OTP verification required' }], 403)
+      }
+
+      return await handler(req, { supabase, caller })
+
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+  }
+}
+
+// Same hierarchy as the RLS policies: admins reach everyone, vendors their
+// team leaders and workers, team leaders their workers, everyone themselves
+export function canAccessUser(caller: Caller, user: ScopedUser) {
+  return caller.role === 'admin' ||
+    user.id === caller.id ||
+    (caller.role === 'vendor' && user.vendor_id === caller.id) ||
+    (caller.role === 'team_leader' && user.team_leader_id === caller.id)
+}
+
+// Only a session's own worker or team leader may write to it
+export function canWriteSession(caller: Caller, session: { worker_id: string, team_leader_id: string }) {
+  return session.worker_id === caller.id || session.team_leader_id === caller.id
+}
+
+// User IDs (`users.user_id`) whose counts and performance the caller may read; null means all
+export async function scopedUserIds(supabase: SupabaseClient, caller: Caller): Promise<string[] | null> {
+  if (caller.role === 'admin') return null
+  if (caller.role === 'worker') return [caller.user_id]
+
+  const { data } = await supabase
+    .from('users')
+    .select('user_id')
+    .eq(caller.role === 'vendor' ? 'vendor_id' : 'team_leader_id', caller.id)
+
+  return [caller.user_id, ...(data || []).map(user => user.user_id)]
+}
+
+// Warehouse codes the caller may read; null means all. Users reach the
+// warehouses they are assigned to, vendors also every warehouse they own
+export async function scopedWarehouses(supabase: SupabaseClient, caller: Caller): Promise<string[] | null> {
+  if (caller.role === 'admin') return null
+
+  const { data: assigned } = await supabase
+    .from('user_warehouses')
+    .select('warehouse:warehouses(code)')
+    .eq('user_id', caller.id)
+
+  const codes = (assigned || []).map(row => row.warehouse.code)
+
+  if (caller.role === 'vendor') {
+    const { data: owned } = await supabase
+      .from('warehouses')
+      .select('code')
+      .eq('vendor_id', caller.id)
+
+    codes.push(...(owned || []).map(warehouse => warehouse.code))
+  }
+
+  return [...new Set([caller.warehouse_name, ...codes])]
+    .filter((warehouse): warehouse is string => !!warehouse)
+}
+
+export async function canAccessWarehouse(supabase: SupabaseClient, caller: Caller, warehouse: string) {
+  const warehouses = await scopedWarehouses(supabase, caller)
+  return warehouses === null || warehouses.includes(warehouse)
+}
+
+// Workers must have a team-leader-approved OTP verified within the window
+export async function hasVerifiedOtp(supabase: SupabaseClient, workerId: string, windowHours = 12) {
+  const since = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString()
+
+  const { data } = await supabase
+    .from('otp_requests')
+    .select('id')
+    .eq('worker_id', workerId)
+    .gte('verified_at', since)
+    .limit(1)
+
+  return (data || []).length > 0
+}
@@ -0,0 +1,40 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { Caller } from './auth.ts'
+
+export interface BlindMode {
+  blindCount: boolean
+  requireSecondCount: boolean
+}
+
+// Fields that reveal the book quantity to whoever is counting
+const BOOK_FIELDS = ['qty_as_per_books', 'difference', 'unit_value']
+
+// Campaign override first, then the warehouse default
+export async function getBlindMode(supabase: SupabaseClient, warehouse: string, campaignId?: string | null): Promise<BlindMode> {
+  const { data, error } = await supabase
+    .rpc('resolve_blind_count', { p_warehouse_name: warehouse, p_campaign_id: campaignId ?? null })
+    .single()
+
+  if (error) throw error
+  return { blindCount: data.blind_count, requireSecondCount: data.require_second_count }
+}
+
+// Embedded per-SKU rows carry their own book quantities
+const NESTED_FIELDS = ['items', 'contents']
+
+// Workers never receive book quantities for blind counts; everyone else sees the full row
+export function hideBooks<T extends Record<string, unknown>>(caller: Caller, row: T, blind: boolean): T {
+  if (!blind || caller.role !== 'worker') return row
+
+  const hidden: Record<string, unknown> = { ...row }
+  for (const field of BOOK_FIELDS) {
+    delete hidden[field]
+  }
+  for (const field of NESTED_FIELDS) {
+    const nested = hidden[field]
+    if (Array.isArray(nested)) {
+      hidden[field] = nested.map(item => hideBooks(caller, item, blind))
+    }
+  }
+  return hidden as T
+}
@@ -0,0 +1,75 @@
+export interface CsvRow {
+  line: number
+  values: string[]
+}
+
+// RFC 4180 parser that remembers the line each record starts on
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = []
+  let values: string[] = []
+  let field = ''
+  let inQuotes = false
+  let line = 1
+  let rowLine = 1
+
+  const pushRow = () => {
+    values.push(field)
+    if (values.length > 1 || values[0].trim() !== '') {
+      rows.push({ line: rowLine, values })
+    }
+    values = []
+    field = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      values.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      pushRow()
+      line++
+      rowLine = line
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || values.length > 0) {
+    pushRow()
+  }
+
+  return rows
+}
+
+// Text a spreadsheet would run as a formula is quoted with a leading apostrophe; numbers, including negative ones, are left alone
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const escapeCsvValue = (value: unknown) => {
+  let text = value === null || value === undefined ? '' : String(value)
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,13 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// A warehouse's business date (YYYY-MM-DD) at an instant, from its timezone
+// and shift cutoff; without a warehouse there is nothing to go on but UTC
+export async function businessDate(supabase: SupabaseClient, warehouse: string | null, at = new Date()): Promise<string> {
+  if (!warehouse) return at.toISOString().split('T')[0]
+
+  const { data, error } = await supabase
+    .rpc('business_date', { p_warehouse_name: warehouse, p_at: at.toISOString() })
+
+  if (error) throw error
+  return data
+}
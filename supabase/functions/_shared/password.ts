@@ -0,0 +1,22 @@
+import * as bcrypt from 'https://deno.land/x/bcrypt@v0.4.1/mod.ts'
+
+export const MIN_PASSWORD_LENGTH = 8
+
+// The edge runtime has no Worker support, so use the synchronous variants
+export function hashPassword(password: string) {
+  return bcrypt.hashSync(password, bcrypt.genSaltSync(10))
+}
+
+export function verifyPassword(password: string, hash: string) {
+  try {
+    return bcrypt.compareSync(password, hash)
+  } catch {
+    // Placeholder or malformed hashes never match
+    return false
+  }
+}
+
+// Supabase Auth needs an email; accounts sign in by user ID instead
+export function authEmailFor(userId: string) {
+  return `${userId.toLowerCase()}@users.warehouse.local`
+}
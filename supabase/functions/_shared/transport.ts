@@ -0,0 +1,189 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+export interface ReportMessage {
+  subject: string
+  html: string
+  attachment: {
+    filename: string
+    contentType: string
+    content: string
+  }
+  // Structured copy of the report for machine consumers (webhooks)
+  data: Record<string, unknown>
+}
+
+// Where a subscription sends; each transport reads the fields it needs
+export interface DeliveryTarget {
+  recipients: string[]
+  webhook_url: string | null
+}
+
+export interface ReportTransport {
+  send(message: ReportMessage, target: DeliveryTarget): Promise<void>
+}
+
+// SMTP_SECURITY is `tls` (implicit, usually 465), `starttls` (usually 587) or `none` for a local
+// mail catcher such as Mailpit on 1025. Credentials are optional for the same reason
+const smtp: ReportTransport = {
+  async send(message, target) {
+    const hostname = Deno.env.get('SMTP_HOST')
+    const from = Deno.env.get('SMTP_FROM')
+    if (!hostname || !from) throw new Error('SMTP_HOST and SMTP_FROM must be set to send by email')
+
+    const security = Deno.env.get('SMTP_SECURITY') ?? 'starttls'
+    const username = Deno.env.get('SMTP_USER')
+
+    const client = new SMTPClient({
+      connection: {
+        hostname,
+        port: Number(Deno.env.get('SMTP_PORT') ?? (security === 'tls' ? 465 : 587)),
+        tls: security === 'tls',
+        auth: username ? { username, password: Deno.env.get('SMTP_PASS') ?? '' } : undefined
+      },
+      debug: {
+        allowUnsecure: security === 'none',
+        noStartTLS: security === 'none'
+      }
+    })
+
+    try {
+      await client.send({
+        from,
+        to: target.recipients,
+        subject: message.subject,
+        html: message.html,
+        attachments: [{
+          filename: message.attachment.filename,
+          contentType: message.attachment.contentType,
+          encoding: 'text',
+          content: message.attachment.content
+        }]
+      })
+    } finally {
+      await client.close()
+    }
+  }
+}
+
+const isPrivateIpv4 = (address: string) => {
+  const [a, b] = address.split('.').map(Number)
+  return a === 0 || a === 10 || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || a >= 224
+}
+
+const isPrivateIpv6 = (address: string) => {
+  const lower = address.toLowerCase()
+  // IPv4-mapped; URL parsing writes the IPv4 part as two hex groups
+  const mapped = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)]
+    return isPrivateIpv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+  }
+  const dotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) return isPrivateIpv4(dotted[1])
+  return lower === '::' || lower === '::1'
+    || /^f[cd]/.test(lower)
+    || /^fe[89ab]/.test(lower)
+    || lower.startsWith('ff')
+}
+
+const isPrivateAddress = (address: string) =>
+  /^\d+\.\d+\.\d+\.\d+$/.test(address) ? isPrivateIpv4(address) : address.includes(':') && isPrivateIpv6(address)
+
+// Why a webhook URL may not be used, or null when it may. Reports leave the platform, so only
+// https to a public host: never loopback, private, link-local or cloud metadata addresses
+export function webhookUrlProblem(value: string): string | null {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'webhookUrl must be a URL'
+  }
+
+  if (url.protocol !== 'https:') return 'webhookUrl must use https'
+  if (url.username || url.password) return 'webhookUrl must not contain credentials'
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host) || (!host.includes('.') && !host.includes(':'))) {
+    return 'webhookUrl must point to a public host'
+  }
+  if (isPrivateAddress(host)) return 'webhookUrl must point to a public address'
+  return null
+}
+
+// A public name can still resolve to an internal address, so the check is repeated on every send
+async function assertPublicHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, '')
+  if (isPrivateAddress(host)) throw new Error('Webhook host resolves to a private address')
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host) || host.includes(':')) return
+
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')])
+  const addresses = lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : [])
+  if (addresses.length === 0) throw new Error(`Webhook host ${host} does not resolve`)
+  if (addresses.some(isPrivateAddress)) throw new Error('Webhook host resolves to a private address')
+}
+
+// Signed with REPORT_WEBHOOK_SECRET, when set, so the receiver can check the sender
+const webhook: ReportTransport = {
+  async send(message, target) {
+    if (!target.webhook_url) throw new Error('No webhook URL configured')
+
+    // Subscriptions saved before the URL rules are held to them too
+    const problem = webhookUrlProblem(target.webhook_url)
+    if (problem) throw new Error(problem)
+    await assertPublicHost(new URL(target.webhook_url).hostname)
+
+    const body = JSON.stringify(message)
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+
+    const secret = Deno.env.get('REPORT_WEBHOOK_SECRET')
+    if (secret) {
+      const key = await crypto.subtle.importKey(
+        'raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+      )
+      const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body))
+      headers['X-Report-Signature'] = Array.from(new Uint8Array(signature))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('')
+    }
+
+    const response = await fetch(target.webhook_url, {
+      method: 'POST',
+      headers,
+      body,
+      // A redirect could lead anywhere, including back inside
+      redirect: 'manual',
+      signal: AbortSignal.timeout(15000)
+    })
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status} ${response.statusText}`)
+    }
+  }
+}
+
+// Writes the HTML and the CSV side by side into REPORT_DROP_DIR, for pickup by another system
+const file: ReportTransport = {
+  async send(message) {
+    const dir = Deno.env.get('REPORT_DROP_DIR')
+    if (!dir) throw new Error('REPORT_DROP_DIR must be set to deliver to a file drop')
+
+    const base = message.attachment.filename.replace(/\.[^.]+$/, '')
+    await Deno.mkdir(dir, { recursive: true })
+    await Deno.writeTextFile(`${dir}/${base}.html`, message.html)
+    await Deno.writeTextFile(`${dir}/${message.attachment.filename}`, message.attachment.content)
+  }
+}
+
+const TRANSPORTS: Record<string, ReportTransport> = { smtp, webhook, file }
+
+export const TRANSPORT_NAMES = Object.keys(TRANSPORTS)
+
+export function getTransport(name: string): ReportTransport {
+  const transport = TRANSPORTS[name]
+  if (!transport) throw new Error(`Unknown transport: ${name}`)
+  return transport
+}
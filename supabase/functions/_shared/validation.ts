@@ -0,0 +1,29 @@
+import { corsHeaders } from './cors.ts'
+
+export interface FieldError {
+  field: string
+  code: string
+  message: string
+}
+
+// Structured errors the UI can map back onto its inputs
+export function validationError(details: FieldError[], status = 422) {
+  return new Response(JSON.stringify({ error: details.map(detail => detail.message).join('; '), details }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+// A JSON object body, or null when it is missing, malformed or not an object
+export async function readJsonBody(req: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await req.json()
+    return body !== null && typeof body === 'object' && !Array.isArray(body) ? body : null
+  } catch {
+    return null
+  }
+}
+
+export function invalidBodyError() {
+  return validationError([{ field: 'body', code: 'invalid_body', message: 'Request body must be a JSON object' }], 400)
+}
@@ -0,0 +1,292 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { withAuth, canAccessWarehouse } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { validationError, FieldError } from '../_shared/validation.ts'
+import { audit } from '../_shared/audit.ts'
+
+const PAGE_SIZE = 1000
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const RULES = ['exact_match', 'quick_counts', 'impossible_rate', 'round_numbers', 'variance_cluster']
+const STATUSES = ['open', 'confirmed', 'dismissed']
+
+// Request field, column and the range it must fall in; shares are fractions of 1
+const THRESHOLD_FIELDS = [
+  { field: 'exactMatchRate', column: 'exact_match_rate', integer: false, min: 0.5, max: 1 },
+  { field: 'exactMatchMinBins', column: 'exact_match_min_bins', integer: true, min: 1, max: 10000 },
+  { field: 'minSecondsBetweenCounts', column: 'min_seconds_between_counts', integer: true, min: 1, max: 600 },
+  { field: 'quickCountLimit', column: 'quick_count_limit', integer: true, min: 1, max: 10000 },
+  { field: 'maxBinsPerHour', column: 'max_bins_per_hour', integer: false, min: 1, max: 100000 },
+  { field: 'rateMinBins', column: 'rate_min_bins', integer: true, min: 1, max: 10000 },
+  { field: 'roundNumberShare', column: 'round_number_share', integer: false, min: 0.05, max: 1 },
+  { field: 'roundNumberMinBins', column: 'round_number_min_bins', integer: true, min: 1, max: 10000 },
+  { field: 'largeVarianceQty', column: 'large_variance_qty', integer: true, min: 1, max: 1000000 },
+  { field: 'varianceClusterShare', column: 'variance_cluster_share', integer: false, min: 0.05, max: 1 },
+  { field: 'varianceClusterMin', column: 'variance_cluster_min', integer: true, min: 1, max: 10000 }
+]
+
+serve(withAuth(async (req, { supabase, caller }) => {
+  // Flags judge workers and team leaders, so only the auditing side sees them
+  if (caller.role !== 'admin' && caller.role !== 'vendor') {
+    return new Response(JSON.stringify({ error: 'Only vendors and admins can review anomalies' }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  const url = new URL(req.url)
+  const method = req.method
+  const pathParts = url.pathname.split('/')
+
+  // A vendor's limits, or the defaults for vendors who have none. Admins edit the defaults
+  // unless they name a vendor
+  if (pathParts.includes('thresholds')) {
+    const vendorId = caller.role === 'vendor' ? caller.id : url.searchParams.get('vendor')
+
+    // It ends up inside a filter string, so an admin's pick must be a vendor's id and nothing else
+    if (caller.role === 'admin' && vendorId) {
+      const { data: vendor } = UUID_PATTERN.test(vendorId)
+        ? await supabase.from('users').select('id').eq('id', vendorId).eq('role', 'vendor').maybeSingle()
+        : { data: null }
+
+      if (!vendor) {
+        return validationError([{ field: 'vendor', code: 'unknown_vendor', message: 'vendor must be the id of a vendor' }])
+      }
+    }
+
+    const { data: rows, error } = await supabase
+      .from('anomaly_thresholds')
+      .select('*')
+      .or(vendorId ? `vendor_id.eq.${vendorId},vendor_id.is.null` : 'vendor_id.is.null')
+
+    if (error) throw error
+
+    const own = rows.find(row => row.vendor_id === vendorId && vendorId !== null)
+    const current = own || rows.find(row => row.vendor_id === null)
+
+    if (method === 'GET') {
+      return new Response(JSON.stringify({ ...current, inherited: !!vendorId && !own }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (method === 'PUT') {
+      const body = await req.json()
+      const errors: FieldError[] = []
+      const changes: Record<string, { from: unknown, to: number }> = {}
+
+      for (const { field, column, integer, min, max } of THRESHOLD_FIELDS) {
+        const value = body[field]
+        if (value === undefined) continue
+
+        if (typeof value !== 'number' || (integer && !Number.isInteger(value)) || value < min || value > max) {
+          errors.push({
+            field,
+            code: 'out_of_range',
+            message: `${field} must be ${integer ? 'a whole number ' : ''}between ${min} and ${max}`
+          })
+        } else if (Number(current[column]) !== value) {
+          changes[column] = { from: current[column], to: value }
+        }
+      }
+      if (errors.length > 0) return validationError(errors)
+
+      // A vendor's first change starts their own row from the defaults
+      const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+      for (const { column } of THRESHOLD_FIELDS) {
+        updates[column] = column in changes ? changes[column].to : current[column]
+      }
+
+      const { data, error: saveError } = own || !vendorId
+        ? await supabase.from('anomaly_thresholds').update(updates).eq('id', current.id).select().single()
+        : await supabase.from('anomaly_thresholds').insert({ ...updates, vendor_id: vendorId }).select().single()
+
+      if (saveError) {
+        return new Response(JSON.stringify({ error: saveError.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await audit(supabase, req, caller, 'UPDATE_ANOMALY_THRESHOLDS', { vendor_id: vendorId, changes }, null)
+
+      return new Response(JSON.stringify({ ...data, inherited: false }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+  }
+
+  // Re-run the rules for a warehouse's day, e.g. after recounts, without waiting for the nightly run
+  if (method === 'POST' && pathParts.includes('detect')) {
+    const { warehouse, date } = await req.json()
+
+    const errors: FieldError[] = []
+    if (!warehouse) errors.push({ field: 'warehouse', code: 'required', message: 'Warehouse is required' })
+    if (!date || !DATE_PATTERN.test(date)) {
+      errors.push({ field: 'date', code: 'invalid_date', message: 'date must be a date (YYYY-MM-DD)' })
+    }
+    if (errors.length > 0) return validationError(errors)
+
+    if (!(await canAccessWarehouse(supabase, caller, warehouse))) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: flagged, error } = await supabase.rpc('detect_anomalies', { p_wh_name: warehouse, p_date: date })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, 'DETECT_ANOMALIES', { date, flagged }, warehouse)
+
+    return new Response(JSON.stringify({ flagged }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Single-flag routes: /anomalies/:id/evidence and /anomalies/:id/review
+  if (pathParts.includes('evidence') || pathParts.includes('review')) {
+    const flagId = pathParts[pathParts.length - 2]
+
+    let flagQuery = supabase
+      .from('anomaly_flags')
+      .select('*')
+      .eq('id', flagId)
+
+    if (caller.role === 'vendor') {
+      flagQuery = flagQuery.eq('vendor_id', caller.id)
+    }
+
+    const { data: flag } = await flagQuery.maybeSingle()
+
+    if (!flag) {
+      return new Response(JSON.stringify({ error: 'Flag not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // The counts behind the flag, oldest first
+    if (method === 'GET' && pathParts.includes('evidence')) {
+      const ids: string[] = flag.evidence.counting_data_ids || []
+
+      const { data: counts, error } = ids.length > 0
+        ? await supabase
+            .from('counting_data')
+            .select('id, session_id, bin_no, username, tl_name, qty_counted, qty_as_per_books, qty_recounted_tl, is_blind, created_at')
+            .in('id', ids)
+            .order('created_at')
+        : { data: [], error: null }
+
+      if (error) throw error
+
+      return new Response(JSON.stringify({ flag, counts }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (method === 'PUT' && pathParts.includes('review')) {
+      const { status, note } = await req.json()
+
+      if (status !== 'confirmed' && status !== 'dismissed') {
+        return validationError([
+          { field: 'status', code: 'invalid_status', message: 'status must be confirmed or dismissed' }
+        ])
+      }
+
+      const { data, error } = await supabase
+        .from('anomaly_flags')
+        .update({
+          status,
+          review_note: typeof note === 'string' && note.trim() ? note.trim() : null,
+          reviewed_by: caller.id,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', flagId)
+        .select()
+        .single()
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await audit(supabase, req, caller, 'REVIEW_ANOMALY', {
+        flag_id: flagId,
+        rule: flag.rule,
+        subject: flag.subject,
+        date: flag.date,
+        from: flag.status,
+        to: status,
+        note: data.review_note
+      }, flag.wh_name)
+
+      return new Response(JSON.stringify(data), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+  }
+
+  // Review queue, newest day first
+  if (method === 'GET') {
+    const warehouse = url.searchParams.get('warehouse')
+    const status = url.searchParams.get('status')
+    const rule = url.searchParams.get('rule')
+    const from = url.searchParams.get('from')
+    const to = url.searchParams.get('to')
+
+    const errors: FieldError[] = []
+    if (status && !STATUSES.includes(status)) {
+      errors.push({ field: 'status', code: 'invalid_status', message: `status must be one of ${STATUSES.join(', ')}` })
+    }
+    if (rule && !RULES.includes(rule)) {
+      errors.push({ field: 'rule', code: 'invalid_rule', message: `rule must be one of ${RULES.join(', ')}` })
+    }
+    for (const [field, value] of [['from', from], ['to', to]]) {
+      if (value && !DATE_PATTERN.test(value)) {
+        errors.push({ field: field as string, code: 'invalid_date', message: `${field} must be a date (YYYY-MM-DD)` })
+      }
+    }
+    if (errors.length > 0) return validationError(errors)
+
+    let query = supabase
+      .from('anomaly_flags')
+      .select('*')
+      .order('date', { ascending: false })
+      .order('detected_at', { ascending: false })
+      .limit(PAGE_SIZE)
+
+    if (caller.role === 'vendor') query = query.eq('vendor_id', caller.id)
+    if (warehouse) query = query.eq('wh_name', warehouse)
+    if (status) query = query.eq('status', status)
+    if (rule) query = query.eq('rule', rule)
+    if (from) query = query.gte('date', from)
+    if (to) query = query.lte('date', to)
+
+    const { data, error } = await query
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify(data), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    status: 405,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}))
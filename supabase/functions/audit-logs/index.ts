@@ -0,0 +1,166 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { withAuth } from '../_shared/auth.ts'
+import { toCsv } from '../_shared/csv.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { validationError, FieldError } from '../_shared/validation.ts'
+
+const PAGE_SIZE = 1000
+const LIST_PAGE_SIZE = 100
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+interface AuditFilters {
+  p_user_id: string | null
+  p_action: string | null
+  p_warehouse_name: string | null
+  p_from: string | null
+  p_to: string | null
+  p_search: string | null
+}
+
+// One row of `search_audit_logs`
+interface AuditRow {
+  id: string
+  seq: number
+  created_at: string
+  user_id: string | null
+  username: string | null
+  actor_role: string | null
+  action: string
+  warehouse_name: string | null
+  ip_address: string | null
+  details: Record<string, unknown>
+  prev_hash: string | null
+  hash: string
+}
+
+interface ChainCheck {
+  checked: number
+  first_broken_seq: number | null
+  head_seq: number | null
+  head_hash: string | null
+}
+
+const EXPORT_COLUMNS: (keyof AuditRow)[] = [
+  'seq', 'created_at', 'username', 'actor_role', 'action', 'warehouse_name', 'ip_address', 'details', 'prev_hash', 'hash'
+]
+
+function parseFilters(params: URLSearchParams) {
+  const filters: AuditFilters = {
+    p_user_id: params.get('user')?.trim() || null,
+    p_action: params.get('action') || null,
+    p_warehouse_name: params.get('warehouse') || null,
+    p_from: params.get('from') || null,
+    p_to: params.get('to') || null,
+    p_search: params.get('q')?.trim() || null
+  }
+
+  const errors: FieldError[] = []
+  for (const field of ['from', 'to'] as const) {
+    const value = filters[field === 'from' ? 'p_from' : 'p_to']
+    if (value && !DATE_PATTERN.test(value)) {
+      errors.push({ field, code: 'invalid_date', message: `${field} must be a date (YYYY-MM-DD)` })
+    }
+  }
+  return { filters, errors }
+}
+
+// Pages by seq, not offset, so the last page of a long trail is as cheap as the first
+async function fetchAll(supabase: SupabaseClient, filters: AuditFilters) {
+  const rows: AuditRow[] = []
+  let beforeSeq: number | null = null
+  for (;;) {
+    const { data, error } = await supabase
+      .rpc('search_audit_logs', { ...filters, p_before_seq: beforeSeq })
+      .limit(PAGE_SIZE)
+
+    if (error) throw error
+    rows.push(...data)
+    if (data.length < PAGE_SIZE) return rows
+    beforeSeq = data[data.length - 1].seq
+  }
+}
+
+serve(withAuth(async (req, { supabase, caller }) => {
+  // The trail covers every warehouse and account, so it stays with admins
+  if (caller.role !== 'admin') {
+    return new Response(JSON.stringify({ error: 'Only admins can read the audit trail' }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (req.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  const url = new URL(req.url)
+  const pathParts = url.pathname.split('/')
+
+  // Recompute every hash; the head is what auditors keep to spot entries cut from the end
+  if (pathParts.includes('verify')) {
+    const { data, error } = await supabase.rpc('verify_audit_chain').single<ChainCheck>()
+    if (error) throw error
+
+    return new Response(JSON.stringify({
+      valid: data.first_broken_seq === null,
+      checked: data.checked,
+      firstBrokenSeq: data.first_broken_seq,
+      headSeq: data.head_seq,
+      headHash: data.head_hash
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (pathParts.includes('actions')) {
+    const { data, error } = await supabase.rpc('audit_log_actions')
+    if (error) throw error
+
+    return new Response(JSON.stringify(data), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  const { filters, errors } = parseFilters(url.searchParams)
+  if (errors.length > 0) return validationError(errors)
+
+  if (pathParts.includes('export')) {
+    const rows = await fetchAll(supabase, filters)
+    const csv = toCsv(EXPORT_COLUMNS, rows.map(row => EXPORT_COLUMNS.map(column =>
+      column === 'details' ? JSON.stringify(row.details) : row[column])))
+
+    return new Response(csv, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="audit_log_${new Date().toISOString().slice(0, 10)}.csv"`
+      }
+    })
+  }
+
+  // Newest first, one extra row to tell whether another page follows
+  const page = Math.max(parseInt(url.searchParams.get('page') || '1', 10) || 1, 1)
+  const offset = (page - 1) * LIST_PAGE_SIZE
+  const { data, error } = await supabase
+    .rpc('search_audit_logs', filters)
+    .range(offset, offset + LIST_PAGE_SIZE)
+
+  if (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  return new Response(JSON.stringify({
+    rows: data.slice(0, LIST_PAGE_SIZE),
+    page,
+    hasMore: data.length > LIST_PAGE_SIZE
+  }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}))
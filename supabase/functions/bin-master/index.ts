@@ -0,0 +1,585 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { withAuth, canAccessWarehouse } from '../_shared/auth.ts'
+import { parseCsv, toCsv } from '../_shared/csv.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getBlindMode, hideBooks } from '../_shared/blind.ts'
+import { audit } from '../_shared/audit.ts'
+
+const IMPORT_COLUMNS = ['bin_no', 'warehouse_name', 'qty_as_per_books']
+const CONTENTS_COLUMNS = ['bin_no', 'warehouse_name', 'sku', 'description', 'uom', 'qty_as_per_books']
+const SKU_MAX_LENGTH = 100
+const PAGE_SIZE = 1000
+// Deletes go by id in the query string, so keep batches short
+const DELETE_BATCH_SIZE = 200
+const DIFF_PREVIEW_LIMIT = 500
+
+interface ImportRow {
+  line: number
+  bin_no: string
+  warehouse_name: string
+  qty_as_per_books: number
+}
+
+interface ExistingBin {
+  id: string
+  bin_no: string
+  warehouse_name: string
+  qty_as_per_books: number
+  contents: { count: number }[]
+}
+
+interface ContentsRow {
+  line: number
+  bin_no: string
+  warehouse_name: string
+  sku: string
+  description: string | null
+  uom: string
+  qty_as_per_books: number
+}
+
+interface ExistingContent {
+  id: string
+  bin_id: string
+  sku: string
+  description: string | null
+  uom: string
+  qty_as_per_books: number
+  bin: { bin_no: string, warehouse_name: string }
+}
+
+// PostgREST caps each response, so page through large warehouses
+async function fetchBins(supabase: SupabaseClient, warehouses: string[]) {
+  const bins: ExistingBin[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('bin_master')
+      .select('id, bin_no, warehouse_name, qty_as_per_books, contents:bin_contents(count)')
+      .in('warehouse_name', warehouses)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    bins.push(...data)
+    if (data.length < PAGE_SIZE) return bins
+  }
+}
+
+async function fetchContents(supabase: SupabaseClient, warehouses: string[]) {
+  const contents: ExistingContent[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('bin_contents')
+      .select('id, bin_id, sku, description, uom, qty_as_per_books, bin:bin_master!inner(bin_no, warehouse_name)')
+      .in('bin.warehouse_name', warehouses)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    contents.push(...data)
+    if (data.length < PAGE_SIZE) return contents
+  }
+}
+
+const binKey = (binNo: string, warehouse: string) => `${warehouse}\u0000${binNo}`
+const contentKey = (binNo: string, warehouse: string, sku: string) => `${binKey(binNo, warehouse)}\u0000${sku}`
+
+function validateImport(csv: string) {
+  const errors: { line: number, message: string }[] = []
+  const rows: ImportRow[] = []
+  const records = parseCsv(csv.replace(/^\uFEFF/, ''))
+
+  if (records.length === 0) {
+    return { rows, errors: [{ line: 1, message: 'File is empty' }] }
+  }
+
+  const header = records[0].values.map(value => value.trim().toLowerCase())
+  const columnIndex = IMPORT_COLUMNS.map(column => header.indexOf(column))
+  const missing = IMPORT_COLUMNS.filter((_, i) => columnIndex[i] === -1)
+  if (missing.length > 0) {
+    return { rows, errors: [{ line: records[0].line, message: `Missing columns: ${missing.join(', ')}` }] }
+  }
+
+  const seen = new Map<string, number>()
+  for (const record of records.slice(1)) {
+    const [binNo, warehouse, qtyText] = columnIndex.map(index => (record.values[index] ?? '').trim())
+    const rowErrors: string[] = []
+
+    if (!binNo) rowErrors.push('bin_no is required')
+    if (!warehouse) rowErrors.push('warehouse_name is required')
+    if (!/^\d+$/.test(qtyText)) rowErrors.push(`qty_as_per_books must be a non-negative integer (got "${qtyText}")`)
+
+    const key = binKey(binNo, warehouse)
+    if (binNo && warehouse && seen.has(key)) {
+      rowErrors.push(`Duplicate of line ${seen.get(key)}`)
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ line: record.line, message: rowErrors.join('; ') })
+      continue
+    }
+
+    seen.set(key, record.line)
+    rows.push({
+      line: record.line,
+      bin_no: binNo,
+      warehouse_name: warehouse,
+      qty_as_per_books: parseInt(qtyText)
+    })
+  }
+
+  return { rows, errors }
+}
+
+// One row per SKU; description and uom may be blank
+function validateContentsImport(csv: string) {
+  const errors: { line: number, message: string }[] = []
+  const rows: ContentsRow[] = []
+  const records = parseCsv(csv.replace(/^\uFEFF/, ''))
+
+  if (records.length === 0) {
+    return { rows, errors: [{ line: 1, message: 'File is empty' }] }
+  }
+
+  const header = records[0].values.map(value => value.trim().toLowerCase())
+  const columnIndex = CONTENTS_COLUMNS.map(column => header.indexOf(column))
+  const missing = CONTENTS_COLUMNS.filter((_, i) => columnIndex[i] === -1)
+  if (missing.length > 0) {
+    return { rows, errors: [{ line: records[0].line, message: `Missing columns: ${missing.join(', ')}` }] }
+  }
+
+  const seen = new Map<string, number>()
+  for (const record of records.slice(1)) {
+    const [binNo, warehouse, sku, description, uom, qtyText] = columnIndex.map(index => (record.values[index] ?? '').trim())
+    const rowErrors: string[] = []
+
+    if (!binNo) rowErrors.push('bin_no is required')
+    if (!warehouse) rowErrors.push('warehouse_name is required')
+    if (!sku) rowErrors.push('sku is required')
+    if (sku.length > SKU_MAX_LENGTH) rowErrors.push(`sku must be at most ${SKU_MAX_LENGTH} characters`)
+    if (!/^\d+$/.test(qtyText)) rowErrors.push(`qty_as_per_books must be a non-negative integer (got "${qtyText}")`)
+
+    const key = contentKey(binNo, warehouse, sku)
+    if (binNo && warehouse && sku && seen.has(key)) {
+      rowErrors.push(`Duplicate of line ${seen.get(key)}`)
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ line: record.line, message: rowErrors.join('; ') })
+      continue
+    }
+
+    seen.set(key, record.line)
+    rows.push({
+      line: record.line,
+      bin_no: binNo,
+      warehouse_name: warehouse,
+      sku,
+      description: description || null,
+      uom: uom || 'EA',
+      qty_as_per_books: parseInt(qtyText)
+    })
+  }
+
+  return { rows, errors }
+}
+
+serve(withAuth(async (req, { supabase, caller }) => {
+  const url = new URL(req.url)
+  const method = req.method
+  const pathParts = url.pathname.split('/')
+
+  // Validate a SKU contents upload and diff it against the current contents of the bins it lists
+  if (method === 'POST' && pathParts.includes('contents') && pathParts.includes('import')) {
+    if (caller.role !== 'admin') {
+      return new Response(JSON.stringify({ error: 'Only admins can import bin contents' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { csv, mode = 'upsert', dryRun = true } = await req.json()
+
+    if (typeof csv !== 'string' || !['upsert', 'replace'].includes(mode)) {
+      return new Response(JSON.stringify({ error: 'csv text and a mode of upsert or replace are required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { rows: parsedRows, errors } = validateContentsImport(csv)
+
+    // SKUs go into bins that already exist; bins themselves come from the bin master import
+    const warehouses = [...new Set(parsedRows.map(row => row.warehouse_name))]
+    const bins = warehouses.length > 0 ? await fetchBins(supabase, warehouses) : []
+    const binsByKey = new Map(bins.map(bin => [binKey(bin.bin_no, bin.warehouse_name), bin]))
+    const rows = parsedRows.filter(row => {
+      if (binsByKey.has(binKey(row.bin_no, row.warehouse_name))) return true
+      errors.push({ line: row.line, message: `Unknown bin ${row.bin_no} in ${row.warehouse_name}` })
+      return false
+    })
+    errors.sort((a, b) => a.line - b.line)
+
+    const existing = warehouses.length > 0 ? await fetchContents(supabase, warehouses) : []
+    const existingByKey = new Map(existing.map(content => [contentKey(content.bin.bin_no, content.bin.warehouse_name, content.sku), content]))
+
+    const inserted: ContentsRow[] = []
+    const updated: { bin_no: string, warehouse_name: string, sku: string, before: number, after: number }[] = []
+    const changedRows: ContentsRow[] = []
+    let unchanged = 0
+    for (const row of rows) {
+      const current = existingByKey.get(contentKey(row.bin_no, row.warehouse_name, row.sku))
+      if (!current) {
+        inserted.push(row)
+        changedRows.push(row)
+      } else if (current.qty_as_per_books !== row.qty_as_per_books || current.description !== row.description || current.uom !== row.uom) {
+        updated.push({
+          bin_no: row.bin_no,
+          warehouse_name: row.warehouse_name,
+          sku: row.sku,
+          before: current.qty_as_per_books,
+          after: row.qty_as_per_books
+        })
+        changedRows.push(row)
+      } else {
+        unchanged++
+      }
+    }
+
+    // Replace mode drops SKUs of the listed bins that are not in the file; other bins are left alone
+    const importedKeys = new Set(rows.map(row => contentKey(row.bin_no, row.warehouse_name, row.sku)))
+    const importedBins = new Set(rows.map(row => binKey(row.bin_no, row.warehouse_name)))
+    const deleted = mode === 'replace'
+      ? existing
+        .filter(content => importedBins.has(binKey(content.bin.bin_no, content.bin.warehouse_name)))
+        .filter(content => !importedKeys.has(contentKey(content.bin.bin_no, content.bin.warehouse_name, content.sku)))
+        .map(content => ({
+          id: content.id,
+          bin_no: content.bin.bin_no,
+          warehouse_name: content.bin.warehouse_name,
+          sku: content.sku,
+          qty_as_per_books: content.qty_as_per_books
+        }))
+      : []
+
+    const diff = {
+      mode,
+      dryRun,
+      summary: {
+        rows: rows.length + errors.length,
+        inserted: inserted.length,
+        updated: updated.length,
+        unchanged,
+        deleted: deleted.length,
+        errors: errors.length
+      },
+      errors,
+      changes: {
+        inserted: inserted.slice(0, DIFF_PREVIEW_LIMIT),
+        updated: updated.slice(0, DIFF_PREVIEW_LIMIT),
+        deleted: deleted.slice(0, DIFF_PREVIEW_LIMIT)
+      }
+    }
+
+    if (dryRun) {
+      return new Response(JSON.stringify(diff), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Fix the invalid rows before importing', ...diff }), {
+        status: 422,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Bin totals follow the contents through the bin_contents trigger
+    const upserts = changedRows.map(row => ({
+      bin_id: binsByKey.get(binKey(row.bin_no, row.warehouse_name))!.id,
+      sku: row.sku,
+      description: row.description,
+      uom: row.uom,
+      qty_as_per_books: row.qty_as_per_books,
+      updated_at: new Date().toISOString()
+    }))
+
+    for (let i = 0; i < upserts.length; i += PAGE_SIZE) {
+      const { error } = await supabase
+        .from('bin_contents')
+        .upsert(upserts.slice(i, i + PAGE_SIZE), { onConflict: 'bin_id,sku' })
+
+      if (error) throw error
+    }
+
+    for (let i = 0; i < deleted.length; i += DELETE_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('bin_contents')
+        .delete()
+        .in('id', deleted.slice(i, i + DELETE_BATCH_SIZE).map(content => content.id))
+
+      if (error) throw error
+    }
+
+    await audit(supabase, req, caller, 'BIN_CONTENTS_IMPORT', {
+      mode,
+      warehouses,
+      inserted: inserted.length,
+      updated: updated.length,
+      deleted: deleted.length
+    }, warehouses.length === 1 ? warehouses[0] : null)
+
+    return new Response(JSON.stringify(diff), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Validate a CSV upload and diff it against the current bin master
+  if (method === 'POST' && pathParts.includes('import')) {
+    if (caller.role !== 'admin') {
+      return new Response(JSON.stringify({ error: 'Only admins can import bin master data' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { csv, mode = 'upsert', dryRun = true } = await req.json()
+
+    if (typeof csv !== 'string' || !['upsert', 'replace'].includes(mode)) {
+      return new Response(JSON.stringify({ error: 'csv text and a mode of upsert or replace are required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { rows: parsedRows, errors } = validateImport(csv)
+
+    // Warehouses are created explicitly, never by a typo in an import
+    const { data: knownWarehouses, error: warehousesError } = await supabase
+      .from('warehouses')
+      .select('code')
+      .in('code', [...new Set(parsedRows.map(row => row.warehouse_name))])
+
+    if (warehousesError) throw warehousesError
+
+    const knownCodes = new Set((knownWarehouses || []).map(warehouse => warehouse.code))
+    const knownRows = parsedRows.filter(row => {
+      if (knownCodes.has(row.warehouse_name)) return true
+      errors.push({ line: row.line, message: `Unknown warehouse ${row.warehouse_name}` })
+      return false
+    })
+
+    const warehouses = [...new Set(knownRows.map(row => row.warehouse_name))]
+    const existing = warehouses.length > 0 ? await fetchBins(supabase, warehouses) : []
+    const existingByKey = new Map(existing.map(bin => [binKey(bin.bin_no, bin.warehouse_name), bin]))
+
+    // The total of a bin with SKU contents is the sum of its SKUs
+    const rows = knownRows.filter(row => {
+      const current = existingByKey.get(binKey(row.bin_no, row.warehouse_name))
+      if (!current || current.qty_as_per_books === row.qty_as_per_books || !(current.contents[0]?.count > 0)) return true
+      errors.push({ line: row.line, message: `Bin ${row.bin_no} has SKU contents; change its quantities through a contents import` })
+      return false
+    })
+    errors.sort((a, b) => a.line - b.line)
+
+    const inserted: ImportRow[] = []
+    const updated: { bin_no: string, warehouse_name: string, before: number, after: number }[] = []
+    let unchanged = 0
+    for (const row of rows) {
+      const current = existingByKey.get(binKey(row.bin_no, row.warehouse_name))
+      if (!current) {
+        inserted.push(row)
+      } else if (current.qty_as_per_books !== row.qty_as_per_books) {
+        updated.push({
+          bin_no: row.bin_no,
+          warehouse_name: row.warehouse_name,
+          before: current.qty_as_per_books,
+          after: row.qty_as_per_books
+        })
+      } else {
+        unchanged++
+      }
+    }
+
+    // Replace mode drops bins of the imported warehouses that are not in the file
+    const importedKeys = new Set(knownRows.map(row => binKey(row.bin_no, row.warehouse_name)))
+    const deleted = mode === 'replace'
+      ? existing.filter(bin => !importedKeys.has(binKey(bin.bin_no, bin.warehouse_name)))
+      : []
+
+    const diff = {
+      mode,
+      dryRun,
+      summary: {
+        rows: rows.length + errors.length,
+        inserted: inserted.length,
+        updated: updated.length,
+        unchanged,
+        deleted: deleted.length,
+        errors: errors.length
+      },
+      errors,
+      changes: {
+        inserted: inserted.slice(0, DIFF_PREVIEW_LIMIT),
+        updated: updated.slice(0, DIFF_PREVIEW_LIMIT),
+        deleted: deleted.slice(0, DIFF_PREVIEW_LIMIT)
+      }
+    }
+
+    if (dryRun) {
+      return new Response(JSON.stringify(diff), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Fix the invalid rows before importing', ...diff }), {
+        status: 422,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const changedRows = [
+      ...inserted,
+      ...updated.map(change => ({ ...change, qty_as_per_books: change.after }))
+    ].map(row => ({
+      bin_no: row.bin_no,
+      warehouse_name: row.warehouse_name,
+      qty_as_per_books: row.qty_as_per_books
+    }))
+
+    // All or nothing: a half-applied import would leave the books matching neither the file nor the old state
+    const { error: applyError } = await supabase.rpc('apply_bin_master_import', {
+      p_rows: changedRows,
+      p_delete_ids: deleted.map(bin => bin.id)
+    })
+
+    if (applyError) {
+      return new Response(JSON.stringify({ error: applyError.message, ...diff }), {
+        status: applyError.code === '23503' ? 409 : 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, 'BIN_MASTER_IMPORT', {
+      mode,
+      warehouses,
+      inserted: inserted.length,
+      updated: updated.length,
+      deleted: deleted.length
+    }, warehouses.length === 1 ? warehouses[0] : null)
+
+    return new Response(JSON.stringify(diff), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Export a warehouse's SKU contents in the contents import format
+  if (method === 'GET' && pathParts.includes('contents') && pathParts.includes('export')) {
+    const warehouse = url.searchParams.get('warehouse') || caller.warehouse_name
+
+    if (!warehouse) {
+      return new Response(JSON.stringify({ error: 'Warehouse is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!(await canAccessWarehouse(supabase, caller, warehouse))) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const contents = await fetchContents(supabase, [warehouse])
+    contents.sort((a, b) => a.bin.bin_no.localeCompare(b.bin.bin_no) || a.sku.localeCompare(b.sku))
+    const csv = toCsv(CONTENTS_COLUMNS, contents.map(content => [
+      content.bin.bin_no, content.bin.warehouse_name, content.sku, content.description, content.uom, content.qty_as_per_books
+    ]))
+
+    return new Response(csv, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="bin_contents_${warehouse.replace(/\W+/g, '_')}.csv"`
+      }
+    })
+  }
+
+  // Export a warehouse's bin master in the import format
+  if (method === 'GET' && pathParts.includes('export')) {
+    const warehouse = url.searchParams.get('warehouse') || caller.warehouse_name
+
+    if (!warehouse) {
+      return new Response(JSON.stringify({ error: 'Warehouse is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!(await canAccessWarehouse(supabase, caller, warehouse))) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const bins = await fetchBins(supabase, [warehouse])
+    bins.sort((a, b) => a.bin_no.localeCompare(b.bin_no))
+    const csv = toCsv(IMPORT_COLUMNS, bins.map(bin => [bin.bin_no, bin.warehouse_name, bin.qty_as_per_books]))
+
+    return new Response(csv, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="bin_master_${warehouse.replace(/\W+/g, '_')}.csv"`
+      }
+    })
+  }
+
+  if (method === 'GET') {
+    // Defaults to the caller's primary warehouse; any other must be in their scope
+    const warehouse = url.searchParams.get('warehouse') || caller.warehouse_name
+
+    if (!warehouse) {
+      return new Response(JSON.stringify({ error: 'Warehouse is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!(await canAccessWarehouse(supabase, caller, warehouse))) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // SKU contents come along so the counting screen can ask for a count per SKU
+    const { data, error } = await supabase
+      .from('bin_master')
+      .select('*, contents:bin_contents(sku, description, uom, qty_as_per_books)')
+      .eq('warehouse_name', warehouse)
+      .order('bin_no', { ascending: true })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { blindCount } = await getBlindMode(supabase, warehouse)
+
+    return new Response(JSON.stringify(data.map(bin => hideBooks(caller, bin, blindCount))), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    status: 405,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}))
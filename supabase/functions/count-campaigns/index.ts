@@ -0,0 +1,319 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { withAuth, canAccessUser, canAccessWarehouse, scopedWarehouses } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getBlindMode, hideBooks } from '../_shared/blind.ts'
+import { audit } from '../_shared/audit.ts'
+
+const MANAGER_ROLES = ['admin', 'vendor', 'team_leader']
+
+serve(withAuth(async (req, { supabase, caller }) => {
+  const url = new URL(req.url)
+  const method = req.method
+  const pathParts = url.pathname.split('/')
+
+  // Worker's assigned, uncounted bins in counting order, and whether a campaign is open at all.
+  // While one is, the campaign plan is the worker's whole bin list
+  if (method === 'GET' && pathParts.includes('assigned')) {
+    const workerId = pathParts[pathParts.length - 1]
+    const warehouse = url.searchParams.get('warehouse')
+
+    const { data: worker } = await supabase
+      .from('users')
+      .select('id, vendor_id, team_leader_id')
+      .eq('id', workerId)
+      .maybeSingle()
+
+    if (!worker || !canAccessUser(caller, worker)) {
+      return new Response(JSON.stringify({ error: 'Worker not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    let query = supabase
+      .from('campaign_bins')
+      .select(`
+        campaign_id,
+        sequence,
+        campaign:count_campaigns!inner(name, status, warehouse_name),
+        bin:bin_master!inner(*, contents:bin_contents(sku, description, uom, qty_as_per_books))
+      `)
+      .eq('assigned_worker_id', workerId)
+      .eq('status', 'uncounted')
+      .eq('campaign.status', 'open')
+    let openQuery = supabase
+      .from('count_campaigns')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'open')
+    if (warehouse) {
+      query = query.eq('campaign.warehouse_name', warehouse)
+      openQuery = openQuery.eq('warehouse_name', warehouse)
+    }
+
+    const { data, error } = await query.order('sequence', { ascending: true })
+    const { count: openCampaigns } = await openQuery
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Blind campaigns hide book quantities from the worker
+    const blindByCampaign = new Map<string, boolean>()
+    for (const row of data) {
+      if (!blindByCampaign.has(row.campaign_id)) {
+        const { blindCount } = await getBlindMode(supabase, row.bin.warehouse_name, row.campaign_id)
+        blindByCampaign.set(row.campaign_id, blindCount)
+      }
+    }
+
+    const bins = data.map(row => hideBooks(caller, { ...row.bin, campaign_id: row.campaign_id }, blindByCampaign.get(row.campaign_id)!))
+
+    return new Response(JSON.stringify({ campaignOpen: (openCampaigns ?? 0) > 0, bins }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (!MANAGER_ROLES.includes(caller.role)) {
+    return new Response(JSON.stringify({ error: 'Only vendors and team leaders can manage campaigns' }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Campaign routes (/:id/<action>) are limited to the caller's warehouses
+  let campaignWarehouse: string | null = null
+  if (['progress', 'assign', 'close'].some(action => pathParts.includes(action))) {
+    const { data: campaign } = await supabase
+      .from('count_campaigns')
+      .select('warehouse_name')
+      .eq('id', pathParts[pathParts.length - 2])
+      .maybeSingle()
+
+    if (!campaign || !(await canAccessWarehouse(supabase, caller, campaign.warehouse_name))) {
+      return new Response(JSON.stringify({ error: 'Campaign not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+    campaignWarehouse = campaign.warehouse_name
+  }
+
+  // Progress of one campaign, overall and per worker
+  if (method === 'GET' && pathParts.includes('progress')) {
+    const campaignId = pathParts[pathParts.length - 2]
+
+    const { data: workers, error } = await supabase.rpc('campaign_progress', {
+      p_campaign_id: campaignId
+    })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const totals = { uncounted: 0, counted: 0, recount: 0 }
+    for (const worker of workers) {
+      totals.uncounted += worker.uncounted
+      totals.counted += worker.counted
+      totals.recount += worker.recount
+    }
+
+    return new Response(JSON.stringify({
+      total: totals.uncounted + totals.counted + totals.recount,
+      ...totals,
+      workers
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Split the uncounted bins among workers
+  if (method === 'POST' && pathParts.includes('assign')) {
+    const campaignId = pathParts[pathParts.length - 2]
+    const { workerUserIds, strategy = 'block' } = await req.json()
+
+    const { data: found } = await supabase
+      .from('users')
+      .select('id, user_id, vendor_id, team_leader_id')
+      .eq('role', 'worker')
+      .in('user_id', workerUserIds || [])
+
+    // Only workers in the caller's part of the hierarchy can be assigned
+    const workers = (found || []).filter(worker => canAccessUser(caller, worker))
+
+    const unknown = (workerUserIds || []).filter(
+      (userId: string) => !workers.some(worker => worker.user_id === userId)
+    )
+    if (workers.length === 0 || unknown.length > 0) {
+      return new Response(JSON.stringify({ error: `Unknown workers: ${unknown.join(', ') || 'none given'}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Keep the order the workers were listed in
+    const workerIds = (workerUserIds as string[]).map(userId => workers.find(w => w.user_id === userId)!.id)
+
+    const { data: assigned, error } = await supabase.rpc('assign_campaign_bins', {
+      p_campaign_id: campaignId,
+      p_worker_ids: workerIds,
+      p_strategy: strategy
+    })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, 'CAMPAIGN_ASSIGN', {
+      campaign_id: campaignId,
+      workers: workerUserIds,
+      strategy,
+      assigned
+    }, campaignWarehouse)
+
+    return new Response(JSON.stringify({ assigned }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Close the campaign and freeze its results
+  if (method === 'POST' && pathParts.includes('close')) {
+    const campaignId = pathParts[pathParts.length - 2]
+
+    const { error } = await supabase.rpc('close_count_campaign', {
+      p_campaign_id: campaignId,
+      p_closed_by: caller.id
+    })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, 'CAMPAIGN_CLOSE', { campaign_id: campaignId }, campaignWarehouse)
+
+    return new Response(JSON.stringify({ closed: true }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Create a campaign over a set of bins
+  if (method === 'POST') {
+    const { name, campaignType, warehouseName, abcClass, binIds, blindCount = null, requireSecondCount = null } = await req.json()
+
+    if (!name || !['full', 'cycle'].includes(campaignType) || !warehouseName) {
+      return new Response(JSON.stringify({ error: 'name, campaignType (full or cycle) and warehouseName are required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!(await canAccessWarehouse(supabase, caller, warehouseName))) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // null keeps the warehouse default
+    if (![blindCount, requireSecondCount].every(value => value === null || typeof value === 'boolean')) {
+      return new Response(JSON.stringify({ error: 'blindCount and requireSecondCount must be true, false or null' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (campaignType === 'cycle' && !abcClass && !(binIds?.length > 0)) {
+      return new Response(JSON.stringify({ error: 'Cycle counts need an ABC class or a list of bins' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: campaignId, error } = await supabase.rpc('create_count_campaign', {
+      p_name: name,
+      p_campaign_type: campaignType,
+      p_warehouse_name: warehouseName,
+      p_created_by: caller.id,
+      p_abc_class: campaignType === 'cycle' ? abcClass || null : null,
+      p_bin_ids: campaignType === 'cycle' && binIds?.length > 0 ? binIds : null
+    })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (blindCount !== null || requireSecondCount !== null) {
+      await supabase
+        .from('count_campaigns')
+        .update({ blind_count: blindCount, require_second_count: requireSecondCount })
+        .eq('id', campaignId)
+    }
+
+    const { data: campaign } = await supabase
+      .from('count_campaigns')
+      .select('*')
+      .eq('id', campaignId)
+      .single()
+
+    await audit(supabase, req, caller, 'CAMPAIGN_CREATE', {
+      campaign_id: campaignId,
+      name,
+      campaign_type: campaignType,
+      abc_class: campaignType === 'cycle' ? abcClass || null : null,
+      bins: binIds?.length ?? null,
+      blind_count: blindCount,
+      require_second_count: requireSecondCount
+    }, warehouseName)
+
+    return new Response(JSON.stringify(campaign), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // List campaigns for a warehouse
+  if (method === 'GET') {
+    const warehouse = url.searchParams.get('warehouse')
+
+    const warehouses = await scopedWarehouses(supabase, caller)
+
+    let query = supabase.from('count_campaigns').select('*')
+    if (warehouse) {
+      query = query.eq('warehouse_name', warehouse)
+    }
+    if (warehouses) {
+      query = query.in('warehouse_name', warehouses)
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify(data), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    status: 405,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}))
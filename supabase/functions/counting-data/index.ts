@@ -1,182 +1,684 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { withAuth, canWriteSession, scopedUserIds, scopedWarehouses, canAccessWarehouse } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { validationError, FieldError } from '../_shared/validation.ts'
+import { hideBooks } from '../_shared/blind.ts'
+import { audit, clientIp } from '../_shared/audit.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+const RECOUNT_REASONS = ['damaged', 'misplaced', 'wrong_bin', 'book_error', 'in_transit', 'other']
+const SKU_MAX_LENGTH = 100
+// How long a worker can still fix or void a count after confirming it
+const EDIT_WINDOW_MINUTES = 10
+
+interface ItemCount {
+  sku: string
+  qty: number
+}
+
+interface CountedItem {
+  sku: string
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders })
+// Per-SKU quantities of a bin with contents; the bin-level total is derived from them
+function parseItemCounts(items: unknown) {
+  const counts = new Map<string, number>()
+  const errors: FieldError[] = []
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return { counts, errors: [{ field: 'items', code: 'required', message: 'Count each SKU in this bin' }] }
   }
 
-  try {
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
+  items.forEach((item: Partial<ItemCount>, index) => {
+    const sku = typeof item?.sku === 'string' ? item.sku.trim() : ''
+    if (!sku || sku.length > SKU_MAX_LENGTH) {
+      errors.push({ field: `items[${index}].sku`, code: 'required', message: `SKU is required (up to ${SKU_MAX_LENGTH} characters)` })
+    } else if (counts.has(sku)) {
+      errors.push({ field: `items[${index}].sku`, code: 'duplicate_sku', message: `SKU ${sku} is listed twice` })
+    }
+    if (!Number.isInteger(item?.qty) || (item.qty as number) < 0) {
+      errors.push({ field: `items[${index}].qty`, code: 'invalid_quantity', message: 'Quantity must be a non-negative whole number' })
+    }
+    if (sku) counts.set(sku, item?.qty as number)
+  })
 
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: 'No authorization header' }), {
-        status: 401,
+  return { counts, errors }
+}
+
+const sumItems = (quantities: number[]) => quantities.reduce((total, qty) => total + qty, 0)
+
+serve(withAuth(async (req, { supabase, caller }) => {
+  const url = new URL(req.url)
+  const method = req.method
+  const pathParts = url.pathname.split('/')
+
+  // Worker fixes or voids their own count shortly after confirming it; the original is kept
+  if ((method === 'PUT' && pathParts.includes('edit')) || (method === 'POST' && pathParts.includes('void'))) {
+    const countingDataId = pathParts[pathParts.length - 2]
+    const isVoid = pathParts.includes('void')
+    const { qtyCounted, items, reason } = await req.json()
+
+    const { data: record } = await supabase
+      .from('counting_data')
+      .select('id, username, qty_as_per_books, is_blind, items:counting_data_items(sku, description, uom, qty_as_per_books)')
+      .eq('id', countingDataId)
+      .maybeSingle()
+
+    if (!record || record.username !== caller.user_id) {
+      return new Response(JSON.stringify({ error: 'Counting record not found' }), {
+        status: 404,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
 
-    const url = new URL(req.url)
-    const method = req.method
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      return validationError([{ field: 'reason', code: 'invalid_reason', message: 'Reason must be text' }])
+    }
 
-    if (method === 'POST') {
-      const { sessionId, binNo, qtyCountedWorker, qtyAsPerBooks } = await req.json()
+    // Like the first count, SKUs left out of an item edit were not found
+    let itemRows: { sku: string, description: string | null, uom: string, qty_as_per_books: number, qty_counted: number }[] = []
+    if (!isVoid && record.items.length > 0) {
+      const { counts, errors } = parseItemCounts(items)
+      if (errors.length > 0) return validationError(errors)
 
-      // Get session details
-      const { data: session, error: sessionError } = await supabase
-        .from('counting_sessions')
-        .select(`
-          *,
-          worker:users!counting_sessions_worker_id_fkey(user_id, warehouse_name),
-          team_leader:users!counting_sessions_team_leader_id_fkey(user_id)
-        `)
-        .eq('id', sessionId)
-        .single()
+      itemRows = record.items.map((item: { sku: string, description: string | null, uom: string, qty_as_per_books: number }) => ({
+        ...item,
+        qty_counted: counts.get(item.sku) ?? 0
+      }))
+      for (const [sku, qty] of counts) {
+        if (!itemRows.some(row => row.sku === sku)) {
+          itemRows.push({ sku, description: null, uom: 'EA', qty_as_per_books: 0, qty_counted: qty })
+        }
+      }
+    } else if (!isVoid && (!Number.isInteger(qtyCounted) || qtyCounted < 0)) {
+      return validationError([
+        { field: 'qtyCounted', code: 'invalid_quantity', message: 'Quantity must be a non-negative whole number' }
+      ])
+    }
 
-      if (sessionError || !session) {
-        return new Response(JSON.stringify({ error: 'Session not found' }), {
-          status: 404,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+    // Ownership, the active session, the window and later checks are enforced under the session lock
+    const { error: amendError } = await supabase.rpc('amend_count', {
+      p_counting_data_id: countingDataId,
+      p_actor_id: caller.id,
+      p_void: isVoid,
+      p_qty_counted: isVoid || itemRows.length > 0 ? null : qtyCounted,
+      p_items: itemRows,
+      p_matches_books: itemRows.length > 0
+        ? itemRows.every(row => row.qty_counted === row.qty_as_per_books)
+        : qtyCounted === record.qty_as_per_books,
+      p_reason: reason?.trim() || null,
+      p_window_minutes: EDIT_WINDOW_MINUTES,
+      p_ip_address: clientIp(req)
+    })
+
+    if (amendError) {
+      return new Response(JSON.stringify({ error: amendError.message }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (isVoid) {
+      return new Response(JSON.stringify({ voided: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: updated } = await supabase
+      .from('counting_data')
+      .select('*, items:counting_data_items(*)')
+      .eq('id', countingDataId)
+      .single()
+
+    return new Response(JSON.stringify(hideBooks(caller, updated, updated.is_blind)), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Team leader recount of a bin with a count difference
+  if (method === 'PUT' && pathParts.includes('recount')) {
+    const countingDataId = pathParts[pathParts.length - 1]
+    const { qtyRecounted, reason, items } = await req.json()
+
+    if (reason && !RECOUNT_REASONS.includes(reason)) {
+      return new Response(JSON.stringify({ error: 'Invalid reason for difference' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: record, error: recordError } = await supabase
+      .from('counting_data')
+      .select('*, items:counting_data_items(*), session:counting_sessions!inner(team_leader_id)')
+      .eq('id', countingDataId)
+      .single()
+
+    if (recordError || !record || record.session.team_leader_id !== caller.id) {
+      return new Response(JSON.stringify({ error: 'Counting record not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    let recountedItems: ItemCount[] = []
+    if (record.items.length > 0) {
+      const { counts, errors } = parseItemCounts(items)
+      for (const sku of counts.keys()) {
+        if (!record.items.some((item: CountedItem) => item.sku === sku)) {
+          errors.push({ field: 'items', code: 'unknown_sku', message: `SKU ${sku} was not counted in bin ${record.bin_no}` })
+        }
+      }
+      if (errors.length > 0) return validationError(errors)
+
+      recountedItems = [...counts].map(([sku, qty]) => ({ sku, qty }))
+    } else if (!Number.isInteger(qtyRecounted) || qtyRecounted < 0) {
+      return new Response(JSON.stringify({ error: 'Recount quantity must be a non-negative integer' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Approval, the pending second count and the item totals are handled under the row lock
+    const { error: recountError } = await supabase.rpc('recount_count', {
+      p_counting_data_id: countingDataId,
+      p_actor_id: caller.id,
+      p_qty_recounted: recountedItems.length > 0 ? null : qtyRecounted,
+      p_items: recountedItems,
+      p_reason: reason || null
+    })
+
+    if (recountError) {
+      return new Response(JSON.stringify({ error: recountError.message }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: updated } = await supabase
+      .from('counting_data')
+      .select('*, items:counting_data_items(*)')
+      .eq('id', countingDataId)
+      .single()
+
+    await audit(supabase, req, caller, 'RECOUNT_BIN', {
+      counting_data_id: record.id,
+      bin_no: record.bin_no,
+      worker: record.username,
+      qty_counted: record.qty_counted,
+      qty_recounted: updated.qty_recounted_tl,
+      items: recountedItems,
+      reason: reason || null
+    }, record.wh_name)
+
+    return new Response(JSON.stringify(updated), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Team leader approval locks the record
+  if (method === 'POST' && pathParts.includes('approve')) {
+    const countingDataId = pathParts[pathParts.length - 1]
+
+    const { data: record, error: recordError } = await supabase
+      .from('counting_data')
+      .select('*, session:counting_sessions!inner(team_leader_id)')
+      .eq('id', countingDataId)
+      .single()
+
+    if (recordError || !record || record.session.team_leader_id !== caller.id) {
+      return new Response(JSON.stringify({ error: 'Counting record not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (record.is_locked) {
+      return new Response(JSON.stringify({ error: 'Counting record is already approved' }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (record.qty_recounted_tl === null) {
+      return new Response(JSON.stringify({ error: 'Enter a recount quantity before approving' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if ((record.difference !== 0 || record.has_item_variance) && !record.reason_for_difference) {
+      return new Response(JSON.stringify({ error: 'A reason is required when a difference remains' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: approved, error: approveError } = await supabase
+      .from('counting_data')
+      .update({
+        is_locked: true,
+        approved_by: caller.id,
+        approved_at: new Date().toISOString()
+      })
+      .eq('id', countingDataId)
+      .select()
+      .single()
+
+    if (approveError) {
+      return new Response(JSON.stringify({ error: approveError.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, 'APPROVE_RECOUNT', {
+      counting_data_id: record.id,
+      bin_no: record.bin_no,
+      worker: record.username,
+      difference: approved.difference,
+      reason: approved.reason_for_difference
+    }, record.wh_name)
+
+    return new Response(JSON.stringify(approved), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Blind counts off from books waiting for another worker in the warehouse
+  if (method === 'GET' && pathParts.includes('second-count-queue')) {
+    if (caller.role !== 'worker') {
+      return new Response(JSON.stringify({ error: 'Only workers take second counts' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const warehouses = await scopedWarehouses(supabase, caller) ?? []
+
+    // Neither the book quantity nor the first count is sent, so the second count stays blind
+    const { data, error } = await supabase
+      .from('counting_data')
+      .select('id, bin_no, wh_name, created_at, items:counting_data_items(sku, description, uom)')
+      .in('wh_name', warehouses)
+      .eq('awaiting_second_count', true)
+      .eq('is_locked', false)
+      .neq('username', caller.user_id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify(data), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Independent second blind count by a different worker
+  if (method === 'PUT' && pathParts.includes('second-count')) {
+    const countingDataId = pathParts[pathParts.length - 2]
+    const { qtyCounted, items } = await req.json()
+
+    if (caller.role !== 'worker') {
+      return new Response(JSON.stringify({ error: 'Only workers take second counts' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: record } = await supabase
+      .from('counting_data')
+      .select('id, bin_no, wh_name, username, awaiting_second_count, is_locked, items:counting_data_items(sku)')
+      .eq('id', countingDataId)
+      .maybeSingle()
+
+    if (!record || record.username === caller.user_id || !(await canAccessWarehouse(supabase, caller, record.wh_name))) {
+      return new Response(JSON.stringify({ error: 'Counting record not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // A second count covers the whole bin, so SKUs left out were not found
+    let secondCountItems: ItemCount[] = []
+    let total = qtyCounted
+    if (record.items.length > 0) {
+      const { counts, errors } = parseItemCounts(items)
+      for (const sku of counts.keys()) {
+        if (!record.items.some((item: { sku: string }) => item.sku === sku)) {
+          errors.push({ field: 'items', code: 'unknown_sku', message: `SKU ${sku} was not counted in bin ${record.bin_no}` })
+        }
       }
+      if (errors.length > 0) return validationError(errors)
+
+      secondCountItems = record.items.map((item: { sku: string }) => ({ sku: item.sku, qty: counts.get(item.sku) ?? 0 }))
+      total = sumItems(secondCountItems.map(item => item.qty))
+    } else if (!Number.isInteger(qtyCounted) || qtyCounted < 0) {
+      return validationError([
+        { field: 'qtyCounted', code: 'invalid_quantity', message: 'Quantity must be a non-negative whole number' }
+      ])
+    }
+
+    const { data: activeSession } = await supabase
+      .from('counting_sessions')
+      .select('id')
+      .eq('worker_id', caller.id)
+      .eq('status', 'active')
+      .maybeSingle()
+
+    if (!activeSession) {
+      return new Response(JSON.stringify({ error: 'Start a counting session before taking second counts' }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Guarded on the flag so two workers cannot both record the second count
+    const { data: updated } = await supabase
+      .from('counting_data')
+      .update({
+        qty_second_count: total,
+        second_counted_by: caller.id,
+        second_counted_at: new Date().toISOString()
+      })
+      .eq('id', countingDataId)
+      .eq('awaiting_second_count', true)
+      .eq('is_locked', false)
+      .select()
+      .maybeSingle()
+
+    if (!updated) {
+      return new Response(JSON.stringify({ error: 'Bin no longer needs a second count' }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    for (const item of secondCountItems) {
+      const { error } = await supabase
+        .from('counting_data_items')
+        .update({ qty_second_count: item.qty })
+        .eq('counting_data_id', countingDataId)
+        .eq('sku', item.sku)
+
+      if (error) throw error
+    }
+
+    await audit(supabase, req, caller, 'SECOND_COUNT_BIN', {
+      counting_data_id: record.id,
+      bin_no: record.bin_no,
+      first_counter: record.username,
+      qty_second_count: total,
+      items: secondCountItems
+    }, record.wh_name)
+
+    return new Response(JSON.stringify(hideBooks(caller, updated, true)), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (method === 'POST') {
+    const { sessionId, binNo, qtyCountedWorker, items, clientKey, countedAt } = await req.json()
+
+    const fieldErrors: FieldError[] = []
+    if (!sessionId) {
+      fieldErrors.push({ field: 'sessionId', code: 'required', message: 'Session is required' })
+    }
+    if (typeof binNo !== 'string' || !binNo.trim()) {
+      fieldErrors.push({ field: 'binNo', code: 'required', message: 'Bin number is required' })
+    }
+    // Counts of bins with SKU contents send items; the total is derived from them
+    if (items === undefined && (!Number.isInteger(qtyCountedWorker) || qtyCountedWorker < 0)) {
+      fieldErrors.push({ field: 'qtyCountedWorker', code: 'invalid_quantity', message: 'Quantity must be a non-negative whole number' })
+    }
+    // When the worker confirmed it on the device; lets a count queued offline land in a session that has since ended
+    if (countedAt !== undefined && (typeof countedAt !== 'string' || isNaN(Date.parse(countedAt)))) {
+      fieldErrors.push({ field: 'countedAt', code: 'invalid_timestamp', message: 'countedAt must be an ISO timestamp' })
+    }
+    if (fieldErrors.length > 0) {
+      return validationError(fieldErrors)
+    }
+
+    // Get session details
+    const { data: session, error: sessionError } = await supabase
+      .from('counting_sessions')
+      .select(`
+        *,
+        worker:users!counting_sessions_worker_id_fkey(user_id, warehouse_name),
+        team_leader:users!counting_sessions_team_leader_id_fkey(user_id)
+      `)
+      .eq('id', sessionId)
+      .single()
+
+    if (sessionError || !session) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!canWriteSession(caller, session)) {
+      return new Response(JSON.stringify({ error: 'Not allowed to count in this session' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
 
-      // Insert counting data
-      const { data: countingData, error: insertError } = await supabase
+    // Replayed offline counts return the row saved the first time, even if the bin has changed since
+    if (clientKey) {
+      const { data: existingCount } = await supabase
         .from('counting_data')
-        .insert({
-          session_id: sessionId,
-          wh_name: session.warehouse_name,
-          tl_name: session.team_leader.user_id,
-          username: session.worker.user_id,
-          bin_no: binNo,
-          qty_counted: qtyCountedWorker,
-          qty_as_per_books: qtyAsPerBooks
-        })
-        .select()
-        .single()
+        .select('*, items:counting_data_items(*)')
+        .eq('client_key', clientKey)
+        .eq('session_id', sessionId)
+        .maybeSingle()
 
-      if (insertError) {
-        return new Response(JSON.stringify({ error: insertError.message }), {
-          status: 400,
+      if (existingCount) {
+        return new Response(JSON.stringify(hideBooks(caller, existingCount, existingCount.is_blind)), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         })
       }
+    }
 
-      // Update worker performance
-      const today = new Date().toISOString().split('T')[0]
-      
-      // Get current performance data
-      const { data: existingPerf } = await supabase
-        .from('worker_performance')
-        .select('*')
-        .eq('username', session.worker.user_id)
-        .eq('date', today)
-        .single()
-
-      const newBinsCount = (existingPerf?.no_of_bins_counted || 0) + 1
-      const newQtyCount = (existingPerf?.no_of_qty_counted || 0) + qtyCountedWorker
-
-      // Calculate time taken (if session is completed)
-      let timeTaken = existingPerf?.time_taken_minutes || 0
-      if (session.end_time) {
-        const startTime = new Date(session.start_time)
-        const endTime = new Date(session.end_time)
-        timeTaken = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60))
-      }
+    // Book quantity always comes from the bin master, never from the client
+    const { data: bin } = await supabase
+      .from('bin_master')
+      .select('qty_as_per_books, contents:bin_contents(sku, description, uom, qty_as_per_books)')
+      .eq('bin_no', binNo.trim())
+      .eq('warehouse_name', session.warehouse_name)
+      .maybeSingle()
+
+    if (!bin) {
+      return validationError([
+        { field: 'binNo', code: 'unknown_bin', message: `Bin ${binNo} is not in ${session.warehouse_name}` }
+      ])
+    }
+
+    // Every booked SKU gets a row (zero when not found); SKUs found but not booked are kept with zero books
+    let itemRows: { sku: string, description: string | null, uom: string, qty_as_per_books: number, qty_counted: number }[] = []
+    if (bin.contents.length > 0) {
+      const { counts, errors } = parseItemCounts(items)
+      if (errors.length > 0) return validationError(errors)
 
-      // Calculate efficiency (bins per hour)
-      const efficiency = timeTaken > 0 ? Math.round((newBinsCount / (timeTaken / 60)) * 100) / 100 : 0
-
-      if (existingPerf) {
-        // Update existing performance record
-        await supabase
-          .from('worker_performance')
-          .update({
-            no_of_bins_counted: newBinsCount,
-            no_of_qty_counted: newQtyCount,
-            time_taken_minutes: timeTaken,
-            efficiency: efficiency
-          })
-          .eq('id', existingPerf.id)
-      } else {
-        // Create new performance record
-        await supabase
-          .from('worker_performance')
-          .insert({
-            wh_name: session.warehouse_name,
-            date: today,
-            username: session.worker.user_id,
-            no_of_bins_counted: newBinsCount,
-            no_of_qty_counted: newQtyCount,
-            time_taken_minutes: timeTaken,
-            efficiency: efficiency
-          })
+      itemRows = bin.contents.map((content: { sku: string, description: string | null, uom: string, qty_as_per_books: number }) => ({
+        ...content,
+        qty_counted: counts.get(content.sku) ?? 0
+      }))
+      for (const [sku, qty] of counts) {
+        if (!itemRows.some(row => row.sku === sku)) {
+          itemRows.push({ sku, description: null, uom: 'EA', qty_as_per_books: 0, qty_counted: qty })
+        }
       }
+    } else if (items !== undefined) {
+      return validationError([
+        { field: 'items', code: 'no_contents', message: `Bin ${binNo} has no SKU contents; count it as one quantity` }
+      ])
+    }
 
-      // Create audit log
-      await supabase
-        .from('audit_logs')
-        .insert({
-          user_id: session.worker_id,
-          action: 'COUNT_BIN',
-          details: `Counted bin ${binNo}: ${qtyCountedWorker} units`
-        })
+    const qtyCounted = itemRows.length > 0 ? sumItems(itemRows.map(row => row.qty_counted)) : qtyCountedWorker
+    // An item bin matches the books only when every SKU does, not just the total
+    const matchesBooks = itemRows.length > 0
+      ? itemRows.every(row => row.qty_counted === row.qty_as_per_books)
+      : qtyCounted === bin.qty_as_per_books
+
+    // Count, SKU items, performance refresh and audit entry commit together. The session
+    // status is checked there, under the session lock and after the client key lookup, so a
+    // replay of a count saved before the session ended returns that count instead of a 409,
+    // and an ended session can still take counts confirmed offline before or during a timeout
+    const { data: recorded, error: recordError } = await supabase
+      .rpc('record_count', {
+        p_session_id: sessionId,
+        p_bin_no: binNo.trim(),
+        p_qty_counted: qtyCounted,
+        p_qty_as_per_books: itemRows.length > 0 ? sumItems(itemRows.map(row => row.qty_as_per_books)) : bin.qty_as_per_books,
+        p_items: itemRows,
+        p_matches_books: matchesBooks,
+        p_client_key: clientKey || null,
+        p_actor_id: caller.id,
+        p_ip_address: clientIp(req),
+        p_counted_at: countedAt ?? null
+      })
+      .single()
+
+    if (recordError?.code === '55000') {
+      return validationError([
+        { field: 'sessionId', code: 'session_closed', message: 'Counting session has ended' }
+      ], 409)
+    }
 
-      return new Response(JSON.stringify(countingData), {
+    // Lost a lock race with another transaction; nothing was written, so the count is sent again later
+    if (recordError?.code === '40P01' || recordError?.code === '40001') {
+      return new Response(JSON.stringify({ error: 'Count could not be saved yet; it will be retried' }), {
+        status: 503,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
 
-    if (method === 'GET') {
-      const sessionId = url.searchParams.get('sessionId')
-      const workerId = url.searchParams.get('workerId')
-      const date = url.searchParams.get('date')
+    if (recordError) {
+      return new Response(JSON.stringify({ error: recordError.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
 
-      let query = supabase.from('counting_data').select('*')
+    const { data: countingData, error: fetchError } = await supabase
+      .from('counting_data')
+      .select('*, items:counting_data_items(*)')
+      .eq('id', recorded.counting_data_id)
+      .single()
 
-      if (sessionId) {
-        query = query.eq('session_id', sessionId)
-      }
-      if (workerId) {
-        query = query.eq('username', workerId)
-      }
-      if (date) {
-        query = query.eq('date', date)
-      }
+    if (fetchError) throw fetchError
+
+    return new Response(JSON.stringify(hideBooks(caller, countingData, countingData.is_blind)), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Bins with a count difference in the team leader's sessions
+  if (method === 'GET' && pathParts.includes('recount-queue')) {
+    // Team leaders see their own queue; vendors and admins pick a team leader
+    const teamLeaderId = caller.role === 'team_leader' ? caller.id : url.searchParams.get('teamLeaderId')
+
+    if (!teamLeaderId) {
+      return new Response(JSON.stringify({ error: 'teamLeaderId is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (caller.role === 'worker') {
+      return new Response(JSON.stringify({ error: 'Workers have no recount queue' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
 
-      const { data, error } = await query.order('created_at', { ascending: false })
+    if (caller.role === 'vendor') {
+      const { data: teamLeader } = await supabase
+        .from('users')
+        .select('id')
+        .eq('id', teamLeaderId)
+        .eq('vendor_id', caller.id)
+        .maybeSingle()
 
-      if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 400,
+      if (!teamLeader) {
+        return new Response(JSON.stringify({ error: 'Team leader not found in your hierarchy' }), {
+          status: 404,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         })
       }
+    }
+
+    const { data, error } = await supabase
+      .from('counting_data')
+      .select('*, items:counting_data_items(*), session:counting_sessions!inner(team_leader_id)')
+      .eq('session.team_leader_id', teamLeaderId)
+      .or('difference.neq.0,has_item_variance.eq.true,qty_recounted_tl.not.is.null')
+      .eq('awaiting_second_count', false)
+      .order('is_locked', { ascending: true })
+      .order('created_at', { ascending: true })
 
-      return new Response(JSON.stringify(data), {
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
 
-    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
-      status: 405,
+    return new Response(JSON.stringify(data), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
+  }
+
+  if (method === 'GET') {
+    const sessionId = url.searchParams.get('sessionId')
+    const workerId = url.searchParams.get('workerId')
+    const date = url.searchParams.get('date')
+
+    let query = supabase.from('counting_data').select('*, items:counting_data_items(*)')
 
-  } catch (error) {
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+    // Limit reads to the caller's part of the hierarchy
+    const userIds = await scopedUserIds(supabase, caller)
+    if (userIds) {
+      query = query.in('username', userIds)
+    }
+    if (sessionId) {
+      query = query.eq('session_id', sessionId)
+    }
+    if (workerId) {
+      query = query.eq('username', workerId)
+    }
+    if (date) {
+      query = query.eq('date', date)
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Tells the worker until when each of their own counts can still be edited or voided
+    const editWindowMs = EDIT_WINDOW_MINUTES * 60 * 1000
+    const rows = data.map(row => ({
+      ...hideBooks(caller, row, row.is_blind),
+      editable_until: row.username === caller.user_id
+        ? new Date(Date.parse(row.created_at) + editWindowMs).toISOString()
+        : null
+    }))
+
+    return new Response(JSON.stringify(rows), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
   }
-})
\ No newline at end of file
+
+  return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    status: 405,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}))
@@ -0,0 +1,291 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { withAuth, canAccessUser, canWriteSession, canAccessWarehouse } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getBlindMode } from '../_shared/blind.ts'
+import { audit } from '../_shared/audit.ts'
+import { validationError, readJsonBody, invalidBodyError } from '../_shared/validation.ts'
+
+const BREAK_REASONS = ['break', 'idle']
+
+serve(withAuth(async (req, { supabase, caller }) => {
+  const url = new URL(req.url)
+  const method = req.method
+  const pathParts = url.pathname.split('/')
+
+  // Get the worker's active session, if any
+  if (method === 'GET' && pathParts.includes('active')) {
+    const workerId = pathParts[pathParts.length - 1]
+
+    const { data: worker } = await supabase
+      .from('users')
+      .select('id, vendor_id, team_leader_id')
+      .eq('id', workerId)
+      .maybeSingle()
+
+    if (!worker || !canAccessUser(caller, worker)) {
+      return new Response(JSON.stringify({ error: 'Worker not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: session, error } = await supabase
+      .from('counting_sessions')
+      .select('*')
+      .eq('worker_id', workerId)
+      .eq('status', 'active')
+      .maybeSingle()
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify(session), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Start a new session for the calling worker
+  if (method === 'POST' && pathParts.includes('start')) {
+    if (caller.role !== 'worker') {
+      return new Response(JSON.stringify({ error: 'Only workers can start a counting session' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Workers assigned to several warehouses pick one; the primary is the default
+    const body = await readJsonBody(req)
+    if (!body) return invalidBodyError()
+
+    const { warehouseName } = body
+    if (warehouseName !== undefined && typeof warehouseName !== 'string') {
+      return validationError([{ field: 'warehouseName', code: 'invalid_warehouse', message: 'warehouseName must be text' }])
+    }
+    const warehouse = warehouseName || caller.warehouse_name
+
+    if (!caller.team_leader_id || !warehouse) {
+      return new Response(JSON.stringify({ error: 'Worker has no team leader or warehouse assigned' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!(await canAccessWarehouse(supabase, caller, warehouse))) {
+      return new Response(JSON.stringify({ error: `Worker is not assigned to ${warehouse}` }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: activeSession } = await supabase
+      .from('counting_sessions')
+      .select('*')
+      .eq('worker_id', caller.id)
+      .eq('status', 'active')
+      .maybeSingle()
+
+    if (activeSession) {
+      return new Response(JSON.stringify({ error: 'Worker already has an active session', session: activeSession }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Sessions count for the open campaign the worker still has bins in at this warehouse
+    const { data: assignment } = await supabase
+      .from('campaign_bins')
+      .select('campaign_id, campaign:count_campaigns!inner(status, warehouse_name)')
+      .eq('assigned_worker_id', caller.id)
+      .eq('status', 'uncounted')
+      .eq('campaign.status', 'open')
+      .eq('campaign.warehouse_name', warehouse)
+      .limit(1)
+      .maybeSingle()
+
+    // Fixed for the whole session so a settings change never flips a running count
+    const blindMode = await getBlindMode(supabase, warehouse, assignment?.campaign_id)
+
+    const { data: session, error: insertError } = await supabase
+      .from('counting_sessions')
+      .insert({
+        worker_id: caller.id,
+        team_leader_id: caller.team_leader_id,
+        warehouse_name: warehouse,
+        campaign_id: assignment?.campaign_id ?? null,
+        blind_count: blindMode.blindCount,
+        require_second_count: blindMode.blindCount && blindMode.requireSecondCount
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      // Unique index on active sessions catches a concurrent start
+      const status = insertError.code === '23505' ? 409 : 400
+      return new Response(JSON.stringify({ error: insertError.message }), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, 'SESSION_START', {
+      session_id: session.id,
+      campaign_id: session.campaign_id,
+      blind: session.blind_count,
+      business_date: session.business_date
+    }, session.warehouse_name)
+
+    return new Response(JSON.stringify(session), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Sent by the counting screen while it is open; sessions without one are closed by close_stale_sessions
+  if (method === 'POST' && pathParts.includes('heartbeat')) {
+    const sessionId = pathParts[pathParts.length - 1]
+
+    const { data: session, error } = await supabase
+      .from('counting_sessions')
+      .update({ last_heartbeat_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .eq('worker_id', caller.id)
+      .eq('status', 'active')
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Timed out or force-closed while the screen was open
+    if (!session) {
+      return validationError([
+        { field: 'sessionId', code: 'session_closed', message: 'Counting session has ended' }
+      ], 409)
+    }
+
+    return new Response(JSON.stringify(session), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Pause or resume the calling worker's session; break time is left out of efficiency
+  if (method === 'POST' && (pathParts.includes('break') || pathParts.includes('resume'))) {
+    const sessionId = pathParts[pathParts.length - 1]
+    const onBreak = pathParts.includes('break')
+    const body = onBreak ? await readJsonBody(req) : {}
+    if (!body) return invalidBodyError()
+
+    const { reason } = body
+
+    if (onBreak && reason !== undefined && !BREAK_REASONS.includes(reason as string)) {
+      return validationError([
+        { field: 'reason', code: 'invalid_reason', message: `reason must be one of ${BREAK_REASONS.join(', ')}` }
+      ])
+    }
+
+    const { data: session, error } = await supabase
+      .rpc('set_session_break', {
+        p_session_id: sessionId,
+        p_actor_id: caller.id,
+        p_on_break: onBreak,
+        p_reason: reason ?? 'break'
+      })
+      .single()
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify(session), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // End a session and finalize the day's working time. The team leader may
+  // force-close a worker's session, and must say why
+  if (method === 'POST' && pathParts.includes('end')) {
+    const sessionId = pathParts[pathParts.length - 1]
+    const body = await readJsonBody(req)
+    if (!body) return invalidBodyError()
+
+    const { reason } = body
+
+    const { data: session, error: sessionError } = await supabase
+      .from('counting_sessions')
+      .select('*, worker:users!counting_sessions_worker_id_fkey(user_id)')
+      .eq('id', sessionId)
+      .single()
+
+    if (sessionError || !session) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!canWriteSession(caller, session)) {
+      return new Response(JSON.stringify({ error: 'Not allowed to end this session' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (session.status !== 'active') {
+      return new Response(JSON.stringify({ error: 'Session is already completed' }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const forced = caller.id !== session.worker_id
+    const note = typeof reason === 'string' ? reason.trim() : ''
+    if (forced && !note) {
+      return validationError([
+        { field: 'reason', code: 'required', message: 'Say why the session is being closed' }
+      ])
+    }
+
+    const { data: endedSession, error: updateError } = await supabase
+      .rpc('close_session', {
+        p_session_id: sessionId,
+        p_end_reason: forced ? 'team_leader' : 'worker',
+        p_ended_by: caller.id,
+        p_note: note || null
+      })
+      .single()
+
+    if (updateError) {
+      return new Response(JSON.stringify({ error: updateError.message }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, forced ? 'SESSION_FORCE_CLOSE' : 'SESSION_END', {
+      session_id: sessionId,
+      worker: session.worker.user_id,
+      start_time: session.start_time,
+      end_time: endedSession.end_time,
+      reason: note || null
+    }, session.warehouse_name)
+
+    return new Response(JSON.stringify(endedSession), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    status: 405,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}))
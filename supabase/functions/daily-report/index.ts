@@ -0,0 +1,491 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { withAuth, canAccessWarehouse } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { validationError, FieldError } from '../_shared/validation.ts'
+import { audit } from '../_shared/audit.ts'
+import { toCsv } from '../_shared/csv.ts'
+import { getTransport, ReportMessage, TRANSPORT_NAMES, webhookUrlProblem } from '../_shared/transport.ts'
+
+const PAGE_SIZE = 1000
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const MAX_RECIPIENTS = 20
+
+// Workers listed at each end of the day's ranking
+const WORKER_COUNT = 3
+
+const WORKER_COLUMNS = 'username, no_of_bins_counted, bins_per_hour, accuracy_rate, efficiency, ranking'
+
+// What a vendor sees before saving their first subscription
+const DEFAULT_SUBSCRIPTION = {
+  id: null,
+  send_at: '07:00',
+  transport: 'smtp',
+  recipients: [],
+  webhook_url: null,
+  is_active: false
+}
+
+// The columns of `reconciliation_report` the summary and its CSV use
+interface CountRow {
+  bin_no: string
+  username: string
+  qty_as_per_books: number
+  qty_counted: number
+  qty_recounted_tl: number | null
+  final_qty: number
+  difference: number
+  unit_value: number | null
+  variance_value: number
+  reason_for_difference: string | null
+  is_locked: boolean
+}
+
+// One row of `due_daily_reports`
+interface DueReport {
+  subscription_id: string
+  vendor_id: string
+  wh_name: string
+  report_date: string
+}
+
+const CSV_COLUMNS: (keyof CountRow)[] = [
+  'bin_no', 'username', 'qty_as_per_books', 'qty_counted', 'qty_recounted_tl',
+  'final_qty', 'difference', 'unit_value', 'variance_value', 'reason_for_difference', 'is_locked'
+]
+
+interface Subscription {
+  id: string
+  vendor_id: string
+  transport: string
+  recipients: string[]
+  webhook_url: string | null
+}
+
+interface WorkerRow {
+  username: string
+  no_of_bins_counted: number
+  bins_per_hour: number
+  accuracy_rate: number
+  efficiency: number
+  ranking: number
+}
+
+const escapeHtml = (value: unknown) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+// The day's final count of each bin, as reconciliation reports it
+async function fetchDayCounts(supabase: SupabaseClient, warehouse: string, date: string) {
+  const rows: CountRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('reconciliation_report', { p_warehouse_name: warehouse, p_campaign_id: null, p_from: date, p_to: date })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    rows.push(...data)
+    if (data.length < PAGE_SIZE) return rows
+  }
+}
+
+async function buildSummary(supabase: SupabaseClient, warehouse: string, date: string) {
+  const { data: plan, error } = await supabase
+    .rpc('daily_count_summary', { p_wh_name: warehouse, p_date: date })
+
+  if (error) throw error
+
+  const rows = await fetchDayCounts(supabase, warehouse, date)
+
+  const { data: ranked, error: rankError } = await supabase
+    .from('worker_performance')
+    .select(WORKER_COLUMNS)
+    .eq('wh_name', warehouse)
+    .eq('date', date)
+    .not('ranking', 'is', null)
+    .order('ranking')
+
+  if (rankError) throw rankError
+  const workers = ranked as WorkerRow[]
+
+  const summary = {
+    ...plan,
+    bins_with_variance: rows.filter(row => row.difference !== 0).length,
+    net_variance_qty: rows.reduce((total, row) => total + row.difference, 0),
+    absolute_variance_qty: rows.reduce((total, row) => total + Math.abs(row.difference), 0),
+    net_variance_value: Math.round(rows.reduce((total, row) => total + Number(row.variance_value), 0) * 100) / 100,
+    top_workers: workers.slice(0, WORKER_COUNT),
+    // Never repeats a top worker on a small team
+    bottom_workers: workers.slice(Math.max(WORKER_COUNT, workers.length - WORKER_COUNT)).reverse()
+  }
+
+  return { summary, rows }
+}
+
+type Summary = Awaited<ReturnType<typeof buildSummary>>['summary']
+
+function workerTable(title: string, workers: WorkerRow[]) {
+  if (workers.length === 0) return ''
+
+  const cells = workers.map(worker => `<tr>
+    <td>${escapeHtml(worker.ranking)}</td>
+    <td>${escapeHtml(worker.username)}</td>
+    <td>${escapeHtml(worker.no_of_bins_counted)}</td>
+    <td>${escapeHtml(worker.bins_per_hour)}</td>
+    <td>${escapeHtml((Number(worker.accuracy_rate) * 100).toFixed(1))}%</td>
+    <td>${escapeHtml(worker.efficiency)}</td>
+  </tr>`).join('')
+
+  return `<h3>${title}</h3>
+  <table cellpadding="6" cellspacing="0" border="1" style="border-collapse:collapse">
+    <tr><th>Rank</th><th>Worker</th><th>Bins</th><th>Bins/hour</th><th>Accuracy</th><th>Efficiency</th></tr>
+    ${cells}
+  </table>`
+}
+
+function renderHtml(warehouse: string, date: string, summary: Summary) {
+  const planLabel = summary.campaigns.length > 0
+    ? `Campaign bins (${summary.campaigns.map(escapeHtml).join(', ')})`
+    : 'Bins in the warehouse'
+
+  const figures: [string, unknown][] = [
+    ['Bins counted', summary.bins_counted],
+    [planLabel, `${summary.plan_bins_counted} of ${summary.bins_planned} counted`],
+    ['Bins with variance', summary.bins_with_variance],
+    ['Net variance (qty)', summary.net_variance_qty],
+    ['Absolute variance (qty)', summary.absolute_variance_qty],
+    ['Net variance (value)', summary.net_variance_value.toFixed(2)],
+    ['Open recounts', summary.open_recounts],
+    ['Awaiting second count', summary.awaiting_second_count]
+  ]
+
+  return `<!DOCTYPE html>
+<html>
+<body style="font-family:sans-serif;color:#111827">
+  <h2>Count summary for ${escapeHtml(warehouse)} on ${escapeHtml(date)}</h2>
+  <table cellpadding="6" cellspacing="0" border="1" style="border-collapse:collapse">
+    ${figures.map(([label, value]) => `<tr><th align="left">${label}</th><td>${escapeHtml(value)}</td></tr>`).join('')}
+  </table>
+  ${workerTable('Top workers', summary.top_workers)}
+  ${workerTable('Bottom workers', summary.bottom_workers)}
+  <p style="color:#6b7280">Open recounts cover the whole warehouse as of when this report was built.
+  The attached CSV lists every bin counted on the day.</p>
+</body>
+</html>`
+}
+
+async function buildReport(supabase: SupabaseClient, warehouse: string, date: string): Promise<ReportMessage> {
+  const { summary, rows } = await buildSummary(supabase, warehouse, date)
+
+  return {
+    subject: `Count summary ${warehouse} ${date}`,
+    html: renderHtml(warehouse, date, summary),
+    attachment: {
+      filename: `count_summary_${warehouse.replace(/\W+/g, '_')}_${date}.csv`,
+      contentType: 'text/csv',
+      content: toCsv(CSV_COLUMNS, rows.map(row => CSV_COLUMNS.map(column => row[column])))
+    },
+    data: { warehouse, date, summary }
+  }
+}
+
+// Builds and sends one warehouse day, recording the attempt whatever happens
+async function deliver(
+  supabase: SupabaseClient,
+  subscription: Subscription,
+  warehouse: string,
+  date: string,
+  triggeredBy: string | null
+) {
+  let error: string | null = null
+  try {
+    const message = await buildReport(supabase, warehouse, date)
+    await getTransport(subscription.transport).send(message, subscription)
+  } catch (sendError) {
+    error = sendError instanceof Error ? sendError.message : String(sendError)
+  }
+
+  const { data, error: recordError } = await supabase
+    .from('report_deliveries')
+    .insert({
+      subscription_id: subscription.id,
+      wh_name: warehouse,
+      report_date: date,
+      transport: subscription.transport,
+      status: error ? 'failed' : 'sent',
+      error,
+      triggered_by: triggeredBy
+    })
+    .select()
+    .single()
+
+  if (recordError) throw recordError
+  return data
+}
+
+// Called hourly by pg_cron with the service role key; sends every summary that has come due
+async function runSchedule(req: Request) {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  if (!serviceKey || req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey)
+
+    const { data, error } = await supabase.rpc('due_daily_reports')
+    if (error) throw error
+
+    const due: DueReport[] = data
+    const subscriptionIds = due.map(report => report.subscription_id)
+    const { data: subscriptions, error: subscriptionError } = subscriptionIds.length > 0
+      ? await supabase.from('report_subscriptions').select('*').in('id', subscriptionIds)
+      : { data: [], error: null }
+
+    if (subscriptionError) throw subscriptionError
+
+    let sent = 0
+    let failed = 0
+    for (const report of due) {
+      const subscription = subscriptions.find((row: Subscription) => row.id === report.subscription_id)
+      const delivery = await deliver(supabase, subscription, report.wh_name, report.report_date, null)
+      if (delivery.status === 'sent') sent++
+      else failed++
+    }
+
+    if (due.length > 0) {
+      await audit(supabase, req, null, 'DAILY_REPORTS_RUN', { sent, failed }, null)
+    }
+
+    return new Response(JSON.stringify({ sent, failed }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+}
+
+const handleRequest = withAuth(async (req, { supabase, caller }) => {
+  if (caller.role !== 'admin' && caller.role !== 'vendor') {
+    return new Response(JSON.stringify({ error: 'Only vendors and admins can manage daily reports' }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  const url = new URL(req.url)
+  const method = req.method
+  const pathParts = url.pathname.split('/')
+
+  // A vendor's own delivery settings; admins name the vendor
+  if (pathParts.includes('subscription') || pathParts.includes('deliveries')) {
+    const vendorId = caller.role === 'vendor' ? caller.id : url.searchParams.get('vendor')
+    if (!vendorId) {
+      return validationError([{ field: 'vendor', code: 'required', message: 'Vendor is required' }])
+    }
+
+    const { data: current, error } = await supabase
+      .from('report_subscriptions')
+      .select('*')
+      .eq('vendor_id', vendorId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    // Newest attempts first, scheduled and test sends alike
+    if (method === 'GET' && pathParts.includes('deliveries')) {
+      const { data, error: deliveryError } = current
+        ? await supabase
+            .from('report_deliveries')
+            .select('*')
+            .eq('subscription_id', current.id)
+            .order('created_at', { ascending: false })
+            .limit(50)
+        : { data: [], error: null }
+
+      if (deliveryError) throw deliveryError
+
+      return new Response(JSON.stringify(data), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (method === 'GET') {
+      return new Response(JSON.stringify(current || { ...DEFAULT_SUBSCRIPTION, vendor_id: vendorId }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (method === 'PUT') {
+      const { sendAt, transport, recipients, webhookUrl, isActive } = await req.json()
+
+      const errors: FieldError[] = []
+      if (typeof sendAt !== 'string' || !TIME_PATTERN.test(sendAt)) {
+        errors.push({ field: 'sendAt', code: 'invalid_time', message: 'sendAt must be a time (HH:MM)' })
+      }
+      if (!TRANSPORT_NAMES.includes(transport)) {
+        errors.push({ field: 'transport', code: 'invalid_transport', message: `transport must be one of ${TRANSPORT_NAMES.join(', ')}` })
+      }
+
+      const emails: string[] = Array.isArray(recipients)
+        ? recipients.map((email: unknown) => String(email).trim()).filter(Boolean)
+        : []
+      const invalid = emails.filter(email => !EMAIL_PATTERN.test(email))
+      if (invalid.length > 0) {
+        errors.push({ field: 'recipients', code: 'invalid_email', message: `Not an email address: ${invalid.join(', ')}` })
+      } else if (emails.length > MAX_RECIPIENTS) {
+        errors.push({ field: 'recipients', code: 'too_many', message: `At most ${MAX_RECIPIENTS} recipients` })
+      } else if (transport === 'smtp' && emails.length === 0) {
+        errors.push({ field: 'recipients', code: 'required', message: 'At least one recipient is required for email' })
+      }
+
+      let hook: string | null = null
+      if (typeof webhookUrl === 'string' && webhookUrl.trim()) {
+        const problem = webhookUrlProblem(webhookUrl.trim())
+        if (problem) {
+          errors.push({ field: 'webhookUrl', code: 'invalid_url', message: problem })
+        } else {
+          hook = new URL(webhookUrl.trim()).toString()
+        }
+      } else if (transport === 'webhook') {
+        errors.push({ field: 'webhookUrl', code: 'required', message: 'A webhook URL is required for webhook delivery' })
+      }
+      if (errors.length > 0) return validationError(errors)
+
+      const { data, error: saveError } = await supabase
+        .from('report_subscriptions')
+        .upsert({
+          vendor_id: vendorId,
+          send_at: sendAt,
+          transport,
+          recipients: emails,
+          webhook_url: hook,
+          is_active: isActive !== false,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'vendor_id' })
+        .select()
+        .single()
+
+      if (saveError) {
+        return new Response(JSON.stringify({ error: saveError.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await audit(supabase, req, caller, 'UPDATE_REPORT_SUBSCRIPTION', {
+        vendor_id: vendorId,
+        send_at: data.send_at,
+        transport: data.transport,
+        recipients: data.recipients,
+        is_active: data.is_active
+      }, null)
+
+      return new Response(JSON.stringify(data), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+  }
+
+  // Preview and test sends work on any warehouse day the caller can see
+  if (pathParts.includes('preview') || pathParts.includes('send')) {
+    const { warehouse, date } = method === 'POST'
+      ? await req.json()
+      : { warehouse: url.searchParams.get('warehouse'), date: url.searchParams.get('date') }
+
+    const errors: FieldError[] = []
+    if (!warehouse) errors.push({ field: 'warehouse', code: 'required', message: 'Warehouse is required' })
+    if (!date || !DATE_PATTERN.test(date)) {
+      errors.push({ field: 'date', code: 'invalid_date', message: 'date must be a date (YYYY-MM-DD)' })
+    }
+    if (errors.length > 0) return validationError(errors)
+
+    if (!(await canAccessWarehouse(supabase, caller, warehouse))) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (method === 'GET' && pathParts.includes('preview')) {
+      const message = await buildReport(supabase, warehouse, date)
+
+      if (url.searchParams.get('format') === 'csv') {
+        return new Response(message.attachment.content, {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'text/csv',
+            'Content-Disposition': `attachment; filename="${message.attachment.filename}"`
+          }
+        })
+      }
+
+      return new Response(message.html, {
+        headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' }
+      })
+    }
+
+    // Sends through the warehouse vendor's subscription, outside the schedule
+    if (method === 'POST' && pathParts.includes('send')) {
+      const { data: owner } = await supabase
+        .from('warehouses')
+        .select('vendor_id')
+        .eq('code', warehouse)
+        .single()
+
+      const { data: subscription } = owner?.vendor_id
+        ? await supabase.from('report_subscriptions').select('*').eq('vendor_id', owner.vendor_id).maybeSingle()
+        : { data: null }
+
+      if (!subscription) {
+        return validationError([
+          { field: 'subscription', code: 'no_subscription', message: 'Save delivery settings before sending a report' }
+        ], 409)
+      }
+
+      const delivery = await deliver(supabase, subscription, warehouse, date, caller.id)
+
+      await audit(supabase, req, caller, 'SEND_DAILY_REPORT', {
+        date,
+        transport: delivery.transport,
+        status: delivery.status,
+        error: delivery.error
+      }, warehouse)
+
+      if (delivery.status === 'failed') {
+        return new Response(JSON.stringify({ error: `Delivery failed: ${delivery.error}`, delivery }), {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      return new Response(JSON.stringify(delivery), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+  }
+
+  return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    status: 405,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+})
+
+serve(async (req) => {
+  // The schedule has no user behind it, so it skips the sign-in check
+  if (req.method === 'POST' && new URL(req.url).pathname.split('/').includes('run')) {
+    return await runSchedule(req)
+  }
+  return await handleRequest(req)
+})
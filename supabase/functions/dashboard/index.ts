@@ -0,0 +1,157 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { canAccessUser, canAccessWarehouse, withAuth } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { businessDate } from '../_shared/dates.ts'
+
+const PAGE_SIZE = 1000
+// Counts older than this are not needed for the live board's rate and variance feed
+const LIVE_WINDOW_MINUTES = 30
+
+interface WorkerSummary {
+  worker_id: string
+  worker_user_id: string
+  team_leader_id: string | null
+  warehouse_name: string | null
+  session_active: boolean
+  bins_counted: number
+  qty_counted: number
+  variances: number
+  open_variances: number
+  efficiency: number | null
+  ranking: number | null
+}
+
+async function fetchWorkers(supabase: SupabaseClient, params: Record<string, string | null>) {
+  const rows: WorkerSummary[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('dashboard_worker_summary', params)
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    rows.push(...data)
+    if (data.length < PAGE_SIZE) return rows
+  }
+}
+
+const totalsOf = (workers: WorkerSummary[]) => ({
+  workers: workers.length,
+  activeSessions: workers.filter(worker => worker.session_active).length,
+  binsCounted: workers.reduce((total, worker) => total + worker.bins_counted, 0),
+  qtyCounted: workers.reduce((total, worker) => total + worker.qty_counted, 0),
+  variances: workers.reduce((total, worker) => total + worker.variances, 0),
+  openVariances: workers.reduce((total, worker) => total + worker.open_variances, 0)
+})
+
+serve(withAuth(async (req, { supabase, caller }) => {
+  if (req.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  const url = new URL(req.url)
+
+  // Snapshot the live board starts from before applying Realtime changes
+  if (url.pathname.split('/').includes('live')) {
+    if (caller.role === 'worker') {
+      return new Response(JSON.stringify({ error: 'Workers have no live board' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const warehouse = url.searchParams.get('warehouse') || caller.warehouse_name
+    if (!warehouse) {
+      return new Response(JSON.stringify({ error: 'Warehouse is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!await canAccessWarehouse(supabase, caller, warehouse)) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: allSessions, error: sessionsError } = await supabase
+      .rpc('live_board_sessions', { p_warehouse_name: warehouse })
+
+    if (sessionsError) throw sessionsError
+
+    const sessions = (allSessions || []).filter((session: { worker_id: string, vendor_id: string | null, team_leader_id: string | null }) =>
+      canAccessUser(caller, { id: session.worker_id, vendor_id: session.vendor_id, team_leader_id: session.team_leader_id })
+    )
+
+    const sessionIds = sessions.map((session: { session_id: string }) => session.session_id)
+    const since = new Date(Date.now() - LIVE_WINDOW_MINUTES * 60 * 1000).toISOString()
+
+    const { data: recentCounts, error: countsError } = sessionIds.length > 0
+      ? await supabase
+          .from('counting_data')
+          .select('*')
+          .in('session_id', sessionIds)
+          .gte('created_at', since)
+          .order('created_at', { ascending: false })
+          .limit(PAGE_SIZE)
+      : { data: [], error: null }
+
+    if (countsError) throw countsError
+
+    return new Response(JSON.stringify({
+      warehouse,
+      generatedAt: new Date().toISOString(),
+      sessions,
+      recentCounts
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  const date = url.searchParams.get('date') ||
+    await businessDate(supabase, url.searchParams.get('warehouse') || caller.warehouse_name)
+
+  // Each role sees only its own slice of the hierarchy
+  let scope: Record<string, string | null>
+  if (caller.role === 'admin') {
+    scope = { p_warehouse_name: url.searchParams.get('warehouse') }
+  } else if (caller.role === 'vendor') {
+    scope = { p_vendor_id: caller.id, p_warehouse_name: url.searchParams.get('warehouse') }
+  } else if (caller.role === 'team_leader') {
+    scope = { p_team_leader_id: caller.id }
+  } else {
+    return new Response(JSON.stringify({ error: 'Workers have no dashboard summary' }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  const workers = await fetchWorkers(supabase, { p_date: date, ...scope })
+
+  // Group workers under their team leader for admin and vendor views
+  const teamLeaderIds = [...new Set(workers.map(worker => worker.team_leader_id).filter(Boolean))] as string[]
+  const { data: teamLeaders } = teamLeaderIds.length > 0
+    ? await supabase.from('users').select('id, user_id, warehouse_name').in('id', teamLeaderIds)
+    : { data: [] }
+
+  const teams = (teamLeaders || []).map(teamLeader => ({
+    team_leader_id: teamLeader.id,
+    team_leader_user_id: teamLeader.user_id,
+    warehouse_name: teamLeader.warehouse_name,
+    ...totalsOf(workers.filter(worker => worker.team_leader_id === teamLeader.id))
+  }))
+  teams.sort((a, b) => b.binsCounted - a.binsCounted)
+
+  return new Response(JSON.stringify({
+    date,
+    totals: totalsOf(workers),
+    teams,
+    workers
+  }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}))
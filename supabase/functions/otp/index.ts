@@ -0,0 +1,273 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { withAuth } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { audit } from '../_shared/audit.ts'
+
+const MAX_REQUESTS_PER_WINDOW = 3
+const REQUEST_WINDOW_MINUTES = 15
+const MAX_VERIFY_ATTEMPTS = 5
+
+const generateOtpCode = () => {
+  const values = new Uint32Array(1)
+  crypto.getRandomValues(values)
+  return (values[0] % 1000000).toString().padStart(6, '0')
+}
+
+serve(withAuth(async (req, { supabase, caller }) => {
+  const url = new URL(req.url)
+  const method = req.method
+  const pathParts = url.pathname.split('/')
+
+  // Worker asks their team leader for an OTP after the password step
+  if (method === 'POST' && pathParts.includes('request')) {
+    if (caller.role !== 'worker' || !caller.team_leader_id) {
+      return new Response(JSON.stringify({ error: 'Only workers with a team leader can request an OTP' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const windowStart = new Date(Date.now() - REQUEST_WINDOW_MINUTES * 60 * 1000).toISOString()
+    const { count } = await supabase
+      .from('otp_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('worker_id', caller.id)
+      .gte('created_at', windowStart)
+
+    if ((count || 0) >= MAX_REQUESTS_PER_WINDOW) {
+      await audit(supabase, req, caller, 'OTP_RATE_LIMITED', {
+        requests: count,
+        window_minutes: REQUEST_WINDOW_MINUTES
+      })
+
+      return new Response(JSON.stringify({ error: 'Too many OTP requests, please try again later' }), {
+        status: 429,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: otpRequest, error: insertError } = await supabase
+      .from('otp_requests')
+      .insert({
+        worker_id: caller.id,
+        team_leader_id: caller.team_leader_id,
+        otp_code: generateOtpCode()
+      })
+      .select('id, is_approved, expires_at, created_at')
+      .single()
+
+    if (insertError) {
+      return new Response(JSON.stringify({ error: insertError.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, 'OTP_REQUEST', {
+      otp_request_id: otpRequest.id,
+      team_leader_id: caller.team_leader_id
+    })
+
+    return new Response(JSON.stringify(otpRequest), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Worker polls whether the team leader has approved yet
+  if (method === 'GET' && pathParts.includes('status')) {
+    const requestId = pathParts[pathParts.length - 1]
+
+    const { data: otpRequest } = await supabase
+      .from('otp_requests')
+      .select('id, is_approved, expires_at, verified_at')
+      .eq('id', requestId)
+      .eq('worker_id', caller.id)
+      .single()
+
+    if (!otpRequest) {
+      return new Response(JSON.stringify({ error: 'OTP request not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify(otpRequest), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Team leader's pending, unexpired requests
+  if (method === 'GET' && pathParts.includes('pending')) {
+    if (caller.role !== 'team_leader') {
+      return new Response(JSON.stringify({ error: 'Only team leaders can view OTP requests' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data, error } = await supabase
+      .from('otp_requests')
+      .select('id, worker_id, is_approved, expires_at, created_at, worker:users!otp_requests_worker_id_fkey(user_id)')
+      .eq('team_leader_id', caller.id)
+      .eq('is_approved', false)
+      .is('verified_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify(data), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Team leader approves; the code is returned so it can be handed to the worker
+  if (method === 'POST' && pathParts.includes('approve')) {
+    const requestId = pathParts[pathParts.length - 1]
+
+    const { data: otpRequest } = await supabase
+      .from('otp_requests')
+      .select('*')
+      .eq('id', requestId)
+      .eq('team_leader_id', caller.id)
+      .single()
+
+    if (!otpRequest) {
+      return new Response(JSON.stringify({ error: 'OTP request not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (new Date(otpRequest.expires_at) <= new Date()) {
+      return new Response(JSON.stringify({ error: 'OTP request has expired' }), {
+        status: 410,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: approved, error: updateError } = await supabase
+      .from('otp_requests')
+      .update({
+        is_approved: true,
+        approved_at: new Date().toISOString()
+      })
+      .eq('id', requestId)
+      .select('id, worker_id, otp_code, is_approved, approved_at, expires_at')
+      .single()
+
+    if (updateError) {
+      return new Response(JSON.stringify({ error: updateError.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, 'OTP_APPROVE', {
+      otp_request_id: requestId,
+      worker_id: otpRequest.worker_id
+    })
+
+    return new Response(JSON.stringify(approved), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Worker enters the code handed over by the team leader
+  if (method === 'POST' && pathParts.includes('verify')) {
+    const { requestId, code } = await req.json()
+
+    const { data: otpRequest } = await supabase
+      .from('otp_requests')
+      .select('*')
+      .eq('id', requestId)
+      .eq('worker_id', caller.id)
+      .single()
+
+    if (!otpRequest) {
+      return new Response(JSON.stringify({ error: 'OTP request not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (otpRequest.verified_at) {
+      return new Response(JSON.stringify({ error: 'OTP has already been used' }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (new Date(otpRequest.expires_at) <= new Date()) {
+      await audit(supabase, req, caller, 'OTP_VERIFY_FAILED', {
+        otp_request_id: requestId,
+        reason: 'expired'
+      })
+
+      return new Response(JSON.stringify({ error: 'OTP has expired, please request a new one' }), {
+        status: 410,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!otpRequest.is_approved) {
+      return new Response(JSON.stringify({ error: 'OTP has not been approved by your team leader yet' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // The attempt is taken before the code is compared, so parallel guesses cannot exceed the limit
+    const { data: attempt, error: attemptError } = await supabase.rpc('spend_otp_attempt', {
+      p_request_id: requestId,
+      p_max_attempts: MAX_VERIFY_ATTEMPTS
+    })
+
+    if (attemptError) throw attemptError
+
+    if (attempt === null) {
+      return new Response(JSON.stringify({ error: 'Too many attempts, please request a new OTP' }), {
+        status: 429,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (otpRequest.otp_code !== String(code ?? '').trim()) {
+      await audit(supabase, req, caller, 'OTP_VERIFY_FAILED', {
+        otp_request_id: requestId,
+        reason: 'wrong_code',
+        attempt,
+        max_attempts: MAX_VERIFY_ATTEMPTS
+      })
+
+      return new Response(JSON.stringify({
+        error: 'Invalid OTP code',
+        attemptsRemaining: MAX_VERIFY_ATTEMPTS - attempt
+      }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await supabase
+      .from('otp_requests')
+      .update({ verified_at: new Date().toISOString() })
+      .eq('id', requestId)
+
+    await audit(supabase, req, caller, 'OTP_VERIFIED', { otp_request_id: requestId })
+
+    return new Response(JSON.stringify({ verified: true }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    status: 405,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}, { allowPendingOtp: true }))
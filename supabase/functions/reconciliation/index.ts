@@ -0,0 +1,222 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { withAuth, canAccessWarehouse } from '../_shared/auth.ts'
+import { toCsv } from '../_shared/csv.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { audit } from '../_shared/audit.ts'
+
+const PAGE_SIZE = 1000
+
+interface ReportScope {
+  warehouse: string
+  campaignId: string | null
+  from: string | null
+  to: string | null
+}
+
+// One row of `reconciliation_report`
+interface ReportRow {
+  counting_data_id: string
+  bin_id: string
+  bin_no: string
+  counted_on: string
+  username: string
+  qty_as_per_books: number
+  qty_counted: number
+  qty_recounted_tl: number | null
+  final_qty: number
+  difference: number
+  unit_value: number | null
+  variance_value: number
+  reason_for_difference: string | null
+  is_locked: boolean
+  current_books: number
+  posted: boolean
+}
+
+// One row of `reconciliation_item_report`
+interface ItemReportRow {
+  counting_data_id: string
+  bin_no: string
+  sku: string | null
+  description: string | null
+  uom: string | null
+  counted_on: string
+  username: string
+  qty_as_per_books: number
+  qty_counted: number
+  qty_second_count: number | null
+  qty_recounted_tl: number | null
+  final_qty: number
+  difference: number
+  reason_for_difference: string | null
+  is_locked: boolean
+  posted: boolean
+}
+
+const REPORT_COLUMNS: (keyof ReportRow)[] = [
+  'bin_no', 'counted_on', 'username', 'qty_as_per_books', 'qty_counted', 'qty_recounted_tl',
+  'final_qty', 'difference', 'unit_value', 'variance_value', 'reason_for_difference', 'is_locked', 'posted'
+]
+
+// Bins without SKU contents appear once with an empty sku
+const ITEM_REPORT_COLUMNS: (keyof ItemReportRow)[] = [
+  'bin_no', 'sku', 'description', 'uom', 'counted_on', 'username', 'qty_as_per_books', 'qty_counted',
+  'qty_second_count', 'qty_recounted_tl', 'final_qty', 'difference', 'reason_for_difference', 'is_locked', 'posted'
+]
+
+async function fetchReport<T = ReportRow>(supabase: SupabaseClient, scope: ReportScope, report = 'reconciliation_report') {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc(report, {
+        p_warehouse_name: scope.warehouse,
+        p_campaign_id: scope.campaignId,
+        p_from: scope.from,
+        p_to: scope.to
+      })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    rows.push(...data)
+    if (data.length < PAGE_SIZE) return rows
+  }
+}
+
+const summarize = (rows: ReportRow[]) => ({
+  bins: rows.length,
+  binsWithVariance: rows.filter(row => row.difference !== 0).length,
+  netVarianceQty: rows.reduce((total, row) => total + row.difference, 0),
+  netVarianceValue: Math.round(rows.reduce((total, row) => total + Number(row.variance_value), 0) * 100) / 100,
+  pendingApproval: rows.filter(row => row.difference !== 0 && !row.is_locked).length,
+  readyToPost: rows.filter(row => row.is_locked && !row.posted && row.final_qty !== row.current_books).length
+})
+
+serve(withAuth(async (req, { supabase, caller }) => {
+  if (!['admin', 'vendor', 'team_leader'].includes(caller.role)) {
+    return new Response(JSON.stringify({ error: 'Not allowed to view reconciliation' }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  const url = new URL(req.url)
+  const method = req.method
+  const pathParts = url.pathname.split('/')
+
+  // Vendor or admin sign-off posts approved variances to the books
+  if (method === 'POST' && pathParts.includes('sign-off')) {
+    if (caller.role !== 'admin' && caller.role !== 'vendor') {
+      return new Response(JSON.stringify({ error: 'Only vendors and admins can sign off adjustments' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { warehouse, campaignId, from, to } = await req.json()
+    if (!warehouse) {
+      return new Response(JSON.stringify({ error: 'Warehouse is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!(await canAccessWarehouse(supabase, caller, warehouse))) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: posted, error } = await supabase.rpc('post_stock_adjustments', {
+      p_warehouse_name: warehouse,
+      p_approved_by: caller.id,
+      p_campaign_id: campaignId || null,
+      p_from: from || null,
+      p_to: to || null
+    })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, 'RECONCILIATION_SIGN_OFF', {
+      campaign_id: campaignId || null,
+      from: from || null,
+      to: to || null,
+      posted
+    }, warehouse)
+
+    return new Response(JSON.stringify({ posted }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (method === 'GET') {
+    const scope: ReportScope = {
+      warehouse: url.searchParams.get('warehouse') || caller.warehouse_name || '',
+      campaignId: url.searchParams.get('campaignId'),
+      from: url.searchParams.get('from'),
+      to: url.searchParams.get('to')
+    }
+
+    if (!scope.warehouse) {
+      return new Response(JSON.stringify({ error: 'Warehouse is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!(await canAccessWarehouse(supabase, caller, scope.warehouse))) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // SKU-level variance for the client audit
+    if (pathParts.includes('items')) {
+      const itemRows = await fetchReport<ItemReportRow>(supabase, scope, 'reconciliation_item_report')
+
+      if (pathParts.includes('export')) {
+        const csv = toCsv(ITEM_REPORT_COLUMNS, itemRows.map(row => ITEM_REPORT_COLUMNS.map(column => row[column])))
+        return new Response(csv, {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'text/csv',
+            'Content-Disposition': `attachment; filename="reconciliation_items_${scope.warehouse.replace(/\W+/g, '_')}.csv"`
+          }
+        })
+      }
+
+      return new Response(JSON.stringify(itemRows), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const rows = await fetchReport(supabase, scope)
+
+    if (pathParts.includes('export')) {
+      const csv = toCsv(REPORT_COLUMNS, rows.map(row => REPORT_COLUMNS.map(column => row[column])))
+      return new Response(csv, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="reconciliation_${scope.warehouse.replace(/\W+/g, '_')}.csv"`
+        }
+      })
+    }
+
+    return new Response(JSON.stringify({ summary: summarize(rows), rows }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    status: 405,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}))
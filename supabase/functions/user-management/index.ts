@@ -0,0 +1,723 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCaller, canAccessWarehouse, scopedWarehouses, hasVerifiedOtp } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { hashPassword, verifyPassword, authEmailFor, MIN_PASSWORD_LENGTH } from '../_shared/password.ts'
+import { audit, clientIp } from '../_shared/audit.ts'
+
+// Never return password hashes
+const USER_COLUMNS = 'id, user_id, role, email, warehouse_name, vendor_id, team_leader_id, is_approved, is_active, ' +
+  'created_by, approved_by, approved_at, deactivated_at, created_at, updated_at'
+
+// Each role provisions the role directly below it
+const CHILD_ROLE: Record<string, string> = {
+  admin: 'vendor',
+  vendor: 'team_leader',
+  team_leader: 'worker'
+}
+
+// Warehouse assignments, flattened to codes in list responses
+const ASSIGNMENT_COLUMNS = 'assignments:user_warehouses(warehouse:warehouses(code))'
+
+// Failed sign-ins allowed per account and per client address before further attempts are refused
+const FAILED_LOGIN_WINDOW_MINUTES = 15
+const MAX_FAILED_LOGINS_PER_USER = 5
+const MAX_FAILED_LOGINS_PER_IP = 20
+
+// Placeholder hash of the admin seeded by the initial schema
+const SEEDED_ADMIN_HASH = '$2b$10$example_hash_replace_with_real'
+
+interface HierarchyUser {
+  id: string
+  role: string
+  vendor_id: string | null
+  team_leader_id: string | null
+}
+
+// Admins manage everyone below them, vendors their TLs and workers, TLs their workers
+function canManage(caller: HierarchyUser, target: HierarchyUser) {
+  if (caller.role === 'admin') return target.role !== 'admin'
+  if (caller.role === 'vendor') return target.role !== 'vendor' && target.vendor_id === caller.id
+  if (caller.role === 'team_leader') return target.role === 'worker' && target.team_leader_id === caller.id
+  return false
+}
+
+// Only an account's own parent vouches for it: admins for vendors, vendors for their TLs, TLs for their workers
+function isDirectParent(caller: HierarchyUser, target: HierarchyUser) {
+  if (target.role === 'vendor') return caller.role === 'admin'
+  if (target.role === 'team_leader') return caller.role === 'vendor' && target.vendor_id === caller.id
+  if (target.role === 'worker') return caller.role === 'team_leader' && target.team_leader_id === caller.id
+  return false
+}
+
+// Recent LOGIN_FAILED entries for the account and for the client address
+async function tooManyFailedLogins(supabase: SupabaseClient, accountId: string | null, ip: string | null) {
+  const since = new Date(Date.now() - FAILED_LOGIN_WINDOW_MINUTES * 60 * 1000).toISOString()
+  const failures = () => supabase
+    .from('audit_logs')
+    .select('id', { count: 'exact', head: true })
+    .eq('action', 'LOGIN_FAILED')
+    .gte('created_at', since)
+
+  if (accountId) {
+    const { count } = await failures().eq('user_id', accountId)
+    if ((count ?? 0) >= MAX_FAILED_LOGINS_PER_USER) return true
+  }
+  if (ip) {
+    const { count } = await failures().eq('ip_address', ip)
+    if ((count ?? 0) >= MAX_FAILED_LOGINS_PER_IP) return true
+  }
+  return false
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const url = new URL(req.url)
+    const method = req.method
+    const pathParts = url.pathname.split('/')
+
+    // Sign in with user ID and password
+    if (method === 'POST' && pathParts.includes('login')) {
+      const { userId, password } = await req.json()
+
+      const { data: account } = await supabase
+        .from('users')
+        .select('*')
+        .eq('user_id', userId || '')
+        .maybeSingle()
+
+      // Checked before the password so a guess in a locked-out window tells the caller nothing
+      if (await tooManyFailedLogins(supabase, account?.id ?? null, clientIp(req))) {
+        await audit(supabase, req, account, 'LOGIN_THROTTLED', { user_id: userId || null })
+
+        return new Response(JSON.stringify({
+          error: `Too many failed sign-in attempts. Try again in ${FAILED_LOGIN_WINDOW_MINUTES} minutes`
+        }), {
+          status: 429,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            'Retry-After': String(FAILED_LOGIN_WINDOW_MINUTES * 60)
+          }
+        })
+      }
+
+      if (!account || !verifyPassword(password || '', account.password_hash)) {
+        await audit(supabase, req, account, 'LOGIN_FAILED', {
+          user_id: userId || null,
+          reason: account ? 'wrong_password' : 'unknown_user'
+        })
+
+        return new Response(JSON.stringify({ error: 'Invalid user ID or password' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (!account.is_approved || account.is_active === false) {
+        await audit(supabase, req, account, 'LOGIN_FAILED', {
+          user_id: account.user_id,
+          reason: account.is_active === false ? 'deactivated' : 'awaiting_approval'
+        })
+
+        return new Response(JSON.stringify({
+          error: account.is_active === false ? 'Account is deactivated' : 'Account is awaiting approval'
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const authClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+      )
+      const { data: auth, error } = await authClient.auth.signInWithPassword({
+        email: authEmailFor(account.user_id),
+        password
+      })
+
+      if (error || !auth.session) {
+        await audit(supabase, req, account, 'LOGIN_FAILED', {
+          user_id: account.user_id,
+          reason: 'auth_rejected'
+        })
+
+        return new Response(JSON.stringify({ error: 'Invalid user ID or password' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await audit(supabase, req, account, 'LOGIN', { user_id: account.user_id })
+
+      // Until then the token is refused everywhere but the OTP function
+      const otpRequired = account.role === 'worker' && !(await hasVerifiedOtp(supabase, account.id))
+
+      const { password_hash: _passwordHash, ...user } = account
+      return new Response(JSON.stringify({
+        user,
+        accessToken: auth.session.access_token,
+        refreshToken: auth.session.refresh_token,
+        expiresAt: auth.session.expires_at,
+        otpRequired
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // One-time password setup for the seeded admin, guarded by a deploy secret
+    if (method === 'POST' && pathParts.includes('bootstrap')) {
+      const { token, password } = await req.json()
+      const bootstrapToken = Deno.env.get('ADMIN_BOOTSTRAP_TOKEN')
+
+      if (!bootstrapToken || token !== bootstrapToken) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (!password || password.length < MIN_PASSWORD_LENGTH) {
+        return new Response(JSON.stringify({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: admin } = await supabase
+        .from('users')
+        .select('id, user_id, role, warehouse_name')
+        .eq('role', 'admin')
+        .eq('password_hash', SEEDED_ADMIN_HASH)
+        .maybeSingle()
+
+      if (!admin) {
+        return new Response(JSON.stringify({ error: 'Admin is already set up' }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { error: authError } = await supabase.auth.admin.createUser({
+        id: admin.id,
+        email: authEmailFor(admin.user_id),
+        password,
+        email_confirm: true
+      })
+
+      if (authError) {
+        return new Response(JSON.stringify({ error: authError.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await supabase
+        .from('users')
+        .update({ password_hash: hashPassword(password), is_active: true })
+        .eq('id', admin.id)
+
+      await audit(supabase, req, admin, 'BOOTSTRAP_ADMIN', { user_id: admin.user_id })
+
+      return new Response(JSON.stringify({ bootstrapped: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const caller = await getCaller(req, supabase)
+    if (!caller) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!CHILD_ROLE[caller.role]) {
+      return new Response(JSON.stringify({ error: 'Workers cannot manage users' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Create an account one level below the caller
+    if (method === 'POST' && pathParts[pathParts.length - 1] === 'user-management') {
+      const { userId, password, role, email, warehouseName } = await req.json()
+      const childRole = CHILD_ROLE[caller.role]
+
+      if (role && role !== childRole) {
+        return new Response(JSON.stringify({ error: `A ${caller.role} can only create ${childRole} accounts` }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (!/^[A-Za-z0-9._-]{3,50}$/.test(userId || '')) {
+        return new Response(JSON.stringify({ error: 'User ID must be 3-50 letters, digits, dots, dashes or underscores' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (!password || password.length < MIN_PASSWORD_LENGTH) {
+        return new Response(JSON.stringify({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // Workers inherit their team leader's vendor and warehouse
+      const placement = childRole === 'vendor'
+        ? { warehouse_name: warehouseName || null }
+        : childRole === 'team_leader'
+          ? { vendor_id: caller.id, warehouse_name: warehouseName || null }
+          : { vendor_id: caller.vendor_id, team_leader_id: caller.id, warehouse_name: caller.warehouse_name }
+
+      if (childRole === 'team_leader' && !placement.warehouse_name) {
+        return new Response(JSON.stringify({ error: 'Team leaders need a warehouse' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (placement.warehouse_name && !(await canAccessWarehouse(supabase, caller, placement.warehouse_name))) {
+        return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: existing } = await supabase
+        .from('users')
+        .select('id')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (existing) {
+        return new Response(JSON.stringify({ error: `User ID ${userId} is already taken` }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
+        email: authEmailFor(userId),
+        password,
+        email_confirm: true
+      })
+
+      if (authError || !authUser.user) {
+        return new Response(JSON.stringify({ error: authError?.message || 'Failed to create account' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: user, error } = await supabase
+        .from('users')
+        .insert({
+          id: authUser.user.id,
+          user_id: userId,
+          role: childRole,
+          password_hash: hashPassword(password),
+          email: email || null,
+          created_by: caller.id,
+          is_approved: false,
+          ...placement
+        })
+        .select(USER_COLUMNS)
+        .single()
+
+      if (error) {
+        await supabase.auth.admin.deleteUser(authUser.user.id)
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: error.code === '23505' ? 409 : 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await audit(supabase, req, caller, 'CREATE_USER', {
+        target_id: user.id,
+        target_user_id: userId,
+        target_role: childRole,
+        vendor_id: user.vendor_id,
+        team_leader_id: user.team_leader_id
+      }, user.warehouse_name)
+
+      return new Response(JSON.stringify(user), {
+        status: 201,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // List the caller's part of the hierarchy
+    if (method === 'GET') {
+      let query = supabase.from('users').select(`${USER_COLUMNS}, ${ASSIGNMENT_COLUMNS}`).neq('role', 'admin')
+      if (caller.role === 'vendor') {
+        query = query.eq('vendor_id', caller.id)
+      } else if (caller.role === 'team_leader') {
+        query = query.eq('team_leader_id', caller.id)
+      }
+      if (url.searchParams.get('pending') === 'true') {
+        query = query.eq('is_approved', false)
+      }
+
+      const { data, error } = await query.order('role').order('user_id')
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const users = data.map(({ assignments, ...user }) => ({
+        ...user,
+        warehouses: assignments.map((assignment: { warehouse: { code: string } }) => assignment.warehouse.code).sort()
+      }))
+
+      return new Response(JSON.stringify(users), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (method !== 'POST') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Remaining routes act on one account: /:id/<action>
+    const targetId = pathParts[pathParts.length - 2]
+    const { data: target } = await supabase
+      .from('users')
+      .select(USER_COLUMNS)
+      .eq('id', targetId)
+      .maybeSingle()
+
+    if (!target || !canManage(caller, target)) {
+      return new Response(JSON.stringify({ error: 'User not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Parent approves a newly created account
+    if (pathParts.includes('approve')) {
+      if (!isDirectParent(caller, target)) {
+        return new Response(JSON.stringify({
+          error: target.role === 'worker'
+            ? "Only the worker's team leader can approve the account"
+            : 'Only the account\'s direct parent can approve it'
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: user, error } = await supabase
+        .from('users')
+        .update({ is_approved: true, approved_by: caller.id, approved_at: new Date().toISOString() })
+        .eq('id', target.id)
+        .select(USER_COLUMNS)
+        .single()
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await audit(supabase, req, caller, 'APPROVE_USER', {
+        target_id: target.id,
+        target_user_id: target.user_id,
+        target_role: target.role
+      }, target.warehouse_name)
+
+      return new Response(JSON.stringify(user), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Deactivate or reactivate; deactivation also ends any active session
+    if (pathParts.includes('deactivate') || pathParts.includes('reactivate')) {
+      const active = pathParts.includes('reactivate')
+
+      const { data: user, error } = await supabase
+        .from('users')
+        .update({ is_active: active, deactivated_at: active ? null : new Date().toISOString() })
+        .eq('id', target.id)
+        .select(USER_COLUMNS)
+        .single()
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await supabase.auth.admin.updateUserById(target.id, { ban_duration: active ? 'none' : '876000h' })
+
+      // Closed like any other session: breaks ended, performance finalized, and the reason recorded
+      if (!active) {
+        const { data: sessions, error: sessionsError } = await supabase
+          .from('counting_sessions')
+          .select('id')
+          .eq('worker_id', target.id)
+          .eq('status', 'active')
+
+        if (sessionsError) throw sessionsError
+
+        for (const session of sessions) {
+          const { error: closeError } = await supabase.rpc('close_session', {
+            p_session_id: session.id,
+            p_end_reason: 'user_deactivated',
+            p_ended_by: caller.id,
+            p_note: 'Account deactivated'
+          })
+
+          if (closeError) throw closeError
+        }
+      }
+
+      await audit(supabase, req, caller, active ? 'REACTIVATE_USER' : 'DEACTIVATE_USER', {
+        target_id: target.id,
+        target_user_id: target.user_id,
+        target_role: target.role
+      }, target.warehouse_name)
+
+      return new Response(JSON.stringify(user), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Set a new password chosen by the parent
+    if (pathParts.includes('reset-password')) {
+      const { password } = await req.json()
+
+      if (!password || password.length < MIN_PASSWORD_LENGTH) {
+        return new Response(JSON.stringify({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { error: authError } = await supabase.auth.admin.updateUserById(target.id, { password })
+      if (authError) {
+        return new Response(JSON.stringify({ error: authError.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await supabase
+        .from('users')
+        .update({ password_hash: hashPassword(password) })
+        .eq('id', target.id)
+
+      await audit(supabase, req, caller, 'RESET_PASSWORD', {
+        target_id: target.id,
+        target_user_id: target.user_id,
+        target_role: target.role
+      }, target.warehouse_name)
+
+      return new Response(JSON.stringify({ reset: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Move a worker to another team leader of the same vendor
+    if (pathParts.includes('move')) {
+      const { teamLeaderId } = await req.json()
+
+      if (caller.role === 'team_leader' || target.role !== 'worker') {
+        return new Response(JSON.stringify({ error: 'Only vendors and admins can move workers' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: teamLeader } = await supabase
+        .from('users')
+        .select('id, user_id, vendor_id, warehouse_name, is_active')
+        .eq('id', teamLeaderId || '')
+        .eq('role', 'team_leader')
+        .maybeSingle()
+
+      if (!teamLeader || teamLeader.is_active === false || (caller.role === 'vendor' && teamLeader.vendor_id !== caller.id)) {
+        return new Response(JSON.stringify({ error: 'Team leader not found in your hierarchy' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: activeSession } = await supabase
+        .from('counting_sessions')
+        .select('id')
+        .eq('worker_id', target.id)
+        .eq('status', 'active')
+        .maybeSingle()
+
+      if (activeSession) {
+        return new Response(JSON.stringify({ error: 'Worker has an active counting session' }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: user, error } = await supabase
+        .from('users')
+        .update({
+          team_leader_id: teamLeader.id,
+          vendor_id: teamLeader.vendor_id,
+          warehouse_name: teamLeader.warehouse_name
+        })
+        .eq('id', target.id)
+        .select(USER_COLUMNS)
+        .single()
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await audit(supabase, req, caller, 'MOVE_WORKER', {
+        target_id: target.id,
+        target_user_id: target.user_id,
+        from_team_leader_id: target.team_leader_id,
+        to_team_leader_id: teamLeader.id,
+        to_team_leader: teamLeader.user_id,
+        from_warehouse: target.warehouse_name
+      }, teamLeader.warehouse_name)
+
+      return new Response(JSON.stringify(user), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Replace the warehouses an account works in; `primary` becomes users.warehouse_name
+    if (pathParts.includes('warehouses')) {
+      const { warehouseCodes, primary } = await req.json()
+
+      if (!Array.isArray(warehouseCodes) || warehouseCodes.length === 0 ||
+          !warehouseCodes.every((code: unknown) => typeof code === 'string' && code)) {
+        return new Response(JSON.stringify({ error: 'warehouseCodes must list at least one warehouse' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const codes: string[] = [...new Set(warehouseCodes as string[])]
+      const primaryCode = primary || (codes.includes(target.warehouse_name) ? target.warehouse_name : codes[0])
+
+      if (!codes.includes(primaryCode)) {
+        return new Response(JSON.stringify({ error: 'The primary warehouse must be one of warehouseCodes' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const scope = await scopedWarehouses(supabase, caller)
+      const { data: warehouses } = await supabase
+        .from('warehouses')
+        .select('id, code')
+        .in('code', codes)
+
+      const unknown = codes.filter(code =>
+        !(warehouses || []).some(warehouse => warehouse.code === code) || (scope !== null && !scope.includes(code))
+      )
+      if (unknown.length > 0) {
+        return new Response(JSON.stringify({ error: `Warehouse not found in your hierarchy: ${unknown.join(', ')}` }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // A running session must stay in a warehouse its worker still belongs to
+      const { data: activeSession } = await supabase
+        .from('counting_sessions')
+        .select('warehouse_name')
+        .eq('worker_id', target.id)
+        .eq('status', 'active')
+        .maybeSingle()
+
+      if (activeSession && !codes.includes(activeSession.warehouse_name)) {
+        return new Response(JSON.stringify({ error: `Worker has an active counting session in ${activeSession.warehouse_name}` }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // The users trigger moves the primary assignment along with warehouse_name
+      const { data: user, error } = await supabase
+        .from('users')
+        .update({ warehouse_name: primaryCode })
+        .eq('id', target.id)
+        .select(USER_COLUMNS)
+        .single()
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const warehouseIds = warehouses!.map(warehouse => warehouse.id)
+
+      const { error: removeError } = await supabase
+        .from('user_warehouses')
+        .delete()
+        .eq('user_id', target.id)
+        .not('warehouse_id', 'in', `(${warehouseIds.join(',')})`)
+
+      if (removeError) throw removeError
+
+      const { error: addError } = await supabase
+        .from('user_warehouses')
+        .upsert(
+          warehouseIds.map(warehouseId => ({ user_id: target.id, warehouse_id: warehouseId })),
+          { onConflict: 'user_id,warehouse_id', ignoreDuplicates: true }
+        )
+
+      if (addError) throw addError
+
+      await audit(supabase, req, caller, 'ASSIGN_WAREHOUSES', {
+        target_id: target.id,
+        target_user_id: target.user_id,
+        target_role: target.role,
+        warehouses: codes,
+        primary: primaryCode
+      }, primaryCode)
+
+      return new Response(JSON.stringify({ ...user, warehouses: codes.sort() }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
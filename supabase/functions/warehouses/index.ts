@@ -0,0 +1,305 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { withAuth, scopedWarehouses, Caller } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { validationError, FieldError } from '../_shared/validation.ts'
+import { audit } from '../_shared/audit.ts'
+
+const CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ._-]{0,49}$/
+const CUTOFF_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function isVendor(supabase: SupabaseClient, userId: string) {
+  const { data: vendor } = await supabase
+    .from('users')
+    .select('id')
+    .eq('id', userId)
+    .eq('role', 'vendor')
+    .maybeSingle()
+
+  return !!vendor
+}
+
+// Admins manage every warehouse, vendors the ones they own
+async function findManagedWarehouse(supabase: SupabaseClient, caller: Caller, warehouseId: string) {
+  const { data: warehouse } = await supabase
+    .from('warehouses')
+    .select('*')
+    .eq('id', warehouseId)
+    .maybeSingle()
+
+  if (!warehouse || (caller.role !== 'admin' && warehouse.vendor_id !== caller.id)) return null
+  return warehouse
+}
+
+serve(withAuth(async (req, { supabase, caller }) => {
+  const url = new URL(req.url)
+  const method = req.method
+  const pathParts = url.pathname.split('/')
+
+  // Zones and aisles of a warehouse
+  if (pathParts.includes('zones')) {
+    const warehouseId = pathParts[pathParts.length - 2]
+
+    if (method === 'GET') {
+      const { data: warehouse } = await supabase
+        .from('warehouses')
+        .select('code')
+        .eq('id', warehouseId)
+        .maybeSingle()
+
+      const scope = await scopedWarehouses(supabase, caller)
+      if (!warehouse || (scope !== null && !scope.includes(warehouse.code))) {
+        return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data, error } = await supabase
+        .from('warehouse_zones')
+        .select('*')
+        .eq('warehouse_id', warehouseId)
+        .order('code', { ascending: true })
+
+      if (error) throw error
+
+      return new Response(JSON.stringify(data), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (method === 'POST') {
+      const warehouse = await findManagedWarehouse(supabase, caller, warehouseId)
+      if (!warehouse) {
+        return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { code, name, parentZoneId = null } = await req.json()
+      const details: FieldError[] = []
+      if (!CODE_PATTERN.test(code || '')) {
+        details.push({ field: 'code', code: 'invalid_code', message: 'Zone code must be 1-50 letters, digits, spaces, dots, dashes or underscores' })
+      }
+
+      // Aisles hang off a zone of the same warehouse
+      if (parentZoneId) {
+        const { data: parent } = await supabase
+          .from('warehouse_zones')
+          .select('id')
+          .eq('id', parentZoneId)
+          .eq('warehouse_id', warehouse.id)
+          .maybeSingle()
+
+        if (!parent) {
+          details.push({ field: 'parentZoneId', code: 'unknown_zone', message: `Parent zone is not in ${warehouse.code}` })
+        }
+      }
+
+      if (details.length > 0) return validationError(details)
+
+      const { data: zone, error } = await supabase
+        .from('warehouse_zones')
+        .insert({
+          warehouse_id: warehouse.id,
+          parent_zone_id: parentZoneId,
+          code,
+          name: name || code
+        })
+        .select()
+        .single()
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.code === '23505' ? `Zone ${code} already exists in ${warehouse.code}` : error.message }), {
+          status: error.code === '23505' ? 409 : 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await audit(supabase, req, caller, 'CREATE_ZONE', {
+        zone_id: zone.id,
+        code,
+        kind: parentZoneId ? 'aisle' : 'zone',
+        parent_zone_id: parentZoneId
+      }, warehouse.code)
+
+      return new Response(JSON.stringify(zone), {
+        status: 201,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+  }
+
+  // Warehouses the caller works in or owns
+  if (method === 'GET') {
+    let query = supabase.from('warehouses').select('*')
+
+    const scope = await scopedWarehouses(supabase, caller)
+    if (scope !== null) {
+      query = query.in('code', scope)
+    }
+    // Only the ones the caller can edit
+    if (url.searchParams.get('managed') === 'true' && caller.role !== 'admin') {
+      query = query.eq('vendor_id', caller.id)
+    }
+    if (url.searchParams.get('includeInactive') !== 'true') {
+      query = query.eq('is_active', true)
+    }
+
+    const { data, error } = await query.order('code', { ascending: true })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify(data), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Create a warehouse; vendors own the ones they create
+  if (method === 'POST') {
+    if (caller.role !== 'admin' && caller.role !== 'vendor') {
+      return new Response(JSON.stringify({ error: 'Only admins and vendors can create warehouses' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { code, name, timezone = 'UTC', shiftCutoff = '00:00', vendorId } = await req.json()
+    const details: FieldError[] = []
+
+    if (!CODE_PATTERN.test(code || '')) {
+      details.push({ field: 'code', code: 'invalid_code', message: 'Warehouse code must be 1-50 letters, digits, spaces, dots, dashes or underscores' })
+    }
+    if (!isValidTimezone(timezone)) {
+      details.push({ field: 'timezone', code: 'invalid_timezone', message: `${timezone} is not a known time zone` })
+    }
+    if (!CUTOFF_PATTERN.test(shiftCutoff)) {
+      details.push({ field: 'shiftCutoff', code: 'invalid_cutoff', message: 'Shift cutoff must be a time (HH:MM)' })
+    }
+
+    const ownerId = caller.role === 'vendor' ? caller.id : vendorId || null
+    if (ownerId && ownerId !== caller.id && !(await isVendor(supabase, ownerId))) {
+      details.push({ field: 'vendorId', code: 'unknown_vendor', message: 'Owning vendor not found' })
+    }
+
+    if (details.length > 0) return validationError(details)
+
+    const { data: warehouse, error } = await supabase
+      .from('warehouses')
+      .insert({ code, name: name || code, timezone, shift_cutoff: shiftCutoff, vendor_id: ownerId })
+      .select()
+      .single()
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.code === '23505' ? `Warehouse ${code} already exists` : error.message }), {
+        status: error.code === '23505' ? 409 : 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, 'CREATE_WAREHOUSE', {
+      warehouse_id: warehouse.id,
+      timezone: warehouse.timezone,
+      shift_cutoff: warehouse.shift_cutoff,
+      vendor_id: warehouse.vendor_id
+    }, code)
+
+    return new Response(JSON.stringify(warehouse), {
+      status: 201,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  // Rename, change time zone or shift cutoff, (de)activate or, for admins, hand to another vendor; codes never change
+  if (method === 'PUT') {
+    const warehouse = await findManagedWarehouse(supabase, caller, pathParts[pathParts.length - 1])
+    if (!warehouse) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { name, timezone, shiftCutoff, isActive, vendorId } = await req.json()
+    const details: FieldError[] = []
+    const update: Record<string, unknown> = { updated_at: new Date().toISOString() }
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        details.push({ field: 'name', code: 'required', message: 'Name cannot be empty' })
+      }
+      update.name = name
+    }
+    if (timezone !== undefined) {
+      if (!isValidTimezone(timezone)) {
+        details.push({ field: 'timezone', code: 'invalid_timezone', message: `${timezone} is not a known time zone` })
+      }
+      update.timezone = timezone
+    }
+    // Applies to sessions started from now on; existing sessions keep their business date
+    if (shiftCutoff !== undefined) {
+      if (!CUTOFF_PATTERN.test(shiftCutoff)) {
+        details.push({ field: 'shiftCutoff', code: 'invalid_cutoff', message: 'Shift cutoff must be a time (HH:MM)' })
+      }
+      update.shift_cutoff = shiftCutoff
+    }
+    if (isActive !== undefined) {
+      update.is_active = isActive === true
+    }
+    if (vendorId !== undefined) {
+      if (caller.role !== 'admin') {
+        details.push({ field: 'vendorId', code: 'forbidden', message: 'Only admins can change the owning vendor' })
+      } else if (vendorId && !(await isVendor(supabase, vendorId))) {
+        details.push({ field: 'vendorId', code: 'unknown_vendor', message: 'Owning vendor not found' })
+      }
+      update.vendor_id = vendorId || null
+    }
+
+    if (details.length > 0) return validationError(details)
+
+    const { data: updated, error } = await supabase
+      .from('warehouses')
+      .update(update)
+      .eq('id', warehouse.id)
+      .select()
+      .single()
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Old and new value of every field that changed
+    const changes = Object.fromEntries(Object.keys(update)
+      .filter(key => key !== 'updated_at' && warehouse[key] !== updated[key])
+      .map(key => [key, { from: warehouse[key], to: updated[key] }]))
+
+    await audit(supabase, req, caller, 'UPDATE_WAREHOUSE', { warehouse_id: warehouse.id, changes }, warehouse.code)
+
+    return new Response(JSON.stringify(updated), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    status: 405,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}))
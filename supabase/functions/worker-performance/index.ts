@@ -1,118 +1,169 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { withAuth, canAccessUser, canAccessWarehouse, scopedUserIds } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { businessDate } from '../_shared/dates.ts'
+import { audit } from '../_shared/audit.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+const PAGE_SIZE = 1000
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DEFAULT_TREND_DAYS = 30
+const MAX_TREND_DAYS = 366
+
+interface TrendRow {
+  date: string
+  username: string
+  bins: number
+  accurate_bins: number
+  qty: number
+  session_minutes: number
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders })
+async function fetchTrendRows(supabase: SupabaseClient, warehouse: string, from: string, to: string) {
+  const rows: TrendRow[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('performance_trends', { p_warehouse_name: warehouse, p_from: from, p_to: to })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) throw error
+    rows.push(...data)
+    if (data.length < PAGE_SIZE) return rows
   }
+}
 
-  try {
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places
+
+// Rates are pooled over the rows rather than averaged per day, so short days do not skew them
+function metricsOf(rows: TrendRow[], perWorker = false) {
+  const bins = rows.reduce((total, row) => total + row.bins, 0)
+  const accurate = rows.reduce((total, row) => total + row.accurate_bins, 0)
+  const qty = rows.reduce((total, row) => total + row.qty, 0)
+  const minutes = rows.reduce((total, row) => total + row.session_minutes, 0)
+  const workers = perWorker ? Math.max(new Set(rows.map(row => row.username)).size, 1) : 1
+
+  return {
+    bins: round(bins / workers),
+    qty: round(qty / workers),
+    sessionHours: round(minutes / 60 / workers),
+    binsPerHour: minutes > 0 ? round(bins / (minutes / 60)) : 0,
+    accuracyRate: bins > 0 ? round(accurate / bins, 4) : 0
+  }
+}
 
-    const url = new URL(req.url)
-    const method = req.method
+function groupBy(rows: TrendRow[], key: (row: TrendRow) => string) {
+  const groups = new Map<string, TrendRow[]>()
+  for (const row of rows) {
+    const group = groups.get(key(row)) || []
+    group.push(row)
+    groups.set(key(row), group)
+  }
+  return groups
+}
+
+function seriesOf(rows: TrendRow[], perWorker = false) {
+  return [...groupBy(rows, row => row.date).entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayRows]) => ({ date, ...metricsOf(dayRows, perWorker) }))
+}
+
+serve(withAuth(async (req, { supabase, caller }) => {
+  const url = new URL(req.url)
+  const method = req.method
+
+  const pathParts = url.pathname.split('/')
+
+  // Efficiency formula for a warehouse
+  if (pathParts.includes('settings')) {
+    const warehouse = url.searchParams.get('warehouse')
+    if (!warehouse) {
+      return new Response(JSON.stringify({ error: 'Warehouse is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!(await canAccessWarehouse(supabase, caller, warehouse))) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
 
     if (method === 'GET') {
-      const pathParts = url.pathname.split('/')
-      const today = new Date().toISOString().split('T')[0]
-
-      // Get today's performance for a specific worker
-      if (pathParts.includes('today')) {
-        const workerId = pathParts[pathParts.length - 1]
-        
-        // Get user details
-        const { data: user } = await supabase
-          .from('users')
-          .select('user_id')
-          .eq('id', workerId)
-          .single()
-
-        if (!user) {
-          return new Response(JSON.stringify({ error: 'User not found' }), {
-            status: 404,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          })
-        }
-
-        const { data: performance } = await supabase
-          .from('worker_performance')
-          .select('*')
-          .eq('username', user.user_id)
-          .eq('date', today)
-          .single()
-
-        const stats = {
-          todayBins: performance?.no_of_bins_counted || 0,
-          todayQuantity: performance?.no_of_qty_counted || 0,
-          todayTime: performance?.time_taken_minutes || 0,
-          efficiency: performance?.efficiency || 0,
-          ranking: performance?.ranking || 0
-        }
-
-        return new Response(JSON.stringify(stats), {
+      const { data } = await supabase
+        .from('warehouse_settings')
+        .select('*')
+        .eq('warehouse_name', warehouse)
+        .maybeSingle()
+
+      return new Response(JSON.stringify(data || {
+        warehouse_name: warehouse,
+        target_bins_per_hour: 60,
+        speed_weight: 0.5,
+        accuracy_weight: 0.5,
+        blind_count: false,
+        require_second_count: false,
+        session_timeout_minutes: 30
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (method === 'PUT') {
+      if (caller.role !== 'admin' && caller.role !== 'vendor') {
+        return new Response(JSON.stringify({ error: 'Only vendors and admins can change warehouse settings' }), {
+          status: 403,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         })
       }
 
-      // Get all performance data with filters
-      const warehouse = url.searchParams.get('warehouse')
-      const date = url.searchParams.get('date') || today
-      const limit = parseInt(url.searchParams.get('limit') || '50')
-
-      let query = supabase
-        .from('worker_performance')
-        .select('*')
-        .eq('date', date)
+      const { targetBinsPerHour, speedWeight, blindCount, requireSecondCount, sessionTimeoutMinutes } = await req.json()
 
-      if (warehouse) {
-        query = query.eq('wh_name', warehouse)
+      // Efficiency formula and counting mode can be changed independently
+      const formulaGiven = targetBinsPerHour !== undefined || speedWeight !== undefined
+      if (formulaGiven && (!(targetBinsPerHour > 0) || !(speedWeight >= 0 && speedWeight <= 1))) {
+        return new Response(JSON.stringify({ error: 'Target must be positive and speed weight between 0 and 1' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
       }
 
-      const { data, error } = await query
-        .order('efficiency', { ascending: false })
-        .limit(limit)
-
-      if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
+      if ([blindCount, requireSecondCount].some(value => value !== undefined && typeof value !== 'boolean')) {
+        return new Response(JSON.stringify({ error: 'blindCount and requireSecondCount must be true or false' }), {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         })
       }
 
-      // Update rankings
-      const rankedData = data.map((item, index) => ({
-        ...item,
-        ranking: index + 1
-      }))
-
-      // Update rankings in database
-      for (const item of rankedData) {
-        await supabase
-          .from('worker_performance')
-          .update({ ranking: item.ranking })
-          .eq('id', item.id)
+      // Sessions without a heartbeat for this long are closed automatically
+      if (sessionTimeoutMinutes !== undefined &&
+        !(Number.isInteger(sessionTimeoutMinutes) && sessionTimeoutMinutes >= 5 && sessionTimeoutMinutes <= 720)) {
+        return new Response(JSON.stringify({ error: 'Session timeout must be between 5 and 720 minutes' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
       }
 
-      return new Response(JSON.stringify(rankedData), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
+      const updates: Record<string, unknown> = {
+        warehouse_name: warehouse,
+        updated_at: new Date().toISOString()
+      }
 
-    if (method === 'POST') {
-      const performanceData = await req.json()
+      // Weights are stored to three decimals and must sum to exactly 1
+      if (formulaGiven) {
+        const speed = Math.round(speedWeight * 1000) / 1000
+        updates.target_bins_per_hour = targetBinsPerHour
+        updates.speed_weight = speed
+        updates.accuracy_weight = Math.round((1 - speed) * 1000) / 1000
+      }
+      if (blindCount !== undefined) updates.blind_count = blindCount
+      if (requireSecondCount !== undefined) updates.require_second_count = requireSecondCount
+      if (sessionTimeoutMinutes !== undefined) updates.session_timeout_minutes = sessionTimeoutMinutes
 
       const { data, error } = await supabase
-        .from('worker_performance')
-        .insert(performanceData)
+        .from('warehouse_settings')
+        .upsert(updates)
         .select()
         .single()
 
@@ -123,20 +174,207 @@ serve(async (req) => {
         })
       }
 
+      const { warehouse_name: _warehouse, updated_at: _updatedAt, ...changes } = updates
+      await audit(supabase, req, caller, 'UPDATE_WAREHOUSE_SETTINGS', changes, warehouse)
+
       return new Response(JSON.stringify(data), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
+  }
+
+  // Per-worker scorecards and time series over a date range, against warehouse averages
+  if (method === 'GET' && pathParts.includes('trends')) {
+    const warehouse = url.searchParams.get('warehouse') || caller.warehouse_name
+
+    if (!warehouse) {
+      return new Response(JSON.stringify({ error: 'Warehouse is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!(await canAccessWarehouse(supabase, caller, warehouse))) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const to = url.searchParams.get('to') || await businessDate(supabase, warehouse)
+    const from = url.searchParams.get('from') ||
+      new Date(Date.parse(to) - (DEFAULT_TREND_DAYS - 1) * 86400000).toISOString().split('T')[0]
+
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || isNaN(Date.parse(from)) || isNaN(Date.parse(to))) {
+      return new Response(JSON.stringify({ error: 'from and to must be dates (YYYY-MM-DD)' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const days = (Date.parse(to) - Date.parse(from)) / 86400000 + 1
+    if (days < 1 || days > MAX_TREND_DAYS) {
+      return new Response(JSON.stringify({ error: `Date range must be 1 to ${MAX_TREND_DAYS} days` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const rows = await fetchTrendRows(supabase, warehouse, from, to)
+
+    // Averages cover the whole warehouse; individual workers only the caller's hierarchy
+    const userIds = await scopedUserIds(supabase, caller)
+    const worker = url.searchParams.get('worker')
+    const visibleRows = rows.filter(row =>
+      (!userIds || userIds.includes(row.username)) && (!worker || row.username === worker)
+    )
+
+    const workers = [...groupBy(visibleRows, row => row.username).entries()].map(([username, workerRows]) => ({
+      username,
+      ...metricsOf(workerRows),
+      series: seriesOf(workerRows)
+    }))
+    workers.sort((a, b) => b.binsPerHour - a.binsPerHour)
+
+    return new Response(JSON.stringify({
+      warehouse,
+      from,
+      to,
+      averages: { workers: new Set(rows.map(row => row.username)).size, ...metricsOf(rows, true) },
+      averageSeries: seriesOf(rows, true),
+      workers
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (method === 'GET') {
+    // Get today's performance for a specific worker
+    if (pathParts.includes('today')) {
+      const workerId = pathParts[pathParts.length - 1]
+      
+      // Get user details
+      const { data: user } = await supabase
+        .from('users')
+        .select('id, user_id, vendor_id, team_leader_id, warehouse_name')
+        .eq('id', workerId)
+        .single()
+
+      if (!user || !canAccessUser(caller, user)) {
+        return new Response(JSON.stringify({ error: 'User not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // "Today" is the business day of the warehouse the worker is counting in
+      const warehouse = url.searchParams.get('warehouse') || user.warehouse_name
+      const today = await businessDate(supabase, warehouse)
+
+      let performanceQuery = supabase
+        .from('worker_performance')
+        .select('*')
+        .eq('username', user.user_id)
+        .eq('date', today)
+
+      if (warehouse) {
+        performanceQuery = performanceQuery.eq('wh_name', warehouse)
+      }
+
+      const { data: performance } = await performanceQuery.maybeSingle()
+
+      const stats = {
+        todayBins: performance?.no_of_bins_counted || 0,
+        todayQuantity: performance?.no_of_qty_counted || 0,
+        todayTime: performance?.time_taken_minutes || 0,
+        binsPerHour: performance?.bins_per_hour || 0,
+        accuracyRate: performance?.accuracy_rate || 0,
+        efficiency: performance?.efficiency || 0,
+        ranking: performance?.ranking || 0
+      }
+
+      return new Response(JSON.stringify(stats), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Get all performance data with filters
+    const warehouse = url.searchParams.get('warehouse')
+    const date = url.searchParams.get('date') || await businessDate(supabase, warehouse || caller.warehouse_name)
+    const limit = parseInt(url.searchParams.get('limit') || '50')
+
+    let query = supabase
+      .from('worker_performance')
+      .select('*')
+      .eq('date', date)
+
+    if (warehouse) {
+      query = query.eq('wh_name', warehouse)
+    }
+
+    const userIds = await scopedUserIds(supabase, caller)
+    if (userIds) {
+      query = query.in('username', userIds)
+    }
+
+    // Rankings are written by the nightly performance engine, never on read
+    const { data, error } = await query
+      .order('ranking', { ascending: true, nullsFirst: false })
+      .order('efficiency', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
 
-    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
-      status: 405,
+    return new Response(JSON.stringify(data), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
+  }
 
-  } catch (error) {
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+  // Recompute a warehouse's day from its counts; figures are never taken from the client
+  if (method === 'POST') {
+    const { warehouse, date } = await req.json()
+
+    if (caller.role === 'worker') {
+      return new Response(JSON.stringify({ error: 'Workers cannot recompute performance' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!warehouse || !(await canAccessWarehouse(supabase, caller, warehouse))) {
+      return new Response(JSON.stringify({ error: 'Warehouse not found in your hierarchy' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const day = date || await businessDate(supabase, warehouse)
+    const { error } = await supabase.rpc('compute_worker_performance', {
+      p_wh_name: warehouse,
+      p_date: day
+    })
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    await audit(supabase, req, caller, 'RECOMPUTE_PERFORMANCE', { date: day }, warehouse)
+
+    return new Response(JSON.stringify({ recomputed: true }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
   }
-})
\ No newline at end of file
+
+  return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    status: 405,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}))
@@ -0,0 +1,48 @@
+/*
+  # Team Leader Recount Workflow
+
+  1. Changes
+    - `counting_data`
+      - `recounted_by` - team leader who entered the recount
+      - `recounted_at` - when the recount was entered
+      - `approved_by` - team leader who approved the record
+      - `approved_at` - when the record was approved
+      - `is_locked` - set on approval, no further changes allowed
+    - `reason_for_difference` restricted to the known reason codes
+
+  2. Security
+    - Trigger rejects updates to locked counting records
+*/
+
+ALTER TABLE counting_data
+  ADD COLUMN IF NOT EXISTS recounted_by uuid REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS recounted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS approved_by uuid REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS approved_at timestamptz,
+  ADD COLUMN IF NOT EXISTS is_locked boolean DEFAULT false;
+
+ALTER TABLE counting_data
+  ADD CONSTRAINT counting_data_reason_check CHECK (
+    reason_for_difference IS NULL OR reason_for_difference IN (
+      'damaged', 'misplaced', 'wrong_bin', 'book_error', 'in_transit', 'other'
+    )
+  );
+
+-- Locked records are final
+CREATE OR REPLACE FUNCTION prevent_locked_counting_data_update()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.is_locked THEN
+    RAISE EXCEPTION 'Counting record % is locked', OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER counting_data_locked_guard
+  BEFORE UPDATE ON counting_data
+  FOR EACH ROW EXECUTE FUNCTION prevent_locked_counting_data_update();
+
+-- Recount queue lookups
+CREATE INDEX idx_counting_data_open_differences ON counting_data(session_id)
+  WHERE difference <> 0 AND is_locked = false;
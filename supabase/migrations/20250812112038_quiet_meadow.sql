@@ -0,0 +1,15 @@
+/*
+  # Counting Session Lifecycle
+
+  1. Changes
+    - `counting_sessions`
+      - Only one active session per worker
+    - Indexes for session and bin master lookups
+*/
+
+CREATE UNIQUE INDEX idx_counting_sessions_one_active
+  ON counting_sessions(worker_id)
+  WHERE status = 'active';
+
+CREATE INDEX idx_counting_sessions_worker_start ON counting_sessions(worker_id, start_time);
+CREATE INDEX idx_worker_performance_username_date ON worker_performance(username, date);
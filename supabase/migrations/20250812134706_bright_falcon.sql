@@ -0,0 +1,31 @@
+/*
+  # OTP Login Approval
+
+  1. Changes
+    - `otp_requests`
+      - `attempts` - failed verification attempts against this request
+      - `approved_at` - when the team leader approved the request
+      - `verified_at` - when the worker entered the matching code
+    - Index for per-worker rate limiting and team leader pending lists
+
+  2. Functions
+    - `spend_otp_attempt` - takes one verification attempt from a request in a
+      single statement, so concurrent guesses cannot share the last attempt
+*/
+
+ALTER TABLE otp_requests
+  ADD COLUMN IF NOT EXISTS attempts integer DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS approved_at timestamptz,
+  ADD COLUMN IF NOT EXISTS verified_at timestamptz;
+
+CREATE INDEX idx_otp_requests_worker_created ON otp_requests(worker_id, created_at);
+CREATE INDEX idx_otp_requests_team_leader ON otp_requests(team_leader_id) WHERE verified_at IS NULL;
+
+-- Returns the attempt number, or NULL once the request has no attempts left
+CREATE OR REPLACE FUNCTION spend_otp_attempt(p_request_id uuid, p_max_attempts integer)
+RETURNS integer AS $$
+  UPDATE otp_requests
+  SET attempts = attempts + 1
+  WHERE id = p_request_id AND attempts < p_max_attempts
+  RETURNING attempts;
+$$ LANGUAGE sql;
@@ -0,0 +1,23 @@
+/*
+  # Bin Master Import
+
+  1. Functions
+    - `apply_bin_master_import` - writes a validated import in one
+      transaction: new bins and changed book quantities, then the bins a
+      replace-mode import drops. A failure part way leaves the bin master as
+      it was
+*/
+
+CREATE OR REPLACE FUNCTION apply_bin_master_import(p_rows jsonb, p_delete_ids uuid[] DEFAULT '{}')
+RETURNS void AS $$
+BEGIN
+  INSERT INTO bin_master (bin_no, warehouse_name, qty_as_per_books)
+  SELECT r.bin_no, r.warehouse_name, r.qty_as_per_books
+  FROM jsonb_to_recordset(COALESCE(p_rows, '[]'::jsonb))
+    AS r(bin_no text, warehouse_name text, qty_as_per_books integer)
+  ON CONFLICT (bin_no, warehouse_name) DO UPDATE
+  SET qty_as_per_books = EXCLUDED.qty_as_per_books;
+
+  DELETE FROM bin_master WHERE id = ANY(COALESCE(p_delete_ids, '{}'));
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,11 @@
+/*
+  # Idempotent Counting Writes
+
+  1. Changes
+    - `counting_data`
+      - `client_key` - idempotency key generated by the worker's device, so
+        replaying a queued offline count never creates a second row
+*/
+
+ALTER TABLE counting_data
+  ADD COLUMN IF NOT EXISTS client_key uuid UNIQUE;
@@ -0,0 +1,197 @@
+/*
+  # Worker Performance Engine
+
+  1. New Tables
+    - `warehouse_settings` - per-warehouse configuration
+      - `target_bins_per_hour` - speed that earns the full speed score
+      - `speed_weight` / `accuracy_weight` - share of each in the efficiency score
+
+  2. Changes
+    - `worker_performance`
+      - `bins_per_hour` - bins counted per hour of active session time
+      - `accuracy_rate` - share of bins where the worker's count matched the final quantity
+      - `computed_at` - when the engine last refreshed the row
+      - `efficiency` is now a 0-100 score built from speed and accuracy
+
+  3. Functions
+    - `compute_worker_performance` - set-based refresh of one warehouse's day
+    - `rank_worker_performance` - ranks one warehouse's day by efficiency
+    - `run_performance_engine` - refresh and rank every warehouse for a day,
+      scheduled nightly with pg_cron for the previous day
+*/
+
+CREATE TABLE warehouse_settings (
+  warehouse_name text PRIMARY KEY,
+  target_bins_per_hour numeric(8,2) DEFAULT 60 CHECK (target_bins_per_hour > 0),
+  speed_weight numeric(4,3) DEFAULT 0.5 CHECK (speed_weight >= 0),
+  accuracy_weight numeric(4,3) DEFAULT 0.5 CHECK (accuracy_weight >= 0),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (speed_weight + accuracy_weight = 1)
+);
+
+ALTER TABLE warehouse_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read warehouse settings" ON warehouse_settings
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admin and vendors can manage warehouse settings" ON warehouse_settings
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = auth.uid() AND (u.role = 'admin' OR u.role = 'vendor')
+    )
+  );
+
+ALTER TABLE worker_performance
+  ADD COLUMN IF NOT EXISTS bins_per_hour numeric(8,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS accuracy_rate numeric(5,4) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS computed_at timestamptz;
+
+CREATE INDEX idx_worker_performance_wh_date ON worker_performance(wh_name, date);
+CREATE INDEX idx_counting_data_wh_date ON counting_data(wh_name, date);
+
+-- Refresh bins, time, speed, accuracy and efficiency for one warehouse day
+CREATE OR REPLACE FUNCTION compute_worker_performance(
+  p_wh_name text,
+  p_date date,
+  p_username text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  CREATE TEMP TABLE perf_metrics ON COMMIT DROP AS
+  WITH settings AS (
+    SELECT
+      COALESCE(ws.target_bins_per_hour, 60) AS target_bins_per_hour,
+      COALESCE(ws.speed_weight, 0.5) AS speed_weight,
+      COALESCE(ws.accuracy_weight, 0.5) AS accuracy_weight
+    FROM (SELECT 1) one
+    LEFT JOIN warehouse_settings ws ON ws.warehouse_name = p_wh_name
+  ),
+  session_time AS (
+    SELECT
+      w.user_id AS username,
+      SUM(EXTRACT(EPOCH FROM (COALESCE(s.end_time, now()) - s.start_time)) / 60) AS minutes
+    FROM counting_sessions s
+    JOIN users w ON w.id = s.worker_id
+    WHERE s.warehouse_name = p_wh_name
+      AND s.start_time::date = p_date
+      AND (p_username IS NULL OR w.user_id = p_username)
+    GROUP BY w.user_id
+  ),
+  counts AS (
+    -- A count is accurate when it matches the final quantity: the TL recount
+    -- if there is one, otherwise the books
+    SELECT
+      cd.username,
+      COUNT(*) AS bins,
+      SUM(cd.qty_counted) AS qty,
+      COUNT(*) FILTER (
+        WHERE cd.qty_counted = COALESCE(cd.qty_recounted_tl, cd.qty_as_per_books)
+      ) AS accurate_bins
+    FROM counting_data cd
+    WHERE cd.wh_name = p_wh_name
+      AND cd.date = p_date
+      AND (p_username IS NULL OR cd.username = p_username)
+    GROUP BY cd.username
+  )
+  SELECT
+    COALESCE(c.username, st.username) AS username,
+    COALESCE(c.bins, 0) AS bins,
+    COALESCE(c.qty, 0) AS qty,
+    ROUND(COALESCE(st.minutes, 0))::integer AS minutes,
+    CASE WHEN COALESCE(st.minutes, 0) > 0
+      THEN LEAST(ROUND(COALESCE(c.bins, 0) / (st.minutes / 60), 2), 999999.99)
+      ELSE 0
+    END AS bins_per_hour,
+    CASE WHEN COALESCE(c.bins, 0) > 0
+      THEN ROUND(c.accurate_bins::numeric / c.bins, 4)
+      ELSE 0
+    END AS accuracy_rate,
+    s.target_bins_per_hour,
+    s.speed_weight,
+    s.accuracy_weight
+  FROM counts c
+  FULL OUTER JOIN session_time st ON st.username = c.username
+  CROSS JOIN settings s;
+
+  UPDATE worker_performance wp
+  SET
+    no_of_bins_counted = m.bins,
+    no_of_qty_counted = m.qty,
+    time_taken_minutes = m.minutes,
+    bins_per_hour = m.bins_per_hour,
+    accuracy_rate = m.accuracy_rate,
+    efficiency = ROUND(100 * (
+      m.speed_weight * LEAST(m.bins_per_hour / m.target_bins_per_hour, 1) +
+      m.accuracy_weight * m.accuracy_rate
+    ), 2),
+    computed_at = now()
+  FROM perf_metrics m
+  WHERE wp.wh_name = p_wh_name
+    AND wp.date = p_date
+    AND wp.username = m.username;
+
+  INSERT INTO worker_performance (
+    wh_name, date, username, no_of_bins_counted, no_of_qty_counted,
+    time_taken_minutes, bins_per_hour, accuracy_rate, efficiency, computed_at
+  )
+  SELECT
+    p_wh_name, p_date, m.username, m.bins, m.qty, m.minutes, m.bins_per_hour, m.accuracy_rate,
+    ROUND(100 * (
+      m.speed_weight * LEAST(m.bins_per_hour / m.target_bins_per_hour, 1) +
+      m.accuracy_weight * m.accuracy_rate
+    ), 2),
+    now()
+  FROM perf_metrics m
+  WHERE NOT EXISTS (
+    SELECT 1 FROM worker_performance wp
+    WHERE wp.wh_name = p_wh_name AND wp.date = p_date AND wp.username = m.username
+  );
+
+  DROP TABLE perf_metrics;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rank one warehouse day in a single statement
+CREATE OR REPLACE FUNCTION rank_worker_performance(p_wh_name text, p_date date)
+RETURNS void AS $$
+  UPDATE worker_performance wp
+  SET ranking = ranked.ranking
+  FROM (
+    SELECT id, RANK() OVER (ORDER BY efficiency DESC, no_of_bins_counted DESC) AS ranking
+    FROM worker_performance
+    WHERE wh_name = p_wh_name AND date = p_date
+  ) ranked
+  WHERE wp.id = ranked.id;
+$$ LANGUAGE sql;
+
+-- Nightly job: refresh and rank every warehouse that had activity on the day
+CREATE OR REPLACE FUNCTION run_performance_engine(p_date date DEFAULT CURRENT_DATE - 1)
+RETURNS integer AS $$
+DECLARE
+  v_wh_name text;
+  v_count integer := 0;
+BEGIN
+  FOR v_wh_name IN
+    SELECT warehouse_name FROM counting_sessions WHERE start_time::date = p_date
+    UNION
+    SELECT wh_name FROM counting_data WHERE date = p_date
+  LOOP
+    PERFORM compute_worker_performance(v_wh_name, p_date);
+    PERFORM rank_worker_performance(v_wh_name, p_date);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'worker-performance-daily',
+  '30 0 * * *',
+  $$SELECT run_performance_engine(CURRENT_DATE - 1)$$
+);
@@ -0,0 +1,261 @@
+/*
+  # Count Campaigns
+
+  1. New Tables
+    - `count_campaigns` - a planned full physical inventory or ABC cycle count
+    - `campaign_bins` - the bins in a campaign, their assigned worker, counting
+      order and progress (`uncounted`, `counted`, `recount`)
+
+  2. Changes
+    - `bin_master.abc_class` - A/B/C class used to select cycle count bins
+    - `counting_sessions.campaign_id` - the campaign a session started under
+    - `counting_data.campaign_id` - the open campaign covering the counted
+      bin, resolved per count
+
+  3. Functions
+    - `create_count_campaign` - creates a campaign over a warehouse's bins
+    - `assign_campaign_bins` - splits uncounted bins among workers
+    - `close_count_campaign` - freezes final quantities and differences
+    - `campaign_progress` - counted / uncounted / recount bins per worker
+
+  4. Security
+    - Triggers keep campaign bin progress in step with counting data and
+      reject counts and changes once a campaign is closed
+*/
+
+ALTER TABLE bin_master
+  ADD COLUMN IF NOT EXISTS abc_class text CHECK (abc_class IN ('A', 'B', 'C'));
+
+CREATE TABLE count_campaigns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  campaign_type text NOT NULL CHECK (campaign_type IN ('full', 'cycle')),
+  warehouse_name text NOT NULL,
+  abc_class text CHECK (abc_class IN ('A', 'B', 'C')),
+  status text DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  created_by uuid NOT NULL REFERENCES users(id),
+  closed_by uuid REFERENCES users(id),
+  closed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE campaign_bins (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id uuid NOT NULL REFERENCES count_campaigns(id) ON DELETE CASCADE,
+  bin_id uuid NOT NULL REFERENCES bin_master(id),
+  bin_no text NOT NULL,
+  assigned_worker_id uuid REFERENCES users(id),
+  sequence integer,
+  status text DEFAULT 'uncounted' CHECK (status IN ('uncounted', 'counted', 'recount')),
+  counting_data_id uuid REFERENCES counting_data(id),
+  frozen_qty_as_per_books integer,
+  frozen_final_qty integer,
+  frozen_difference integer,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(campaign_id, bin_id)
+);
+
+ALTER TABLE counting_sessions
+  ADD COLUMN IF NOT EXISTS campaign_id uuid REFERENCES count_campaigns(id);
+
+ALTER TABLE counting_data
+  ADD COLUMN IF NOT EXISTS campaign_id uuid REFERENCES count_campaigns(id);
+
+CREATE INDEX idx_campaign_bins_worker ON campaign_bins(assigned_worker_id, status);
+CREATE INDEX idx_campaign_bins_campaign_status ON campaign_bins(campaign_id, status);
+CREATE INDEX idx_count_campaigns_warehouse ON count_campaigns(warehouse_name, status);
+
+ALTER TABLE count_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_bins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read campaigns" ON count_campaigns
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage campaigns" ON count_campaigns
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = auth.uid() AND u.role IN ('admin', 'vendor', 'team_leader')
+    )
+  );
+
+CREATE POLICY "Users can access their campaign bins" ON campaign_bins
+  FOR ALL TO authenticated
+  USING (
+    assigned_worker_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = auth.uid() AND u.role IN ('admin', 'vendor', 'team_leader')
+    )
+  );
+
+-- Create a campaign over all bins of a warehouse, one ABC class, or an explicit list
+CREATE OR REPLACE FUNCTION create_count_campaign(
+  p_name text,
+  p_campaign_type text,
+  p_warehouse_name text,
+  p_created_by uuid,
+  p_abc_class text DEFAULT NULL,
+  p_bin_ids uuid[] DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_campaign_id uuid;
+BEGIN
+  INSERT INTO count_campaigns (name, campaign_type, warehouse_name, abc_class, created_by)
+  VALUES (p_name, p_campaign_type, p_warehouse_name, p_abc_class, p_created_by)
+  RETURNING id INTO v_campaign_id;
+
+  INSERT INTO campaign_bins (campaign_id, bin_id, bin_no)
+  SELECT v_campaign_id, bm.id, bm.bin_no
+  FROM bin_master bm
+  WHERE bm.warehouse_name = p_warehouse_name
+    AND (p_abc_class IS NULL OR bm.abc_class = p_abc_class)
+    AND (p_bin_ids IS NULL OR bm.id = ANY(p_bin_ids));
+
+  RETURN v_campaign_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Split the uncounted bins among workers in bin order, either dealt out
+-- round robin or as contiguous blocks (one aisle run per worker)
+CREATE OR REPLACE FUNCTION assign_campaign_bins(
+  p_campaign_id uuid,
+  p_worker_ids uuid[],
+  p_strategy text DEFAULT 'block'
+)
+RETURNS integer AS $$
+DECLARE
+  v_workers integer := array_length(p_worker_ids, 1);
+  v_assigned integer;
+BEGIN
+  IF v_workers IS NULL THEN
+    RAISE EXCEPTION 'At least one worker is required';
+  END IF;
+
+  IF p_strategy NOT IN ('block', 'round_robin') THEN
+    RAISE EXCEPTION 'Unknown assignment strategy %', p_strategy;
+  END IF;
+
+  WITH ordered AS (
+    SELECT
+      id,
+      CASE p_strategy
+        WHEN 'round_robin' THEN (row_number() OVER (ORDER BY bin_no) - 1) % v_workers + 1
+        ELSE ntile(v_workers) OVER (ORDER BY bin_no)
+      END AS worker_slot,
+      bin_no
+    FROM campaign_bins
+    WHERE campaign_id = p_campaign_id AND status = 'uncounted'
+  ),
+  sequenced AS (
+    SELECT
+      id,
+      p_worker_ids[worker_slot] AS worker_id,
+      row_number() OVER (PARTITION BY worker_slot ORDER BY bin_no) AS sequence
+    FROM ordered
+  )
+  UPDATE campaign_bins cb
+  SET assigned_worker_id = s.worker_id, sequence = s.sequence
+  FROM sequenced s
+  WHERE cb.id = s.id;
+
+  GET DIAGNOSTICS v_assigned = ROW_COUNT;
+  RETURN v_assigned;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Freeze each bin's final result and close the campaign
+CREATE OR REPLACE FUNCTION close_count_campaign(p_campaign_id uuid, p_closed_by uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE campaign_bins cb
+  SET
+    frozen_qty_as_per_books = cd.qty_as_per_books,
+    frozen_final_qty = COALESCE(cd.qty_recounted_tl, cd.qty_counted),
+    frozen_difference = cd.difference
+  FROM counting_data cd
+  WHERE cb.campaign_id = p_campaign_id
+    AND cd.id = cb.counting_data_id;
+
+  UPDATE count_campaigns
+  SET status = 'closed', closed_by = p_closed_by, closed_at = now()
+  WHERE id = p_campaign_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign % is not open', p_campaign_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Bin status totals per assigned worker (NULL worker = unassigned)
+CREATE OR REPLACE FUNCTION campaign_progress(p_campaign_id uuid)
+RETURNS TABLE (
+  worker_id uuid,
+  worker_user_id text,
+  uncounted bigint,
+  counted bigint,
+  recount bigint
+) AS $$
+  SELECT
+    cb.assigned_worker_id,
+    u.user_id,
+    COUNT(*) FILTER (WHERE cb.status = 'uncounted'),
+    COUNT(*) FILTER (WHERE cb.status = 'counted'),
+    COUNT(*) FILTER (WHERE cb.status = 'recount')
+  FROM campaign_bins cb
+  LEFT JOIN users u ON u.id = cb.assigned_worker_id
+  WHERE cb.campaign_id = p_campaign_id
+  GROUP BY cb.assigned_worker_id, u.user_id
+  ORDER BY u.user_id NULLS LAST;
+$$ LANGUAGE sql STABLE;
+
+-- Keep campaign progress in step with counts and TL recounts
+CREATE OR REPLACE FUNCTION sync_campaign_bin_status()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.campaign_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND EXISTS (
+    SELECT 1 FROM count_campaigns WHERE id = NEW.campaign_id AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Campaign % is closed', NEW.campaign_id;
+  END IF;
+
+  UPDATE campaign_bins
+  SET
+    counting_data_id = NEW.id,
+    status = CASE
+      WHEN NEW.difference = 0 OR NEW.is_locked THEN 'counted'
+      ELSE 'recount'
+    END
+  WHERE campaign_id = NEW.campaign_id AND bin_no = NEW.bin_no;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER counting_data_campaign_progress
+  AFTER INSERT OR UPDATE ON counting_data
+  FOR EACH ROW EXECUTE FUNCTION sync_campaign_bin_status();
+
+-- Closed campaigns are frozen
+CREATE OR REPLACE FUNCTION prevent_closed_campaign_bin_update()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM count_campaigns WHERE id = OLD.campaign_id AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Campaign % is closed', OLD.campaign_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER campaign_bins_closed_guard
+  BEFORE UPDATE ON campaign_bins
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_campaign_bin_update();
@@ -0,0 +1,156 @@
+/*
+  # Variance Reconciliation and Adjustment Posting
+
+  1. New Tables
+    - `stock_adjustments` - book quantity changes posted from approved counts,
+      with before/after values and who signed them off
+
+  2. Changes
+    - `bin_master.unit_value` - value of one unit, used to value variances
+
+  3. Functions
+    - `reconciliation_report` - latest count per bin with books, final count,
+      variance, variance value and reason
+    - `post_stock_adjustments` - posts approved (TL-locked) variances back to
+      `bin_master.qty_as_per_books` and audits each change
+
+  4. Security
+    - Only admins and vendors can read adjustments
+*/
+
+ALTER TABLE bin_master
+  ADD COLUMN IF NOT EXISTS unit_value numeric(12,2) DEFAULT 0;
+
+CREATE TABLE stock_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bin_id uuid NOT NULL REFERENCES bin_master(id),
+  warehouse_name text NOT NULL,
+  bin_no text NOT NULL,
+  counting_data_id uuid NOT NULL UNIQUE REFERENCES counting_data(id),
+  campaign_id uuid REFERENCES count_campaigns(id),
+  qty_before integer NOT NULL,
+  qty_after integer NOT NULL,
+  unit_value numeric(12,2) DEFAULT 0,
+  reason_for_difference text,
+  approved_by uuid NOT NULL REFERENCES users(id),
+  posted_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_stock_adjustments_warehouse ON stock_adjustments(warehouse_name, posted_at);
+
+ALTER TABLE stock_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin and vendors can read adjustments" ON stock_adjustments
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = auth.uid() AND (u.role = 'admin' OR u.role = 'vendor')
+    )
+  );
+
+-- Latest count of each bin in scope (a campaign, or a date range)
+CREATE OR REPLACE FUNCTION reconciliation_report(
+  p_warehouse_name text,
+  p_campaign_id uuid DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL
+)
+RETURNS TABLE (
+  counting_data_id uuid,
+  bin_id uuid,
+  bin_no text,
+  counted_on date,
+  username text,
+  qty_as_per_books integer,
+  qty_counted integer,
+  qty_recounted_tl integer,
+  final_qty integer,
+  difference integer,
+  unit_value numeric,
+  variance_value numeric,
+  reason_for_difference text,
+  is_locked boolean,
+  current_books integer,
+  posted boolean
+) AS $$
+  SELECT
+    latest.id,
+    bm.id,
+    latest.bin_no,
+    latest.date,
+    latest.username,
+    latest.qty_as_per_books,
+    latest.qty_counted,
+    latest.qty_recounted_tl,
+    COALESCE(latest.qty_recounted_tl, latest.qty_counted),
+    latest.difference,
+    COALESCE(bm.unit_value, 0),
+    latest.difference * COALESCE(bm.unit_value, 0),
+    latest.reason_for_difference,
+    COALESCE(latest.is_locked, false),
+    bm.qty_as_per_books,
+    EXISTS (SELECT 1 FROM stock_adjustments sa WHERE sa.counting_data_id = latest.id)
+  FROM (
+    SELECT DISTINCT ON (cd.bin_no) cd.*
+    FROM counting_data cd
+    WHERE cd.wh_name = p_warehouse_name
+      AND (p_campaign_id IS NULL OR cd.campaign_id = p_campaign_id)
+      AND (p_from IS NULL OR cd.date >= p_from)
+      AND (p_to IS NULL OR cd.date <= p_to)
+    ORDER BY cd.bin_no, cd.created_at DESC
+  ) latest
+  LEFT JOIN bin_master bm
+    ON bm.bin_no = latest.bin_no AND bm.warehouse_name = p_warehouse_name
+  ORDER BY latest.bin_no;
+$$ LANGUAGE sql STABLE;
+
+-- Post every approved, not yet posted variance in scope to the books
+CREATE OR REPLACE FUNCTION post_stock_adjustments(
+  p_warehouse_name text,
+  p_approved_by uuid,
+  p_campaign_id uuid DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_posted integer;
+BEGIN
+  CREATE TEMP TABLE pending_adjustments ON COMMIT DROP AS
+  SELECT r.*
+  FROM reconciliation_report(p_warehouse_name, p_campaign_id, p_from, p_to) r
+  WHERE r.is_locked
+    AND NOT r.posted
+    AND r.bin_id IS NOT NULL
+    AND r.final_qty <> r.current_books;
+
+  INSERT INTO stock_adjustments (
+    bin_id, warehouse_name, bin_no, counting_data_id, campaign_id,
+    qty_before, qty_after, unit_value, reason_for_difference, approved_by
+  )
+  SELECT
+    pa.bin_id, p_warehouse_name, pa.bin_no, pa.counting_data_id, p_campaign_id,
+    pa.current_books, pa.final_qty, pa.unit_value, pa.reason_for_difference, p_approved_by
+  FROM pending_adjustments pa;
+
+  GET DIAGNOSTICS v_posted = ROW_COUNT;
+
+  UPDATE bin_master bm
+  SET qty_as_per_books = pa.final_qty
+  FROM pending_adjustments pa
+  WHERE bm.id = pa.bin_id;
+
+  INSERT INTO audit_logs (user_id, action, details)
+  SELECT
+    p_approved_by,
+    'POST_ADJUSTMENT',
+    format('Adjusted books for bin %s in %s: %s -> %s (reason: %s)',
+      pa.bin_no, p_warehouse_name, pa.current_books, pa.final_qty,
+      COALESCE(pa.reason_for_difference, 'none'))
+  FROM pending_adjustments pa;
+
+  DROP TABLE pending_adjustments;
+  RETURN v_posted;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,64 @@
+/*
+  # Role Dashboards
+
+  1. Functions
+    - `dashboard_worker_summary` - one row per worker in a slice of the
+      hierarchy (a team leader's team, a vendor's teams, a warehouse or the
+      whole system) with session state, bins counted, variances and ranking
+      for one day
+
+  2. Indexes
+    - Counting data by session and date for the per-worker rollup
+*/
+
+CREATE INDEX IF NOT EXISTS idx_counting_data_session_date ON counting_data(session_id, date);
+
+CREATE OR REPLACE FUNCTION dashboard_worker_summary(
+  p_date date DEFAULT CURRENT_DATE,
+  p_team_leader_id uuid DEFAULT NULL,
+  p_vendor_id uuid DEFAULT NULL,
+  p_warehouse_name text DEFAULT NULL
+)
+RETURNS TABLE (
+  worker_id uuid,
+  worker_user_id text,
+  team_leader_id uuid,
+  warehouse_name text,
+  session_active boolean,
+  bins_counted bigint,
+  qty_counted bigint,
+  variances bigint,
+  open_variances bigint,
+  efficiency numeric,
+  ranking integer
+) AS $$
+  SELECT
+    u.id,
+    u.user_id,
+    u.team_leader_id,
+    u.warehouse_name,
+    EXISTS (
+      SELECT 1 FROM counting_sessions s WHERE s.worker_id = u.id AND s.status = 'active'
+    ),
+    COUNT(cd.id),
+    COALESCE(SUM(cd.qty_counted), 0),
+    COUNT(cd.id) FILTER (WHERE cd.difference <> 0),
+    COUNT(cd.id) FILTER (WHERE cd.difference <> 0 AND NOT COALESCE(cd.is_locked, false)),
+    wp.efficiency,
+    wp.ranking
+  FROM users u
+  LEFT JOIN counting_sessions cs ON cs.worker_id = u.id
+  LEFT JOIN counting_data cd ON cd.session_id = cs.id AND cd.date = p_date
+  LEFT JOIN worker_performance wp
+    ON wp.username = u.user_id AND wp.wh_name = u.warehouse_name AND wp.date = p_date
+  WHERE u.role = 'worker'
+    AND (p_team_leader_id IS NULL OR u.team_leader_id = p_team_leader_id)
+    AND (
+      p_vendor_id IS NULL OR
+      u.vendor_id = p_vendor_id OR
+      EXISTS (SELECT 1 FROM users tl WHERE tl.id = u.team_leader_id AND tl.vendor_id = p_vendor_id)
+    )
+    AND (p_warehouse_name IS NULL OR u.warehouse_name = p_warehouse_name)
+  GROUP BY u.id, u.user_id, u.team_leader_id, u.warehouse_name, wp.efficiency, wp.ranking
+  ORDER BY wp.ranking NULLS LAST, u.user_id;
+$$ LANGUAGE sql STABLE;
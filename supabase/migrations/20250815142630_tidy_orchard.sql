@@ -0,0 +1,39 @@
+/*
+  # User Provisioning
+
+  1. Changes
+    - `users.is_active` - deactivated accounts can no longer sign in
+    - `users.created_by`, `approved_by`, `approved_at`, `deactivated_at` -
+      who provisioned and approved each account, and when
+
+  2. Notes
+    - Accounts are created by the user-management function, which stores a
+      bcrypt `password_hash` and a matching Supabase Auth user with the same id
+    - Every account starts unapproved until its parent in the hierarchy
+      (admin -> vendor -> team leader -> worker) approves it; no one further
+      up can approve in the parent's place
+    - Sign-in is refused for a while after repeated LOGIN_FAILED audit
+      entries for the same account or client address
+*/
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS is_active boolean DEFAULT true,
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS approved_by uuid REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS approved_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_users_pending_approval ON users(role) WHERE is_approved = false;
+
+-- Keep updated_at current on every change
+CREATE OR REPLACE FUNCTION touch_users_updated_at()
+RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER users_updated_at
+  BEFORE UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION touch_users_updated_at();
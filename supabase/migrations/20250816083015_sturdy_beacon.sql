@@ -0,0 +1,21 @@
+/*
+  # Count Validation
+
+  1. Changes
+    - `counting_data.duplicate_of` - set when a bin is counted again in the
+      same session, pointing at the earlier count so team leaders can review it
+    - Counted and recounted quantities can no longer be negative
+
+  2. Indexes
+    - Counting data by session and bin for the duplicate check
+*/
+
+ALTER TABLE counting_data
+  ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES counting_data(id);
+
+-- NOT VALID keeps existing rows loadable while rejecting new bad data
+ALTER TABLE counting_data
+  ADD CONSTRAINT counting_data_qty_counted_non_negative CHECK (qty_counted >= 0) NOT VALID,
+  ADD CONSTRAINT counting_data_qty_recounted_non_negative CHECK (qty_recounted_tl >= 0) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_counting_data_session_bin ON counting_data(session_id, bin_no);
@@ -0,0 +1,102 @@
+/*
+  # Live Counting Board
+
+  1. Realtime
+    - `counting_data`, `counting_sessions` and `worker_performance` are added
+      to the `supabase_realtime` publication
+
+  2. Functions
+    - `can_read_user` / `can_read_username` - whether the signed-in user may
+      see a user's data (admin: all, vendor: their TLs and workers, TL: their
+      workers, everyone: themselves); SECURITY DEFINER so policies do not
+      recurse through the `users` policies
+    - `live_board_sessions` - active sessions of a warehouse with bins counted,
+      the time of the last count and today's efficiency
+
+  3. Security
+    - Read policies on the three streamed tables now follow the hierarchy, so
+      Realtime only delivers changes the subscriber is allowed to see
+    - Signed-in users get no write policies on these tables; sessions and
+      counts are written only by the edge functions with the service role, so
+      a worker holding a Realtime JWT cannot rewrite times or settings
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE counting_data, counting_sessions, worker_performance;
+
+CREATE OR REPLACE FUNCTION can_read_user(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users me
+    JOIN users u ON u.id = p_user_id
+    WHERE me.id = auth.uid()
+      AND (
+        me.role = 'admin' OR
+        u.id = me.id OR
+        (me.role = 'vendor' AND u.vendor_id = me.id) OR
+        (me.role = 'team_leader' AND u.team_leader_id = me.id)
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_read_username(p_username text)
+RETURNS boolean AS $$
+  SELECT can_read_user((SELECT id FROM users WHERE user_id = p_username));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can access their sessions" ON counting_sessions;
+DROP POLICY IF EXISTS "Users can access their counting data" ON counting_data;
+DROP POLICY IF EXISTS "Users can access performance data" ON worker_performance;
+
+CREATE POLICY "Users can read sessions in their hierarchy" ON counting_sessions
+  FOR SELECT TO authenticated
+  USING (can_read_user(worker_id));
+
+CREATE POLICY "Users can read counting data in their hierarchy" ON counting_data
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM counting_sessions cs
+      WHERE cs.id = counting_data.session_id AND can_read_user(cs.worker_id)
+    )
+  );
+
+CREATE POLICY "Users can read performance in their hierarchy" ON worker_performance
+  FOR SELECT TO authenticated
+  USING (can_read_username(username));
+
+-- Active sessions of a warehouse for the live board
+CREATE OR REPLACE FUNCTION live_board_sessions(p_warehouse_name text)
+RETURNS TABLE (
+  session_id uuid,
+  worker_id uuid,
+  worker_user_id text,
+  team_leader_id uuid,
+  vendor_id uuid,
+  start_time timestamptz,
+  bins_counted bigint,
+  last_count_at timestamptz,
+  efficiency numeric
+) AS $$
+  SELECT
+    cs.id,
+    cs.worker_id,
+    u.user_id,
+    cs.team_leader_id,
+    u.vendor_id,
+    cs.start_time,
+    COUNT(cd.id),
+    MAX(cd.created_at),
+    (
+      SELECT wp.efficiency FROM worker_performance wp
+      WHERE wp.username = u.user_id AND wp.date = CURRENT_DATE
+      ORDER BY wp.computed_at DESC NULLS LAST
+      LIMIT 1
+    )
+  FROM counting_sessions cs
+  JOIN users u ON u.id = cs.worker_id
+  LEFT JOIN counting_data cd ON cd.session_id = cs.id
+  WHERE cs.warehouse_name = p_warehouse_name AND cs.status = 'active'
+  GROUP BY cs.id, u.user_id, u.vendor_id
+  ORDER BY u.user_id;
+$$ LANGUAGE sql STABLE;
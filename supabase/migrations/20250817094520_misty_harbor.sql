@@ -0,0 +1,186 @@
+/*
+  # Blind Counting
+
+  1. Settings
+    - `warehouse_settings.blind_count` / `require_second_count` - warehouse
+      defaults
+    - `count_campaigns.blind_count` / `require_second_count` - per-campaign
+      overrides; NULL inherits the warehouse setting
+    - `counting_sessions.blind_count` / `require_second_count` - resolved when
+      the session starts so a setting change does not flip a running session
+
+  2. Counting Data
+    - `is_blind` - counted without the book quantity on screen
+    - `second_count_required` - a blind count off from books that needs an
+      independent second blind count before the team leader recounts it
+    - `qty_second_count`, `second_counted_by`, `second_counted_at`
+    - `awaiting_second_count` - generated; keeps the row out of the recount
+      queue until the second count is in
+    - `difference` now prefers the second count over the first, so a second
+      count that matches the books settles the bin
+
+  3. Functions
+    - `resolve_blind_count` - effective settings for a warehouse and campaign
+    - `reconciliation_report` and `close_count_campaign` use the second count
+      as the final quantity when there is no team leader recount
+
+  4. Security
+    - Workers can no longer read `bin_master` directly, and cannot read their
+      own blind counts (directly or over Realtime), so book quantities only
+      reach them through the edge functions
+    - Signed-in users have no insert or update policy on counting data; counts
+      are written by the edge functions, which look up the books and the blind
+      setting server-side
+*/
+
+ALTER TABLE warehouse_settings
+  ADD COLUMN IF NOT EXISTS blind_count boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS require_second_count boolean NOT NULL DEFAULT false;
+
+ALTER TABLE count_campaigns
+  ADD COLUMN IF NOT EXISTS blind_count boolean,
+  ADD COLUMN IF NOT EXISTS require_second_count boolean;
+
+ALTER TABLE counting_sessions
+  ADD COLUMN IF NOT EXISTS blind_count boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS require_second_count boolean NOT NULL DEFAULT false;
+
+ALTER TABLE counting_data
+  ADD COLUMN IF NOT EXISTS is_blind boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS second_count_required boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS qty_second_count integer CHECK (qty_second_count >= 0),
+  ADD COLUMN IF NOT EXISTS second_counted_by uuid REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS second_counted_at timestamptz;
+
+ALTER TABLE counting_data
+  ADD COLUMN awaiting_second_count boolean GENERATED ALWAYS AS (
+    second_count_required AND qty_second_count IS NULL AND qty_recounted_tl IS NULL
+  ) STORED;
+
+-- Generated expressions cannot be altered in place
+DROP INDEX IF EXISTS idx_counting_data_open_differences;
+ALTER TABLE counting_data DROP COLUMN difference;
+ALTER TABLE counting_data
+  ADD COLUMN difference integer GENERATED ALWAYS AS (
+    COALESCE(qty_recounted_tl, qty_second_count, qty_counted) - qty_as_per_books
+  ) STORED;
+
+CREATE INDEX idx_counting_data_open_differences ON counting_data(session_id)
+  WHERE difference <> 0 AND is_locked = false;
+
+CREATE INDEX idx_counting_data_awaiting_second_count ON counting_data(wh_name)
+  WHERE awaiting_second_count;
+
+-- Campaign override first, then the warehouse default
+CREATE OR REPLACE FUNCTION resolve_blind_count(p_warehouse_name text, p_campaign_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  blind_count boolean,
+  require_second_count boolean
+) AS $$
+  SELECT
+    COALESCE(cc.blind_count, ws.blind_count, false),
+    COALESCE(cc.require_second_count, ws.require_second_count, false)
+  FROM (SELECT 1) one
+  LEFT JOIN warehouse_settings ws ON ws.warehouse_name = p_warehouse_name
+  LEFT JOIN count_campaigns cc ON cc.id = p_campaign_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION reconciliation_report(
+  p_warehouse_name text,
+  p_campaign_id uuid DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL
+)
+RETURNS TABLE (
+  counting_data_id uuid,
+  bin_id uuid,
+  bin_no text,
+  counted_on date,
+  username text,
+  qty_as_per_books integer,
+  qty_counted integer,
+  qty_recounted_tl integer,
+  final_qty integer,
+  difference integer,
+  unit_value numeric,
+  variance_value numeric,
+  reason_for_difference text,
+  is_locked boolean,
+  current_books integer,
+  posted boolean
+) AS $$
+  SELECT
+    latest.id,
+    bm.id,
+    latest.bin_no,
+    latest.date,
+    latest.username,
+    latest.qty_as_per_books,
+    latest.qty_counted,
+    latest.qty_recounted_tl,
+    COALESCE(latest.qty_recounted_tl, latest.qty_second_count, latest.qty_counted),
+    latest.difference,
+    COALESCE(bm.unit_value, 0),
+    latest.difference * COALESCE(bm.unit_value, 0),
+    latest.reason_for_difference,
+    COALESCE(latest.is_locked, false),
+    bm.qty_as_per_books,
+    EXISTS (SELECT 1 FROM stock_adjustments sa WHERE sa.counting_data_id = latest.id)
+  FROM (
+    SELECT DISTINCT ON (cd.bin_no) cd.*
+    FROM counting_data cd
+    WHERE cd.wh_name = p_warehouse_name
+      AND (p_campaign_id IS NULL OR cd.campaign_id = p_campaign_id)
+      AND (p_from IS NULL OR cd.date >= p_from)
+      AND (p_to IS NULL OR cd.date <= p_to)
+    ORDER BY cd.bin_no, cd.created_at DESC
+  ) latest
+  LEFT JOIN bin_master bm
+    ON bm.bin_no = latest.bin_no AND bm.warehouse_name = p_warehouse_name
+  ORDER BY latest.bin_no;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION close_count_campaign(p_campaign_id uuid, p_closed_by uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE campaign_bins cb
+  SET
+    frozen_qty_as_per_books = cd.qty_as_per_books,
+    frozen_final_qty = COALESCE(cd.qty_recounted_tl, cd.qty_second_count, cd.qty_counted),
+    frozen_difference = cd.difference
+  FROM counting_data cd
+  WHERE cb.campaign_id = p_campaign_id
+    AND cd.id = cb.counting_data_id;
+
+  UPDATE count_campaigns
+  SET status = 'closed', closed_by = p_closed_by, closed_at = now()
+  WHERE id = p_campaign_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign % is not open', p_campaign_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP POLICY IF EXISTS "Users can read bin master" ON bin_master;
+DROP POLICY IF EXISTS "Users can read counting data in their hierarchy" ON counting_data;
+
+CREATE POLICY "Non-workers can read bin master" ON bin_master
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = auth.uid() AND u.role <> 'worker'
+    )
+  );
+
+CREATE POLICY "Users can read counting data in their hierarchy" ON counting_data
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM counting_sessions cs
+      WHERE cs.id = counting_data.session_id
+        AND can_read_user(cs.worker_id)
+        AND NOT (counting_data.is_blind AND cs.worker_id = auth.uid())
+    )
+  );
@@ -0,0 +1,50 @@
+/*
+  # Performance Trends
+
+  1. Functions
+    - `performance_trends` - one row per worker per day in a date range for a
+      warehouse: bins counted, accurate bins, quantity and session minutes;
+      the edge function rolls these up into scorecards, time series and
+      warehouse averages. Bins, quantity and minutes come from
+      `worker_performance`; accurate bins are counted from `counting_data`
+*/
+
+-- A bin is accurate when its final quantity, the TL recount if there is one, matches the books
+CREATE OR REPLACE FUNCTION performance_trends(
+  p_warehouse_name text,
+  p_from date,
+  p_to date
+)
+RETURNS TABLE (
+  date date,
+  username text,
+  bins bigint,
+  accurate_bins bigint,
+  qty bigint,
+  session_minutes integer
+) AS $$
+  WITH accuracy AS (
+    SELECT
+      cd.date,
+      cd.username,
+      COUNT(*) FILTER (
+        WHERE COALESCE(cd.qty_recounted_tl, cd.qty_counted) = cd.qty_as_per_books
+      ) AS accurate_bins
+    FROM counting_data cd
+    WHERE cd.wh_name = p_warehouse_name
+      AND cd.date BETWEEN p_from AND p_to
+    GROUP BY cd.date, cd.username
+  )
+  SELECT
+    wp.date,
+    wp.username,
+    COALESCE(wp.no_of_bins_counted, 0)::bigint,
+    COALESCE(a.accurate_bins, 0),
+    COALESCE(wp.no_of_qty_counted, 0)::bigint,
+    COALESCE(wp.time_taken_minutes, 0)
+  FROM worker_performance wp
+  LEFT JOIN accuracy a ON a.date = wp.date AND a.username = wp.username
+  WHERE wp.wh_name = p_warehouse_name
+    AND wp.date BETWEEN p_from AND p_to
+  ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE;
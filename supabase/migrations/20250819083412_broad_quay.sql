@@ -0,0 +1,269 @@
+/*
+  # Warehouses
+
+  1. New Tables
+    - `warehouses` - one row per warehouse: a unique `code` (the string the
+      rest of the schema has been using), a display `name`, the owning vendor,
+      an IANA `timezone` and an active flag
+    - `warehouse_zones` - zones of a warehouse; aisles are zones with a
+      `parent_zone_id`
+    - `user_warehouses` - which warehouses a user works in; exactly one is
+      primary and mirrors `users.warehouse_name`
+
+  2. Changes
+    - `warehouse_id` added to `users`, `bin_master`, `counting_sessions`,
+      `counting_data`, `worker_performance`, `warehouse_settings`,
+      `count_campaigns` and `stock_adjustments`
+    - The existing warehouse string columns now reference `warehouses(code)`,
+      so a typo is rejected instead of creating a new warehouse; a trigger
+      keeps `warehouse_id` in step with them
+    - `bin_master.zone_id` places a bin in a zone or aisle
+
+  3. Data
+    - Every distinct warehouse string already in use becomes a warehouse with
+      that code; the vendor with the most users in it becomes the owner
+    - Users are assigned to their current warehouse as primary, and vendors to
+      every warehouse their team leaders and workers are in
+
+  4. Security
+    - Warehouses are readable by admins, their owning vendor and the users
+      assigned to them; zones follow their warehouse
+    - Users can read their own assignments; vendors and admins manage them
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_timezone(p_timezone text)
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$ LANGUAGE sql STABLE;
+
+CREATE TABLE warehouses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL CHECK (code <> ''),
+  name text NOT NULL,
+  vendor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  timezone text NOT NULL DEFAULT 'UTC' CHECK (is_valid_timezone(timezone)),
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE warehouse_zones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  parent_zone_id uuid REFERENCES warehouse_zones(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code <> ''),
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(warehouse_id, code)
+);
+
+CREATE TABLE user_warehouses (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  is_primary boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, warehouse_id)
+);
+
+CREATE UNIQUE INDEX idx_user_warehouses_primary ON user_warehouses(user_id) WHERE is_primary;
+CREATE INDEX idx_user_warehouses_warehouse ON user_warehouses(warehouse_id);
+CREATE INDEX idx_warehouses_vendor ON warehouses(vendor_id);
+CREATE INDEX idx_warehouse_zones_parent ON warehouse_zones(parent_zone_id);
+
+-- Bring the free-text warehouses across
+UPDATE users SET warehouse_name = NULL WHERE trim(warehouse_name) = '';
+
+INSERT INTO warehouses (code, name)
+SELECT code, code
+FROM (
+  SELECT warehouse_name AS code FROM users
+  UNION SELECT warehouse_name FROM bin_master
+  UNION SELECT warehouse_name FROM counting_sessions
+  UNION SELECT wh_name FROM counting_data
+  UNION SELECT wh_name FROM worker_performance
+  UNION SELECT warehouse_name FROM warehouse_settings
+  UNION SELECT warehouse_name FROM count_campaigns
+  UNION SELECT warehouse_name FROM stock_adjustments
+) existing
+WHERE code IS NOT NULL AND code <> '';
+
+UPDATE warehouses w
+SET vendor_id = (
+  SELECT COALESCE(u.vendor_id, u.id)
+  FROM users u
+  WHERE u.warehouse_name = w.code AND (u.role = 'vendor' OR u.vendor_id IS NOT NULL)
+  GROUP BY 1
+  ORDER BY COUNT(*) DESC, 1
+  LIMIT 1
+);
+
+ALTER TABLE users ADD COLUMN warehouse_id uuid REFERENCES warehouses(id);
+ALTER TABLE bin_master ADD COLUMN warehouse_id uuid REFERENCES warehouses(id);
+ALTER TABLE bin_master ADD COLUMN zone_id uuid REFERENCES warehouse_zones(id) ON DELETE SET NULL;
+ALTER TABLE counting_sessions ADD COLUMN warehouse_id uuid REFERENCES warehouses(id);
+ALTER TABLE counting_data ADD COLUMN warehouse_id uuid REFERENCES warehouses(id);
+ALTER TABLE worker_performance ADD COLUMN warehouse_id uuid REFERENCES warehouses(id);
+ALTER TABLE warehouse_settings ADD COLUMN warehouse_id uuid REFERENCES warehouses(id);
+ALTER TABLE count_campaigns ADD COLUMN warehouse_id uuid REFERENCES warehouses(id);
+ALTER TABLE stock_adjustments ADD COLUMN warehouse_id uuid REFERENCES warehouses(id);
+
+UPDATE users t SET warehouse_id = w.id FROM warehouses w WHERE w.code = t.warehouse_name;
+UPDATE bin_master t SET warehouse_id = w.id FROM warehouses w WHERE w.code = t.warehouse_name;
+UPDATE counting_sessions t SET warehouse_id = w.id FROM warehouses w WHERE w.code = t.warehouse_name;
+UPDATE counting_data t SET warehouse_id = w.id FROM warehouses w WHERE w.code = t.wh_name;
+UPDATE worker_performance t SET warehouse_id = w.id FROM warehouses w WHERE w.code = t.wh_name;
+UPDATE warehouse_settings t SET warehouse_id = w.id FROM warehouses w WHERE w.code = t.warehouse_name;
+UPDATE count_campaigns t SET warehouse_id = w.id FROM warehouses w WHERE w.code = t.warehouse_name;
+UPDATE stock_adjustments t SET warehouse_id = w.id FROM warehouses w WHERE w.code = t.warehouse_name;
+
+ALTER TABLE bin_master ALTER COLUMN warehouse_id SET NOT NULL;
+ALTER TABLE counting_sessions ALTER COLUMN warehouse_id SET NOT NULL;
+ALTER TABLE counting_data ALTER COLUMN warehouse_id SET NOT NULL;
+ALTER TABLE worker_performance ALTER COLUMN warehouse_id SET NOT NULL;
+ALTER TABLE warehouse_settings ALTER COLUMN warehouse_id SET NOT NULL;
+ALTER TABLE count_campaigns ALTER COLUMN warehouse_id SET NOT NULL;
+ALTER TABLE stock_adjustments ALTER COLUMN warehouse_id SET NOT NULL;
+
+-- The code columns stay for the existing functions and reports, but must name a real warehouse
+ALTER TABLE users ADD CONSTRAINT users_warehouse_name_fkey
+  FOREIGN KEY (warehouse_name) REFERENCES warehouses(code) ON UPDATE CASCADE;
+ALTER TABLE bin_master ADD CONSTRAINT bin_master_warehouse_name_fkey
+  FOREIGN KEY (warehouse_name) REFERENCES warehouses(code) ON UPDATE CASCADE;
+ALTER TABLE counting_sessions ADD CONSTRAINT counting_sessions_warehouse_name_fkey
+  FOREIGN KEY (warehouse_name) REFERENCES warehouses(code) ON UPDATE CASCADE;
+ALTER TABLE counting_data ADD CONSTRAINT counting_data_wh_name_fkey
+  FOREIGN KEY (wh_name) REFERENCES warehouses(code) ON UPDATE CASCADE;
+ALTER TABLE worker_performance ADD CONSTRAINT worker_performance_wh_name_fkey
+  FOREIGN KEY (wh_name) REFERENCES warehouses(code) ON UPDATE CASCADE;
+ALTER TABLE warehouse_settings ADD CONSTRAINT warehouse_settings_warehouse_name_fkey
+  FOREIGN KEY (warehouse_name) REFERENCES warehouses(code) ON UPDATE CASCADE;
+ALTER TABLE count_campaigns ADD CONSTRAINT count_campaigns_warehouse_name_fkey
+  FOREIGN KEY (warehouse_name) REFERENCES warehouses(code) ON UPDATE CASCADE;
+ALTER TABLE stock_adjustments ADD CONSTRAINT stock_adjustments_warehouse_name_fkey
+  FOREIGN KEY (warehouse_name) REFERENCES warehouses(code) ON UPDATE CASCADE;
+
+CREATE INDEX idx_users_warehouse_id ON users(warehouse_id);
+CREATE INDEX idx_bin_master_warehouse_id ON bin_master(warehouse_id);
+CREATE INDEX idx_bin_master_zone ON bin_master(zone_id);
+CREATE INDEX idx_counting_sessions_warehouse_id ON counting_sessions(warehouse_id);
+CREATE INDEX idx_counting_data_warehouse_id ON counting_data(warehouse_id, date);
+CREATE INDEX idx_worker_performance_warehouse_id ON worker_performance(warehouse_id, date);
+
+-- Resolve `warehouse_id` from the code column named by the trigger argument
+CREATE OR REPLACE FUNCTION sync_warehouse_id()
+RETURNS trigger AS $$
+DECLARE
+  v_code text := to_jsonb(NEW) ->> TG_ARGV[0];
+BEGIN
+  IF v_code IS NULL THEN
+    NEW.warehouse_id := NULL;
+  ELSE
+    SELECT id INTO NEW.warehouse_id FROM warehouses WHERE code = v_code;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER users_sync_warehouse_id BEFORE INSERT OR UPDATE OF warehouse_name ON users
+  FOR EACH ROW EXECUTE FUNCTION sync_warehouse_id('warehouse_name');
+CREATE TRIGGER bin_master_sync_warehouse_id BEFORE INSERT OR UPDATE OF warehouse_name ON bin_master
+  FOR EACH ROW EXECUTE FUNCTION sync_warehouse_id('warehouse_name');
+CREATE TRIGGER counting_sessions_sync_warehouse_id BEFORE INSERT OR UPDATE OF warehouse_name ON counting_sessions
+  FOR EACH ROW EXECUTE FUNCTION sync_warehouse_id('warehouse_name');
+CREATE TRIGGER counting_data_sync_warehouse_id BEFORE INSERT OR UPDATE OF wh_name ON counting_data
+  FOR EACH ROW EXECUTE FUNCTION sync_warehouse_id('wh_name');
+CREATE TRIGGER worker_performance_sync_warehouse_id BEFORE INSERT OR UPDATE OF wh_name ON worker_performance
+  FOR EACH ROW EXECUTE FUNCTION sync_warehouse_id('wh_name');
+CREATE TRIGGER warehouse_settings_sync_warehouse_id BEFORE INSERT OR UPDATE OF warehouse_name ON warehouse_settings
+  FOR EACH ROW EXECUTE FUNCTION sync_warehouse_id('warehouse_name');
+CREATE TRIGGER count_campaigns_sync_warehouse_id BEFORE INSERT OR UPDATE OF warehouse_name ON count_campaigns
+  FOR EACH ROW EXECUTE FUNCTION sync_warehouse_id('warehouse_name');
+CREATE TRIGGER stock_adjustments_sync_warehouse_id BEFORE INSERT OR UPDATE OF warehouse_name ON stock_adjustments
+  FOR EACH ROW EXECUTE FUNCTION sync_warehouse_id('warehouse_name');
+
+INSERT INTO user_warehouses (user_id, warehouse_id, is_primary)
+SELECT id, warehouse_id, true FROM users WHERE warehouse_id IS NOT NULL;
+
+INSERT INTO user_warehouses (user_id, warehouse_id)
+SELECT DISTINCT u.vendor_id, u.warehouse_id
+FROM users u
+WHERE u.vendor_id IS NOT NULL AND u.warehouse_id IS NOT NULL
+ON CONFLICT (user_id, warehouse_id) DO NOTHING;
+
+-- `users.warehouse_name` is the primary assignment; moving it replaces the old primary
+CREATE OR REPLACE FUNCTION sync_primary_warehouse()
+RETURNS trigger AS $$
+BEGIN
+  DELETE FROM user_warehouses
+  WHERE user_id = NEW.id AND is_primary AND warehouse_id IS DISTINCT FROM NEW.warehouse_id;
+
+  IF NEW.warehouse_id IS NOT NULL THEN
+    INSERT INTO user_warehouses (user_id, warehouse_id, is_primary)
+    VALUES (NEW.id, NEW.warehouse_id, true)
+    ON CONFLICT (user_id, warehouse_id) DO UPDATE SET is_primary = true;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER users_primary_warehouse AFTER INSERT OR UPDATE OF warehouse_name ON users
+  FOR EACH ROW EXECUTE FUNCTION sync_primary_warehouse();
+
+ALTER TABLE warehouses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE warehouse_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_warehouses ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION can_read_warehouse(p_warehouse_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users u WHERE u.id = auth.uid() AND u.role = 'admin'
+  ) OR EXISTS (
+    SELECT 1 FROM warehouses w WHERE w.id = p_warehouse_id AND w.vendor_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM user_warehouses uw WHERE uw.warehouse_id = p_warehouse_id AND uw.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Users can read their warehouses" ON warehouses
+  FOR SELECT TO authenticated
+  USING (can_read_warehouse(id));
+
+CREATE POLICY "Admin and owning vendor can manage warehouses" ON warehouses
+  FOR ALL TO authenticated
+  USING (
+    vendor_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = auth.uid() AND u.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Users can read zones of their warehouses" ON warehouse_zones
+  FOR SELECT TO authenticated
+  USING (can_read_warehouse(warehouse_id));
+
+CREATE POLICY "Admin and owning vendor can manage zones" ON warehouse_zones
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM warehouses w
+      WHERE w.id = warehouse_zones.warehouse_id AND w.vendor_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = auth.uid() AND u.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Users can read assignments in their hierarchy" ON user_warehouses
+  FOR SELECT TO authenticated
+  USING (can_read_user(user_id));
+
+CREATE POLICY "Admin and vendors can manage assignments" ON user_warehouses
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = auth.uid() AND (u.role = 'admin' OR u.role = 'vendor')
+    )
+  );
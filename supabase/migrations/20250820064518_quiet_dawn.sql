@@ -0,0 +1,241 @@
+/*
+  # Business Dates
+
+  1. Changes
+    - `warehouses.shift_cutoff` - local time at which a warehouse's business
+      day rolls over; counts before it belong to the previous day (05:30 keeps
+      a night shift that ends at dawn on the day it started)
+    - `counting_sessions.business_date` - the business day the session started
+      in, set on insert from the warehouse's timezone and cutoff
+    - `counting_data.date` no longer defaults to the database date; every count
+      takes its session's business date, so one session never splits across
+      two days
+
+  2. Functions
+    - `business_date` - a warehouse's business date at an instant
+    - `compute_worker_performance` - session time is credited by business date
+    - `run_performance_engine` - without a date, refreshes and ranks each
+      warehouse's previous business day in the hour after its cutoff passes;
+      now scheduled hourly so every timezone is covered
+    - `live_board_sessions` - efficiency is read for the session's business day
+
+  3. Data
+    - Existing warehouses keep UTC and a midnight cutoff, which matches how
+      dates were derived before, so existing rows stay where they are
+*/
+
+ALTER TABLE warehouses ADD COLUMN shift_cutoff time NOT NULL DEFAULT '00:00';
+
+CREATE OR REPLACE FUNCTION business_date(p_warehouse_name text, p_at timestamptz DEFAULT now())
+RETURNS date AS $$
+  SELECT ((p_at AT TIME ZONE COALESCE(w.timezone, 'UTC')) - COALESCE(w.shift_cutoff, '00:00')::interval)::date
+  FROM (SELECT 1) one
+  LEFT JOIN warehouses w ON w.code = p_warehouse_name;
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE counting_sessions ADD COLUMN business_date date;
+
+UPDATE counting_sessions SET business_date = business_date(warehouse_name, start_time);
+
+ALTER TABLE counting_sessions ALTER COLUMN business_date SET NOT NULL;
+
+CREATE INDEX idx_counting_sessions_business_date ON counting_sessions(warehouse_name, business_date);
+
+-- The business date is fixed when the session starts
+CREATE OR REPLACE FUNCTION set_session_business_date()
+RETURNS trigger AS $$
+BEGIN
+  NEW.business_date := business_date(NEW.warehouse_name, COALESCE(NEW.start_time, now()));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER counting_sessions_business_date BEFORE INSERT ON counting_sessions
+  FOR EACH ROW EXECUTE FUNCTION set_session_business_date();
+
+ALTER TABLE counting_data ALTER COLUMN date DROP DEFAULT;
+
+-- Counts are credited to the day their session started, whatever the clock says now
+CREATE OR REPLACE FUNCTION set_count_business_date()
+RETURNS trigger AS $$
+BEGIN
+  SELECT business_date INTO NEW.date FROM counting_sessions WHERE id = NEW.session_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER counting_data_business_date BEFORE INSERT ON counting_data
+  FOR EACH ROW EXECUTE FUNCTION set_count_business_date();
+
+CREATE OR REPLACE FUNCTION compute_worker_performance(
+  p_wh_name text,
+  p_date date,
+  p_username text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  CREATE TEMP TABLE perf_metrics ON COMMIT DROP AS
+  WITH settings AS (
+    SELECT
+      COALESCE(ws.target_bins_per_hour, 60) AS target_bins_per_hour,
+      COALESCE(ws.speed_weight, 0.5) AS speed_weight,
+      COALESCE(ws.accuracy_weight, 0.5) AS accuracy_weight
+    FROM (SELECT 1) one
+    LEFT JOIN warehouse_settings ws ON ws.warehouse_name = p_wh_name
+  ),
+  session_time AS (
+    SELECT
+      w.user_id AS username,
+      SUM(EXTRACT(EPOCH FROM (COALESCE(s.end_time, now()) - s.start_time)) / 60) AS minutes
+    FROM counting_sessions s
+    JOIN users w ON w.id = s.worker_id
+    WHERE s.warehouse_name = p_wh_name
+      AND s.business_date = p_date
+      AND (p_username IS NULL OR w.user_id = p_username)
+    GROUP BY w.user_id
+  ),
+  counts AS (
+    -- A count is accurate when it matches the final quantity: the TL recount
+    -- if there is one, otherwise the books
+    SELECT
+      cd.username,
+      COUNT(*) AS bins,
+      SUM(cd.qty_counted) AS qty,
+      COUNT(*) FILTER (
+        WHERE cd.qty_counted = COALESCE(cd.qty_recounted_tl, cd.qty_as_per_books)
+      ) AS accurate_bins
+    FROM counting_data cd
+    WHERE cd.wh_name = p_wh_name
+      AND cd.date = p_date
+      AND (p_username IS NULL OR cd.username = p_username)
+    GROUP BY cd.username
+  )
+  SELECT
+    COALESCE(c.username, st.username) AS username,
+    COALESCE(c.bins, 0) AS bins,
+    COALESCE(c.qty, 0) AS qty,
+    ROUND(COALESCE(st.minutes, 0))::integer AS minutes,
+    CASE WHEN COALESCE(st.minutes, 0) > 0
+      THEN LEAST(ROUND(COALESCE(c.bins, 0) / (st.minutes / 60), 2), 999999.99)
+      ELSE 0
+    END AS bins_per_hour,
+    CASE WHEN COALESCE(c.bins, 0) > 0
+      THEN ROUND(c.accurate_bins::numeric / c.bins, 4)
+      ELSE 0
+    END AS accuracy_rate,
+    s.target_bins_per_hour,
+    s.speed_weight,
+    s.accuracy_weight
+  FROM counts c
+  FULL OUTER JOIN session_time st ON st.username = c.username
+  CROSS JOIN settings s;
+
+  UPDATE worker_performance wp
+  SET
+    no_of_bins_counted = m.bins,
+    no_of_qty_counted = m.qty,
+    time_taken_minutes = m.minutes,
+    bins_per_hour = m.bins_per_hour,
+    accuracy_rate = m.accuracy_rate,
+    efficiency = ROUND(100 * (
+      m.speed_weight * LEAST(m.bins_per_hour / m.target_bins_per_hour, 1) +
+      m.accuracy_weight * m.accuracy_rate
+    ), 2),
+    computed_at = now()
+  FROM perf_metrics m
+  WHERE wp.wh_name = p_wh_name
+    AND wp.date = p_date
+    AND wp.username = m.username;
+
+  INSERT INTO worker_performance (
+    wh_name, date, username, no_of_bins_counted, no_of_qty_counted,
+    time_taken_minutes, bins_per_hour, accuracy_rate, efficiency, computed_at
+  )
+  SELECT
+    p_wh_name, p_date, m.username, m.bins, m.qty, m.minutes, m.bins_per_hour, m.accuracy_rate,
+    ROUND(100 * (
+      m.speed_weight * LEAST(m.bins_per_hour / m.target_bins_per_hour, 1) +
+      m.accuracy_weight * m.accuracy_rate
+    ), 2),
+    now()
+  FROM perf_metrics m
+  WHERE NOT EXISTS (
+    SELECT 1 FROM worker_performance wp
+    WHERE wp.wh_name = p_wh_name AND wp.date = p_date AND wp.username = m.username
+  );
+
+  DROP TABLE perf_metrics;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS run_performance_engine(date);
+
+-- Without a date, each warehouse is closed out once, in the hour after its day ends
+CREATE OR REPLACE FUNCTION run_performance_engine(p_date date DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_wh_name text;
+  v_date date;
+  v_count integer := 0;
+BEGIN
+  FOR v_wh_name, v_date IN
+    SELECT w.code, COALESCE(p_date, business_date(w.code, now()) - 1)
+    FROM warehouses w
+    WHERE p_date IS NOT NULL
+      OR business_date(w.code, now() - interval '1 hour') <> business_date(w.code, now())
+  LOOP
+    IF EXISTS (SELECT 1 FROM counting_sessions WHERE warehouse_name = v_wh_name AND business_date = v_date)
+      OR EXISTS (SELECT 1 FROM counting_data WHERE wh_name = v_wh_name AND date = v_date)
+    THEN
+      PERFORM compute_worker_performance(v_wh_name, v_date);
+      PERFORM rank_worker_performance(v_wh_name, v_date);
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT cron.unschedule('worker-performance-daily');
+
+SELECT cron.schedule(
+  'worker-performance-close-day',
+  '5 * * * *',
+  $$SELECT run_performance_engine()$$
+);
+
+CREATE OR REPLACE FUNCTION live_board_sessions(p_warehouse_name text)
+RETURNS TABLE (
+  session_id uuid,
+  worker_id uuid,
+  worker_user_id text,
+  team_leader_id uuid,
+  vendor_id uuid,
+  start_time timestamptz,
+  bins_counted bigint,
+  last_count_at timestamptz,
+  efficiency numeric
+) AS $$
+  SELECT
+    cs.id,
+    cs.worker_id,
+    u.user_id,
+    cs.team_leader_id,
+    u.vendor_id,
+    cs.start_time,
+    COUNT(cd.id),
+    MAX(cd.created_at),
+    (
+      SELECT wp.efficiency FROM worker_performance wp
+      WHERE wp.username = u.user_id AND wp.wh_name = p_warehouse_name AND wp.date = cs.business_date
+      ORDER BY wp.computed_at DESC NULLS LAST
+      LIMIT 1
+    )
+  FROM counting_sessions cs
+  JOIN users u ON u.id = cs.worker_id
+  LEFT JOIN counting_data cd ON cd.session_id = cs.id
+  WHERE cs.warehouse_name = p_warehouse_name AND cs.status = 'active'
+  GROUP BY cs.id, u.user_id, u.vendor_id
+  ORDER BY u.user_id;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,314 @@
+/*
+  # SKU-Level Counting
+
+  1. New Tables
+    - `bin_contents` - the SKUs a bin holds per the books, with description,
+      unit of measure and book quantity
+    - `counting_data_items` - one row per SKU of a count: the worker's count,
+      the second blind count and the team leader recount, plus the book
+      quantity at the time of the count and a generated `difference`
+
+  2. Totals
+    - A bin with contents has `bin_master.qty_as_per_books` kept at the sum of
+      its SKUs; removing the last SKU leaves the total as it was
+    - A count with items has its `qty_counted`, `qty_second_count` and
+      `qty_recounted_tl` kept at the sum of its items, so the bin-level
+      `difference`, recount queue and performance engine work unchanged
+    - `counting_data.has_item_variance` - set when any SKU is off from books,
+      so SKU differences that cancel out in the total still reach the team
+      leader's recount queue
+    - Bins without contents are counted as a single number, exactly as before
+
+  3. Functions
+    - `reconciliation_item_report` - the reconciliation report broken down by
+      SKU; bins without contents appear as one row with no SKU
+    - `post_stock_adjustments` - also writes each SKU's final quantity back to
+      the bin contents, including bins whose SKU differences cancel out
+    - `recount_count` - a team leader's recount of a bin, as a total or per
+      SKU, in one transaction; refused while the bin awaits its second count,
+      and the worker's performance is refreshed with it
+
+  4. Security
+    - Bin contents follow `bin_master`: workers read them only through the
+      edge functions
+    - Count items follow the count they belong to
+*/
+
+CREATE TABLE IF NOT EXISTS bin_contents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bin_id uuid NOT NULL REFERENCES bin_master(id) ON DELETE CASCADE,
+  sku text NOT NULL,
+  description text,
+  uom text NOT NULL DEFAULT 'EA',
+  qty_as_per_books integer NOT NULL DEFAULT 0 CHECK (qty_as_per_books >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (bin_id, sku)
+);
+
+CREATE TABLE IF NOT EXISTS counting_data_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  counting_data_id uuid NOT NULL REFERENCES counting_data(id) ON DELETE CASCADE,
+  sku text NOT NULL,
+  description text,
+  uom text NOT NULL DEFAULT 'EA',
+  qty_as_per_books integer NOT NULL DEFAULT 0,
+  qty_counted integer NOT NULL CHECK (qty_counted >= 0),
+  qty_second_count integer CHECK (qty_second_count >= 0),
+  qty_recounted_tl integer CHECK (qty_recounted_tl >= 0),
+  difference integer GENERATED ALWAYS AS (
+    COALESCE(qty_recounted_tl, qty_second_count, qty_counted) - qty_as_per_books
+  ) STORED,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (counting_data_id, sku)
+);
+
+CREATE INDEX idx_counting_data_items_sku ON counting_data_items(sku);
+
+ALTER TABLE counting_data ADD COLUMN IF NOT EXISTS has_item_variance boolean NOT NULL DEFAULT false;
+
+-- A bin with contents books the sum of its SKUs
+CREATE OR REPLACE FUNCTION sync_bin_total()
+RETURNS trigger AS $$
+DECLARE
+  v_bin_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.bin_id ELSE NEW.bin_id END;
+BEGIN
+  UPDATE bin_master bm
+  SET qty_as_per_books = totals.qty
+  FROM (
+    SELECT SUM(bc.qty_as_per_books)::integer AS qty
+    FROM bin_contents bc
+    WHERE bc.bin_id = v_bin_id
+    HAVING COUNT(*) > 0
+  ) totals
+  WHERE bm.id = v_bin_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bin_contents_total AFTER INSERT OR UPDATE OR DELETE ON bin_contents
+  FOR EACH ROW EXECUTE FUNCTION sync_bin_total();
+
+-- A later stage counted for any SKU makes it the bin's quantity for that stage;
+-- SKUs without it carry their earlier count
+CREATE OR REPLACE FUNCTION sync_count_totals()
+RETURNS trigger AS $$
+DECLARE
+  v_counting_data_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.counting_data_id ELSE NEW.counting_data_id END;
+BEGIN
+  UPDATE counting_data cd
+  SET
+    qty_as_per_books = totals.books,
+    qty_counted = totals.counted,
+    qty_second_count = totals.second_count,
+    qty_recounted_tl = totals.recounted,
+    has_item_variance = totals.has_variance
+  FROM (
+    SELECT
+      SUM(i.qty_as_per_books)::integer AS books,
+      SUM(i.qty_counted)::integer AS counted,
+      CASE WHEN bool_or(i.qty_second_count IS NOT NULL)
+        THEN SUM(COALESCE(i.qty_second_count, i.qty_counted))::integer
+      END AS second_count,
+      CASE WHEN bool_or(i.qty_recounted_tl IS NOT NULL)
+        THEN SUM(COALESCE(i.qty_recounted_tl, i.qty_second_count, i.qty_counted))::integer
+      END AS recounted,
+      bool_or(i.difference <> 0) AS has_variance
+    FROM counting_data_items i
+    WHERE i.counting_data_id = v_counting_data_id
+    HAVING COUNT(*) > 0
+  ) totals
+  WHERE cd.id = v_counting_data_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER counting_data_items_totals AFTER INSERT OR UPDATE OR DELETE ON counting_data_items
+  FOR EACH ROW EXECUTE FUNCTION sync_count_totals();
+
+CREATE OR REPLACE FUNCTION reconciliation_item_report(
+  p_warehouse_name text,
+  p_campaign_id uuid DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL
+)
+RETURNS TABLE (
+  counting_data_id uuid,
+  bin_no text,
+  sku text,
+  description text,
+  uom text,
+  counted_on date,
+  username text,
+  qty_as_per_books integer,
+  qty_counted integer,
+  qty_second_count integer,
+  qty_recounted_tl integer,
+  final_qty integer,
+  difference integer,
+  reason_for_difference text,
+  is_locked boolean,
+  posted boolean
+) AS $$
+  SELECT
+    r.counting_data_id,
+    r.bin_no,
+    i.sku,
+    i.description,
+    i.uom,
+    r.counted_on,
+    r.username,
+    COALESCE(i.qty_as_per_books, r.qty_as_per_books),
+    COALESCE(i.qty_counted, r.qty_counted),
+    CASE WHEN i.id IS NULL THEN cd.qty_second_count ELSE i.qty_second_count END,
+    CASE WHEN i.id IS NULL THEN r.qty_recounted_tl ELSE i.qty_recounted_tl END,
+    CASE WHEN i.id IS NULL THEN r.final_qty
+      ELSE COALESCE(i.qty_recounted_tl, i.qty_second_count, i.qty_counted)
+    END,
+    COALESCE(i.difference, r.difference),
+    r.reason_for_difference,
+    r.is_locked,
+    r.posted
+  FROM reconciliation_report(p_warehouse_name, p_campaign_id, p_from, p_to) r
+  JOIN counting_data cd ON cd.id = r.counting_data_id
+  LEFT JOIN counting_data_items i ON i.counting_data_id = r.counting_data_id
+  ORDER BY r.bin_no, i.sku;
+$$ LANGUAGE sql STABLE;
+
+-- Post every approved, not yet posted variance in scope to the books
+CREATE OR REPLACE FUNCTION post_stock_adjustments(
+  p_warehouse_name text,
+  p_approved_by uuid,
+  p_campaign_id uuid DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_posted integer;
+BEGIN
+  CREATE TEMP TABLE pending_adjustments ON COMMIT DROP AS
+  SELECT r.*
+  FROM reconciliation_report(p_warehouse_name, p_campaign_id, p_from, p_to) r
+  WHERE r.is_locked
+    AND NOT r.posted
+    AND r.bin_id IS NOT NULL
+    AND (
+      r.final_qty <> r.current_books
+      -- SKU differences that cancel out still correct the contents
+      OR EXISTS (
+        SELECT 1 FROM counting_data_items i
+        WHERE i.counting_data_id = r.counting_data_id AND i.difference <> 0
+      )
+    );
+
+  INSERT INTO stock_adjustments (
+    bin_id, warehouse_name, bin_no, counting_data_id, campaign_id,
+    qty_before, qty_after, unit_value, reason_for_difference, approved_by
+  )
+  SELECT
+    pa.bin_id, p_warehouse_name, pa.bin_no, pa.counting_data_id, p_campaign_id,
+    pa.current_books, pa.final_qty, pa.unit_value, pa.reason_for_difference, p_approved_by
+  FROM pending_adjustments pa;
+
+  GET DIAGNOSTICS v_posted = ROW_COUNT;
+
+  UPDATE bin_master bm
+  SET qty_as_per_books = pa.final_qty
+  FROM pending_adjustments pa
+  WHERE bm.id = pa.bin_id;
+
+  -- Counted SKUs take their final quantity; SKUs found in the bin but not on the books are added
+  INSERT INTO bin_contents (bin_id, sku, description, uom, qty_as_per_books)
+  SELECT
+    pa.bin_id, i.sku, i.description, i.uom,
+    COALESCE(i.qty_recounted_tl, i.qty_second_count, i.qty_counted)
+  FROM pending_adjustments pa
+  JOIN counting_data_items i ON i.counting_data_id = pa.counting_data_id
+  ON CONFLICT (bin_id, sku) DO UPDATE
+  SET qty_as_per_books = EXCLUDED.qty_as_per_books, updated_at = now();
+
+  INSERT INTO audit_logs (user_id, action, details)
+  SELECT
+    p_approved_by,
+    'POST_ADJUSTMENT',
+    format('Adjusted books for bin %s in %s: %s -> %s (reason: %s)',
+      pa.bin_no, p_warehouse_name, pa.current_books, pa.final_qty,
+      COALESCE(pa.reason_for_difference, 'none'))
+  FROM pending_adjustments pa;
+
+  DROP TABLE pending_adjustments;
+  RETURN v_posted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- SKUs left out of an item recount keep their earlier count; item totals roll up through sync_count_totals
+CREATE OR REPLACE FUNCTION recount_count(
+  p_counting_data_id uuid,
+  p_actor_id uuid,
+  p_qty_recounted integer DEFAULT NULL,
+  p_items jsonb DEFAULT '[]'::jsonb,
+  p_reason text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_count counting_data%ROWTYPE;
+  v_team_leader_id uuid;
+BEGIN
+  SELECT cd.* INTO v_count FROM counting_data cd WHERE cd.id = p_counting_data_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Counting record not found';
+  END IF;
+
+  SELECT team_leader_id INTO v_team_leader_id FROM counting_sessions WHERE id = v_count.session_id;
+
+  IF v_team_leader_id IS DISTINCT FROM p_actor_id THEN
+    RAISE EXCEPTION 'Counting record not found';
+  END IF;
+  IF v_count.is_locked THEN
+    RAISE EXCEPTION 'Counting record is already approved';
+  END IF;
+  IF v_count.awaiting_second_count THEN
+    RAISE EXCEPTION 'Bin % is waiting for its second count', v_count.bin_no;
+  END IF;
+
+  UPDATE counting_data
+  SET
+    qty_recounted_tl = COALESCE(p_qty_recounted, qty_recounted_tl),
+    reason_for_difference = p_reason,
+    recounted_by = p_actor_id,
+    recounted_at = now()
+  WHERE id = v_count.id;
+
+  UPDATE counting_data_items i
+  SET qty_recounted_tl = r.qty
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS r(sku text, qty integer)
+  WHERE i.counting_data_id = v_count.id AND i.sku = r.sku;
+
+  PERFORM compute_worker_performance(v_count.wh_name, v_count.date, v_count.username);
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE bin_contents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE counting_data_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Non-workers can read bin contents" ON bin_contents
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = auth.uid() AND u.role <> 'worker'
+    )
+  );
+
+-- The count's own policy decides, so blind counts stay hidden from their worker
+CREATE POLICY "Users can read items of counts they can read" ON counting_data_items
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM counting_data cd
+      WHERE cd.id = counting_data_items.counting_data_id
+    )
+  );
@@ -0,0 +1,301 @@
+/*
+  # Structured, Hash-Chained Audit Log
+
+  1. Changes to `audit_logs`
+    - `details` is now jsonb; existing free-text entries become `{"message": ...}`
+    - `actor_role` - the role of the acting user when the entry was written
+    - `warehouse_name` - the warehouse the action concerns, for filtering
+    - `seq` - position in the chain, assigned on insert
+    - `prev_hash` / `hash` - each entry's hash covers its own fields and the
+      previous entry's hash, so editing, removing or reordering any entry
+      breaks every hash after it
+
+  2. Hash Recipe
+    - SHA-256 (hex) of the fields joined with `|`, NULLs as empty strings:
+      seq, prev_hash, created_at (UTC, `YYYY-MM-DDTHH:MM:SS.ffffffZ`),
+      user_id, actor_role, action, warehouse_name, host(ip_address) and
+      PostgreSQL's text form of `details`
+
+  3. Functions
+    - `append_audit_log` trigger - serializes inserts, fixes `created_at`,
+      fills `actor_role` and chains the entry
+    - `verify_audit_chain` - recomputes the chain and reports the first
+      broken entry and the head hash to record as an anchor
+    - `search_audit_logs` - filtered audit trail for the admin viewer,
+      newest first; `p_before_seq` pages an export by seq rather than offset
+    - `audit_log_actions` - distinct actions, for the viewer's filter
+    - `post_stock_adjustments` - writes structured details
+
+  4. Security
+    - Entries can no longer be updated, deleted or truncated
+    - Direct inserts by signed-in users are no longer allowed; every entry is
+      written by the edge functions or database functions
+*/
+
+ALTER TABLE audit_logs
+  ALTER COLUMN details TYPE jsonb USING jsonb_build_object('message', details);
+
+ALTER TABLE audit_logs
+  ADD COLUMN IF NOT EXISTS actor_role text,
+  ADD COLUMN IF NOT EXISTS warehouse_name text,
+  ADD COLUMN IF NOT EXISTS seq bigint,
+  ADD COLUMN IF NOT EXISTS prev_hash text,
+  ADD COLUMN IF NOT EXISTS hash text;
+
+CREATE OR REPLACE FUNCTION audit_log_hash(
+  p_seq bigint,
+  p_prev_hash text,
+  p_created_at timestamptz,
+  p_user_id uuid,
+  p_actor_role text,
+  p_action text,
+  p_warehouse_name text,
+  p_ip_address inet,
+  p_details jsonb
+)
+RETURNS text AS $$
+  SELECT encode(sha256(convert_to(concat_ws('|',
+    p_seq,
+    COALESCE(p_prev_hash, ''),
+    to_char(p_created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    COALESCE(p_user_id::text, ''),
+    COALESCE(p_actor_role, ''),
+    p_action,
+    COALESCE(p_warehouse_name, ''),
+    COALESCE(host(p_ip_address), ''),
+    p_details::text
+  ), 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE audit_logs SET created_at = now() WHERE created_at IS NULL;
+
+-- Chain the existing entries in the order they were written
+UPDATE audit_logs a
+SET
+  seq = ordered.seq,
+  actor_role = (SELECT u.role FROM users u WHERE u.id = a.user_id)
+FROM (
+  SELECT id, row_number() OVER (ORDER BY created_at, id) AS seq
+  FROM audit_logs
+) ordered
+WHERE ordered.id = a.id;
+
+DO $$
+DECLARE
+  r record;
+  v_prev text;
+BEGIN
+  FOR r IN SELECT * FROM audit_logs ORDER BY seq LOOP
+    UPDATE audit_logs
+    SET
+      prev_hash = v_prev,
+      hash = audit_log_hash(r.seq, v_prev, r.created_at, r.user_id, r.actor_role, r.action, r.warehouse_name, r.ip_address, r.details)
+    WHERE id = r.id
+    RETURNING hash INTO v_prev;
+  END LOOP;
+END $$;
+
+CREATE SEQUENCE IF NOT EXISTS audit_logs_seq;
+SELECT setval('audit_logs_seq', COALESCE((SELECT MAX(seq) FROM audit_logs), 0) + 1, false);
+
+ALTER TABLE audit_logs
+  ALTER COLUMN created_at SET NOT NULL,
+  ALTER COLUMN seq SET NOT NULL,
+  ALTER COLUMN hash SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_seq ON audit_logs(seq);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user ON audit_logs(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_warehouse ON audit_logs(warehouse_name, created_at);
+
+-- One writer at a time, so every entry sees the hash of the one before it
+CREATE OR REPLACE FUNCTION append_audit_log()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('audit_logs_chain'));
+
+  NEW.seq := nextval('audit_logs_seq');
+  NEW.created_at := clock_timestamp();
+  NEW.details := COALESCE(NEW.details, '{}'::jsonb);
+  IF NEW.actor_role IS NULL AND NEW.user_id IS NOT NULL THEN
+    SELECT role INTO NEW.actor_role FROM users WHERE id = NEW.user_id;
+  END IF;
+
+  SELECT hash INTO NEW.prev_hash FROM audit_logs ORDER BY seq DESC LIMIT 1;
+  NEW.hash := audit_log_hash(
+    NEW.seq, NEW.prev_hash, NEW.created_at, NEW.user_id, NEW.actor_role,
+    NEW.action, NEW.warehouse_name, NEW.ip_address, NEW.details
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_logs_append BEFORE INSERT ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION append_audit_log();
+
+CREATE OR REPLACE FUNCTION reject_audit_log_change()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_logs_append_only BEFORE UPDATE OR DELETE ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION reject_audit_log_change();
+
+CREATE TRIGGER audit_logs_no_truncate BEFORE TRUNCATE ON audit_logs
+  FOR EACH STATEMENT EXECUTE FUNCTION reject_audit_log_change();
+
+-- Walks the whole chain; the head hash lets auditors detect entries removed from the end later
+CREATE OR REPLACE FUNCTION verify_audit_chain()
+RETURNS TABLE (
+  checked bigint,
+  first_broken_seq bigint,
+  head_seq bigint,
+  head_hash text
+) AS $$
+DECLARE
+  r record;
+  v_prev text;
+BEGIN
+  checked := 0;
+  SELECT a.seq, a.hash INTO head_seq, head_hash FROM audit_logs a ORDER BY a.seq DESC LIMIT 1;
+
+  FOR r IN SELECT * FROM audit_logs ORDER BY seq LOOP
+    IF r.prev_hash IS DISTINCT FROM v_prev
+      OR r.hash <> audit_log_hash(r.seq, r.prev_hash, r.created_at, r.user_id, r.actor_role, r.action, r.warehouse_name, r.ip_address, r.details)
+    THEN
+      first_broken_seq := r.seq;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    v_prev := r.hash;
+    checked := checked + 1;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION search_audit_logs(
+  p_user_id text DEFAULT NULL,
+  p_action text DEFAULT NULL,
+  p_warehouse_name text DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_before_seq bigint DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  seq bigint,
+  created_at timestamptz,
+  user_id uuid,
+  username text,
+  actor_role text,
+  action text,
+  warehouse_name text,
+  ip_address text,
+  details jsonb,
+  prev_hash text,
+  hash text
+) AS $$
+  SELECT
+    a.id, a.seq, a.created_at, a.user_id, u.user_id, a.actor_role, a.action,
+    a.warehouse_name, host(a.ip_address), a.details, a.prev_hash, a.hash
+  FROM audit_logs a
+  LEFT JOIN users u ON u.id = a.user_id
+  WHERE (p_user_id IS NULL OR u.user_id = p_user_id)
+    AND (p_action IS NULL OR a.action = p_action)
+    AND (p_warehouse_name IS NULL OR a.warehouse_name = p_warehouse_name)
+    AND (p_from IS NULL OR a.created_at >= p_from)
+    AND (p_to IS NULL OR a.created_at < p_to + 1)
+    -- The search is literal text; % and _ typed by the admin are not wildcards
+    AND (p_search IS NULL OR a.details::text ILIKE
+      '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%')
+    AND (p_before_seq IS NULL OR a.seq < p_before_seq)
+  ORDER BY a.seq DESC;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION audit_log_actions()
+RETURNS SETOF text AS $$
+  SELECT DISTINCT action FROM audit_logs ORDER BY action;
+$$ LANGUAGE sql STABLE;
+
+-- Post every approved, not yet posted variance in scope to the books
+CREATE OR REPLACE FUNCTION post_stock_adjustments(
+  p_warehouse_name text,
+  p_approved_by uuid,
+  p_campaign_id uuid DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_posted integer;
+BEGIN
+  CREATE TEMP TABLE pending_adjustments ON COMMIT DROP AS
+  SELECT r.*
+  FROM reconciliation_report(p_warehouse_name, p_campaign_id, p_from, p_to) r
+  WHERE r.is_locked
+    AND NOT r.posted
+    AND r.bin_id IS NOT NULL
+    AND (
+      r.final_qty <> r.current_books
+      -- SKU differences that cancel out still correct the contents
+      OR EXISTS (
+        SELECT 1 FROM counting_data_items i
+        WHERE i.counting_data_id = r.counting_data_id AND i.difference <> 0
+      )
+    );
+
+  INSERT INTO stock_adjustments (
+    bin_id, warehouse_name, bin_no, counting_data_id, campaign_id,
+    qty_before, qty_after, unit_value, reason_for_difference, approved_by
+  )
+  SELECT
+    pa.bin_id, p_warehouse_name, pa.bin_no, pa.counting_data_id, p_campaign_id,
+    pa.current_books, pa.final_qty, pa.unit_value, pa.reason_for_difference, p_approved_by
+  FROM pending_adjustments pa;
+
+  GET DIAGNOSTICS v_posted = ROW_COUNT;
+
+  UPDATE bin_master bm
+  SET qty_as_per_books = pa.final_qty
+  FROM pending_adjustments pa
+  WHERE bm.id = pa.bin_id;
+
+  -- Counted SKUs take their final quantity; SKUs found in the bin but not on the books are added
+  INSERT INTO bin_contents (bin_id, sku, description, uom, qty_as_per_books)
+  SELECT
+    pa.bin_id, i.sku, i.description, i.uom,
+    COALESCE(i.qty_recounted_tl, i.qty_second_count, i.qty_counted)
+  FROM pending_adjustments pa
+  JOIN counting_data_items i ON i.counting_data_id = pa.counting_data_id
+  ON CONFLICT (bin_id, sku) DO UPDATE
+  SET qty_as_per_books = EXCLUDED.qty_as_per_books, updated_at = now();
+
+  INSERT INTO audit_logs (user_id, action, warehouse_name, details)
+  SELECT
+    p_approved_by,
+    'POST_ADJUSTMENT',
+    p_warehouse_name,
+    jsonb_build_object(
+      'bin_no', pa.bin_no,
+      'counting_data_id', pa.counting_data_id,
+      'campaign_id', p_campaign_id,
+      'qty_before', pa.current_books,
+      'qty_after', pa.final_qty,
+      'reason', pa.reason_for_difference
+    )
+  FROM pending_adjustments pa
+  ORDER BY pa.bin_no;
+
+  DROP TABLE pending_adjustments;
+  RETURN v_posted;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP POLICY IF EXISTS "Users can create audit logs" ON audit_logs;
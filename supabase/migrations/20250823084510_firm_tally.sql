@@ -0,0 +1,243 @@
+/*
+  # Transactional Count Writes
+
+  1. Changes to `worker_performance`
+    - Duplicate rows for the same warehouse, day and worker are merged: the
+      most recently computed row is kept and the affected days are recomputed
+    - `date` is required and `(wh_name, date, username)` is unique; a worker
+      assigned to several warehouses keeps one row per warehouse
+
+  2. Functions
+    - `compute_worker_performance` - upserts on the unique key instead of
+      update-then-insert, so two refreshes of the same day never duplicate
+    - `record_count` - saves a count, its SKU items, the worker's refreshed
+      performance and the COUNT_BIN audit entry in one transaction; the
+      session row is locked so counts in a session are written one at a time,
+      and a replayed client key returns the count saved the first time
+*/
+
+UPDATE worker_performance SET date = created_at::date WHERE date IS NULL;
+
+CREATE TEMP TABLE duplicated_performance_days ON COMMIT DROP AS
+SELECT DISTINCT wh_name, date
+FROM worker_performance
+GROUP BY wh_name, date, username
+HAVING COUNT(*) > 1;
+
+DELETE FROM worker_performance wp
+USING (
+  SELECT
+    id,
+    row_number() OVER (
+      PARTITION BY wh_name, date, username
+      ORDER BY computed_at DESC NULLS LAST, created_at DESC, id
+    ) AS position
+  FROM worker_performance
+) ranked
+WHERE ranked.id = wp.id AND ranked.position > 1;
+
+ALTER TABLE worker_performance ALTER COLUMN date SET NOT NULL;
+
+ALTER TABLE worker_performance
+  ADD CONSTRAINT worker_performance_wh_date_username_key UNIQUE (wh_name, date, username);
+
+-- The unique key leads with the same columns
+DROP INDEX IF EXISTS idx_worker_performance_wh_date;
+
+CREATE OR REPLACE FUNCTION compute_worker_performance(
+  p_wh_name text,
+  p_date date,
+  p_username text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  CREATE TEMP TABLE perf_metrics ON COMMIT DROP AS
+  WITH settings AS (
+    SELECT
+      COALESCE(ws.target_bins_per_hour, 60) AS target_bins_per_hour,
+      COALESCE(ws.speed_weight, 0.5) AS speed_weight,
+      COALESCE(ws.accuracy_weight, 0.5) AS accuracy_weight
+    FROM (SELECT 1) one
+    LEFT JOIN warehouse_settings ws ON ws.warehouse_name = p_wh_name
+  ),
+  session_time AS (
+    SELECT
+      w.user_id AS username,
+      SUM(EXTRACT(EPOCH FROM (COALESCE(s.end_time, now()) - s.start_time)) / 60) AS minutes
+    FROM counting_sessions s
+    JOIN users w ON w.id = s.worker_id
+    WHERE s.warehouse_name = p_wh_name
+      AND s.business_date = p_date
+      AND (p_username IS NULL OR w.user_id = p_username)
+    GROUP BY w.user_id
+  ),
+  counts AS (
+    -- A count is accurate when it matches the final quantity: the TL recount
+    -- if there is one, otherwise the books
+    SELECT
+      cd.username,
+      COUNT(*) AS bins,
+      SUM(cd.qty_counted) AS qty,
+      COUNT(*) FILTER (
+        WHERE cd.qty_counted = COALESCE(cd.qty_recounted_tl, cd.qty_as_per_books)
+      ) AS accurate_bins
+    FROM counting_data cd
+    WHERE cd.wh_name = p_wh_name
+      AND cd.date = p_date
+      AND (p_username IS NULL OR cd.username = p_username)
+    GROUP BY cd.username
+  )
+  SELECT
+    COALESCE(c.username, st.username) AS username,
+    COALESCE(c.bins, 0) AS bins,
+    COALESCE(c.qty, 0) AS qty,
+    ROUND(COALESCE(st.minutes, 0))::integer AS minutes,
+    CASE WHEN COALESCE(st.minutes, 0) > 0
+      THEN LEAST(ROUND(COALESCE(c.bins, 0) / (st.minutes / 60), 2), 999999.99)
+      ELSE 0
+    END AS bins_per_hour,
+    CASE WHEN COALESCE(c.bins, 0) > 0
+      THEN ROUND(c.accurate_bins::numeric / c.bins, 4)
+      ELSE 0
+    END AS accuracy_rate,
+    s.target_bins_per_hour,
+    s.speed_weight,
+    s.accuracy_weight
+  FROM counts c
+  FULL OUTER JOIN session_time st ON st.username = c.username
+  CROSS JOIN settings s;
+
+  -- One row per worker, warehouse and day, so concurrent refreshes converge instead of duplicating
+  INSERT INTO worker_performance (
+    wh_name, date, username, no_of_bins_counted, no_of_qty_counted,
+    time_taken_minutes, bins_per_hour, accuracy_rate, efficiency, computed_at
+  )
+  SELECT
+    p_wh_name, p_date, m.username, m.bins, m.qty, m.minutes, m.bins_per_hour, m.accuracy_rate,
+    ROUND(100 * (
+      m.speed_weight * LEAST(m.bins_per_hour / m.target_bins_per_hour, 1) +
+      m.accuracy_weight * m.accuracy_rate
+    ), 2),
+    now()
+  FROM perf_metrics m
+  ON CONFLICT (wh_name, date, username) DO UPDATE
+  SET
+    no_of_bins_counted = EXCLUDED.no_of_bins_counted,
+    no_of_qty_counted = EXCLUDED.no_of_qty_counted,
+    time_taken_minutes = EXCLUDED.time_taken_minutes,
+    bins_per_hour = EXCLUDED.bins_per_hour,
+    accuracy_rate = EXCLUDED.accuracy_rate,
+    efficiency = EXCLUDED.efficiency,
+    computed_at = EXCLUDED.computed_at;
+
+  DROP TABLE perf_metrics;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rows merged above are refreshed from the counts they summarize
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT wh_name, date FROM duplicated_performance_days LOOP
+    PERFORM compute_worker_performance(r.wh_name, r.date);
+    PERFORM rank_worker_performance(r.wh_name, r.date);
+  END LOOP;
+END $$;
+
+DROP TABLE duplicated_performance_days;
+
+-- The edge function validates the bin and resolves book quantities; everything
+-- written for the count happens here so it commits or rolls back as a whole
+CREATE OR REPLACE FUNCTION record_count(
+  p_session_id uuid,
+  p_bin_no text,
+  p_qty_counted integer,
+  p_qty_as_per_books integer,
+  p_items jsonb,
+  p_matches_books boolean,
+  p_client_key uuid,
+  p_actor_id uuid,
+  p_ip_address inet DEFAULT NULL
+)
+RETURNS TABLE (counting_data_id uuid, replayed boolean) AS $$
+DECLARE
+  v_session record;
+  v_earlier_id uuid;
+  v_count counting_data%ROWTYPE;
+BEGIN
+  -- Serializes counts in the session, and with them the worker's performance refresh
+  SELECT s.*, w.user_id AS worker_user_id, tl.user_id AS team_leader_user_id
+  INTO v_session
+  FROM counting_sessions s
+  JOIN users w ON w.id = s.worker_id
+  JOIN users tl ON tl.id = s.team_leader_id
+  WHERE s.id = p_session_id
+  FOR UPDATE OF s;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF p_client_key IS NOT NULL THEN
+    SELECT cd.id INTO v_earlier_id FROM counting_data cd WHERE cd.client_key = p_client_key;
+    IF FOUND THEN
+      RETURN QUERY SELECT v_earlier_id, true;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- After the replay lookup, so a retry of a count saved before the session ended still succeeds
+  IF v_session.status <> 'active' THEN
+    RAISE EXCEPTION 'Counting session has ended' USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  -- A second count of the same bin is kept but flagged for the team leader
+  SELECT cd.id INTO v_earlier_id
+  FROM counting_data cd
+  WHERE cd.session_id = p_session_id AND cd.bin_no = p_bin_no
+  ORDER BY cd.created_at
+  LIMIT 1;
+
+  INSERT INTO counting_data (
+    session_id, wh_name, tl_name, username, bin_no, qty_counted, qty_as_per_books,
+    duplicate_of, is_blind, second_count_required, campaign_id, client_key
+  )
+  VALUES (
+    p_session_id, v_session.warehouse_name, v_session.team_leader_user_id, v_session.worker_user_id,
+    p_bin_no, p_qty_counted, p_qty_as_per_books, v_earlier_id, v_session.blind_count,
+    -- A blind count off from books waits for a second blind count before the TL sees it
+    v_session.require_second_count AND NOT p_matches_books,
+    v_session.campaign_id, p_client_key
+  )
+  RETURNING * INTO v_count;
+
+  INSERT INTO counting_data_items (counting_data_id, sku, description, uom, qty_as_per_books, qty_counted)
+  SELECT v_count.id, i.sku, i.description, COALESCE(i.uom, 'EA'), i.qty_as_per_books, i.qty_counted
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb))
+    AS i(sku text, description text, uom text, qty_as_per_books integer, qty_counted integer);
+
+  -- Refresh the worker's day; ranking is left to the nightly engine
+  PERFORM compute_worker_performance(v_session.warehouse_name, v_count.date, v_session.worker_user_id);
+
+  INSERT INTO audit_logs (user_id, action, warehouse_name, ip_address, details)
+  VALUES (
+    p_actor_id,
+    'COUNT_BIN',
+    v_session.warehouse_name,
+    p_ip_address,
+    jsonb_build_object(
+      'counting_data_id', v_count.id,
+      'session_id', p_session_id,
+      'worker', v_session.worker_user_id,
+      'bin_no', p_bin_no,
+      'qty_counted', p_qty_counted,
+      'skus', jsonb_array_length(COALESCE(p_items, '[]'::jsonb)),
+      'blind', v_count.is_blind,
+      'duplicate_of', v_earlier_id
+    )
+  );
+
+  RETURN QUERY SELECT v_count.id, false;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,209 @@
+/*
+  # Worker Edits and Voids of Confirmed Counts
+
+  1. Changes to `counting_data`
+    - `original_qty_counted` - the quantity first confirmed, set on the first edit
+    - `edited_at` - when the worker last edited the count
+
+  2. New Tables
+    - `counting_data_amendments` - every edit and void: the count and its SKU
+      items as they were before and after, who changed it and why. Voided
+      counts are removed from `counting_data`, so this is where they are kept
+
+  3. Functions
+    - `amend_count` - edits or voids a count for its own worker while the
+      session is active, within a grace window after the count and before any
+      second count, recount or approval; refreshes the worker's performance and
+      writes the COUNT_EDIT or COUNT_VOID audit entry in the same transaction.
+      A void hands the bin's campaign progress and duplicate flags back to the
+      remaining counts of the bin
+
+  4. Security
+    - Amendments follow the counting data read policy: readable within the
+      worker's hierarchy, except by the worker themselves for blind counts
+*/
+
+ALTER TABLE counting_data
+  ADD COLUMN IF NOT EXISTS original_qty_counted integer,
+  ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+
+-- No foreign key to the count: voided counts are deleted
+CREATE TABLE IF NOT EXISTS counting_data_amendments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  counting_data_id uuid NOT NULL,
+  session_id uuid NOT NULL REFERENCES counting_sessions(id),
+  bin_no text NOT NULL,
+  action text NOT NULL CHECK (action IN ('edit', 'void')),
+  amended_by uuid NOT NULL REFERENCES users(id),
+  before jsonb NOT NULL,
+  after jsonb,
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_counting_data_amendments_count ON counting_data_amendments(counting_data_id);
+CREATE INDEX idx_counting_data_amendments_session ON counting_data_amendments(session_id);
+
+-- A count with its SKU items, as stored in amendments
+CREATE OR REPLACE FUNCTION counting_data_snapshot(p_counting_data_id uuid)
+RETURNS jsonb AS $$
+  SELECT to_jsonb(cd) || jsonb_build_object('items', COALESCE((
+    SELECT jsonb_agg(to_jsonb(i) ORDER BY i.sku)
+    FROM counting_data_items i
+    WHERE i.counting_data_id = cd.id
+  ), '[]'::jsonb))
+  FROM counting_data cd
+  WHERE cd.id = p_counting_data_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION amend_count(
+  p_counting_data_id uuid,
+  p_actor_id uuid,
+  p_void boolean,
+  p_qty_counted integer DEFAULT NULL,
+  p_items jsonb DEFAULT '[]'::jsonb,
+  p_matches_books boolean DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_window_minutes integer DEFAULT 10,
+  p_ip_address inet DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_session_id uuid;
+  v_session record;
+  v_count counting_data%ROWTYPE;
+  v_before jsonb;
+  v_after jsonb;
+  v_next_id uuid;
+BEGIN
+  SELECT session_id INTO v_session_id FROM counting_data WHERE id = p_counting_data_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Counting record not found';
+  END IF;
+
+  -- Same lock as record_count, so an edit never interleaves with a new count
+  SELECT s.*, w.user_id AS worker_user_id
+  INTO v_session
+  FROM counting_sessions s
+  JOIN users w ON w.id = s.worker_id
+  WHERE s.id = v_session_id
+  FOR UPDATE OF s;
+
+  SELECT * INTO v_count FROM counting_data WHERE id = p_counting_data_id FOR UPDATE;
+
+  IF v_session.worker_id <> p_actor_id THEN
+    RAISE EXCEPTION 'Only the worker who counted a bin can change the count';
+  END IF;
+  IF v_session.status <> 'active' THEN
+    RAISE EXCEPTION 'Counting session has ended';
+  END IF;
+  IF v_count.created_at < now() - make_interval(mins => p_window_minutes) THEN
+    RAISE EXCEPTION 'Counts can only be changed within % minutes of confirming them', p_window_minutes;
+  END IF;
+  IF v_count.is_locked OR v_count.qty_second_count IS NOT NULL OR v_count.qty_recounted_tl IS NOT NULL THEN
+    RAISE EXCEPTION 'Bin % has already been checked; ask your team leader', v_count.bin_no;
+  END IF;
+
+  v_before := counting_data_snapshot(p_counting_data_id);
+
+  IF p_void THEN
+    -- The next count of the bin in the session becomes the one the others duplicate
+    SELECT id INTO v_next_id
+    FROM counting_data
+    WHERE session_id = v_count.session_id AND bin_no = v_count.bin_no AND id <> v_count.id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF EXISTS (SELECT 1 FROM counting_data WHERE duplicate_of = v_count.id AND is_locked) THEN
+      RAISE EXCEPTION 'A later count of bin % has already been approved', v_count.bin_no;
+    END IF;
+
+    UPDATE counting_data
+    SET duplicate_of = NULLIF(v_next_id, id)
+    WHERE duplicate_of = v_count.id;
+
+    -- Campaign progress falls back to the latest remaining count of the bin, or to uncounted
+    UPDATE campaign_bins cb
+    SET
+      counting_data_id = latest.id,
+      status = CASE
+        WHEN latest.id IS NULL THEN 'uncounted'
+        WHEN latest.difference = 0 OR latest.is_locked THEN 'counted'
+        ELSE 'recount'
+      END
+    FROM (SELECT 1) one
+    LEFT JOIN LATERAL (
+      SELECT cd.id, cd.difference, cd.is_locked
+      FROM counting_data cd
+      WHERE cd.campaign_id = v_count.campaign_id AND cd.bin_no = v_count.bin_no AND cd.id <> v_count.id
+      ORDER BY cd.created_at DESC
+      LIMIT 1
+    ) latest ON true
+    WHERE cb.counting_data_id = v_count.id;
+
+    DELETE FROM counting_data WHERE id = v_count.id;
+  ELSE
+    UPDATE counting_data
+    SET
+      original_qty_counted = COALESCE(original_qty_counted, qty_counted),
+      qty_counted = COALESCE(p_qty_counted, qty_counted),
+      edited_at = now(),
+      second_count_required = v_session.require_second_count AND NOT p_matches_books
+    WHERE id = v_count.id;
+
+    -- Item totals roll up into the count through sync_count_totals
+    INSERT INTO counting_data_items (counting_data_id, sku, description, uom, qty_as_per_books, qty_counted)
+    SELECT v_count.id, i.sku, i.description, COALESCE(i.uom, 'EA'), i.qty_as_per_books, i.qty_counted
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb))
+      AS i(sku text, description text, uom text, qty_as_per_books integer, qty_counted integer)
+    ON CONFLICT (counting_data_id, sku) DO UPDATE
+    SET qty_counted = EXCLUDED.qty_counted;
+
+    v_after := counting_data_snapshot(v_count.id);
+  END IF;
+
+  INSERT INTO counting_data_amendments (
+    counting_data_id, session_id, bin_no, action, amended_by, before, after, reason
+  )
+  VALUES (
+    v_count.id, v_count.session_id, v_count.bin_no, CASE WHEN p_void THEN 'void' ELSE 'edit' END,
+    p_actor_id, v_before, v_after, p_reason
+  );
+
+  PERFORM compute_worker_performance(v_session.warehouse_name, v_count.date, v_session.worker_user_id);
+
+  INSERT INTO audit_logs (user_id, action, warehouse_name, ip_address, details)
+  VALUES (
+    p_actor_id,
+    CASE WHEN p_void THEN 'COUNT_VOID' ELSE 'COUNT_EDIT' END,
+    v_session.warehouse_name,
+    p_ip_address,
+    jsonb_build_object(
+      'counting_data_id', v_count.id,
+      'session_id', v_count.session_id,
+      'bin_no', v_count.bin_no,
+      'qty_before', v_count.qty_counted,
+      'qty_after', v_after -> 'qty_counted',
+      'original_qty', COALESCE(v_count.original_qty_counted, v_count.qty_counted),
+      'reason', p_reason
+    )
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE counting_data_amendments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read amendments in their hierarchy" ON counting_data_amendments
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM counting_sessions s
+      WHERE s.id = counting_data_amendments.session_id
+        AND can_read_user(s.worker_id)
+        -- Snapshots carry the books, which a blind count's worker must not see
+        AND NOT (
+          s.worker_id = auth.uid()
+          AND COALESCE((counting_data_amendments.before ->> 'is_blind')::boolean, false)
+        )
+    )
+  );
@@ -0,0 +1,504 @@
+/*
+  # Session Timeouts and Breaks
+
+  1. Changes to `counting_sessions`
+    - `last_heartbeat_at` - last sign of life from the worker's counting screen
+    - `break_started_at` - set while the worker is on a break
+    - `end_reason` - who or what ended the session: the worker, their team
+      leader, a timeout, or the worker's account being deactivated. Sessions
+      ended before this migration keep null
+    - `ended_by` / `end_note` - the user who ended it and why
+
+  2. Changes to `warehouse_settings`
+    - `session_timeout_minutes` - how long a session may go without a
+      heartbeat before it is closed
+
+  3. New Tables
+    - `session_breaks` - every break in a session, taken by the worker or
+      started by the counting screen after a spell of inactivity
+
+  4. Functions
+    - `session_break_minutes` - break time in a session up to an instant
+    - `compute_worker_performance` - break time is left out of session time
+    - `set_session_break` - starts or ends the worker's break
+    - `close_session` - ends a session, closes any open break and refreshes
+      the worker's performance in one transaction
+    - `close_stale_sessions` - closes active sessions whose heartbeat has
+      stopped, ending them at the last heartbeat; scheduled every five minutes
+    - `record_count` - takes the time a count was confirmed on the device, so
+      counts queued offline still land in an ended session: any session takes
+      counts confirmed before it ended, and a timed-out one also takes later
+      ones (the worker was counting, not gone) and is extended to cover them.
+      Each count belongs to the open campaign covering its bin rather than
+      the session's
+    - `live_board_sessions` - also returns the break and last heartbeat
+
+  5. Data
+    - Active sessions start from their latest count, so orphans left by closed
+      tabs are picked up by the first run
+*/
+
+ALTER TABLE counting_sessions
+  ADD COLUMN last_heartbeat_at timestamptz DEFAULT now(),
+  ADD COLUMN break_started_at timestamptz,
+  ADD COLUMN end_reason text CHECK (end_reason IN ('worker', 'team_leader', 'timeout', 'user_deactivated')),
+  ADD COLUMN ended_by uuid REFERENCES users(id),
+  ADD COLUMN end_note text;
+
+UPDATE counting_sessions s
+SET last_heartbeat_at = COALESCE(
+  s.end_time,
+  GREATEST(s.start_time, (SELECT MAX(cd.created_at) FROM counting_data cd WHERE cd.session_id = s.id))
+);
+
+CREATE INDEX idx_counting_sessions_active_heartbeat ON counting_sessions(last_heartbeat_at)
+  WHERE status = 'active';
+
+ALTER TABLE warehouse_settings
+  ADD COLUMN session_timeout_minutes integer NOT NULL DEFAULT 30
+    CHECK (session_timeout_minutes BETWEEN 5 AND 720);
+
+CREATE TABLE session_breaks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES counting_sessions(id),
+  reason text NOT NULL DEFAULT 'break' CHECK (reason IN ('break', 'idle')),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+CREATE INDEX idx_session_breaks_session ON session_breaks(session_id);
+
+-- At most one break open per session
+CREATE UNIQUE INDEX idx_session_breaks_one_open ON session_breaks(session_id)
+  WHERE ended_at IS NULL;
+
+ALTER TABLE session_breaks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read breaks in their hierarchy" ON session_breaks
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM counting_sessions cs
+      WHERE cs.id = session_breaks.session_id AND can_read_user(cs.worker_id)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION session_break_minutes(p_session_id uuid, p_until timestamptz)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(
+    EXTRACT(EPOCH FROM (LEAST(COALESCE(b.ended_at, p_until), p_until) - b.started_at)) / 60
+  ), 0)
+  FROM session_breaks b
+  WHERE b.session_id = p_session_id AND b.started_at < p_until;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION compute_worker_performance(
+  p_wh_name text,
+  p_date date,
+  p_username text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  CREATE TEMP TABLE perf_metrics ON COMMIT DROP AS
+  WITH settings AS (
+    SELECT
+      COALESCE(ws.target_bins_per_hour, 60) AS target_bins_per_hour,
+      COALESCE(ws.speed_weight, 0.5) AS speed_weight,
+      COALESCE(ws.accuracy_weight, 0.5) AS accuracy_weight
+    FROM (SELECT 1) one
+    LEFT JOIN warehouse_settings ws ON ws.warehouse_name = p_wh_name
+  ),
+  session_time AS (
+    -- Breaks are not working time
+    SELECT
+      w.user_id AS username,
+      SUM(GREATEST(
+        EXTRACT(EPOCH FROM (COALESCE(s.end_time, now()) - s.start_time)) / 60
+          - session_break_minutes(s.id, COALESCE(s.end_time, now())),
+        0
+      )) AS minutes
+    FROM counting_sessions s
+    JOIN users w ON w.id = s.worker_id
+    WHERE s.warehouse_name = p_wh_name
+      AND s.business_date = p_date
+      AND (p_username IS NULL OR w.user_id = p_username)
+    GROUP BY w.user_id
+  ),
+  counts AS (
+    -- A count is accurate when it matches the final quantity: the TL recount
+    -- if there is one, otherwise the books
+    SELECT
+      cd.username,
+      COUNT(*) AS bins,
+      SUM(cd.qty_counted) AS qty,
+      COUNT(*) FILTER (
+        WHERE cd.qty_counted = COALESCE(cd.qty_recounted_tl, cd.qty_as_per_books)
+      ) AS accurate_bins
+    FROM counting_data cd
+    WHERE cd.wh_name = p_wh_name
+      AND cd.date = p_date
+      AND (p_username IS NULL OR cd.username = p_username)
+    GROUP BY cd.username
+  )
+  SELECT
+    COALESCE(c.username, st.username) AS username,
+    COALESCE(c.bins, 0) AS bins,
+    COALESCE(c.qty, 0) AS qty,
+    ROUND(COALESCE(st.minutes, 0))::integer AS minutes,
+    CASE WHEN COALESCE(st.minutes, 0) > 0
+      THEN LEAST(ROUND(COALESCE(c.bins, 0) / (st.minutes / 60), 2), 999999.99)
+      ELSE 0
+    END AS bins_per_hour,
+    CASE WHEN COALESCE(c.bins, 0) > 0
+      THEN ROUND(c.accurate_bins::numeric / c.bins, 4)
+      ELSE 0
+    END AS accuracy_rate,
+    s.target_bins_per_hour,
+    s.speed_weight,
+    s.accuracy_weight
+  FROM counts c
+  FULL OUTER JOIN session_time st ON st.username = c.username
+  CROSS JOIN settings s;
+
+  -- One row per worker, warehouse and day, so concurrent refreshes converge instead of duplicating
+  INSERT INTO worker_performance (
+    wh_name, date, username, no_of_bins_counted, no_of_qty_counted,
+    time_taken_minutes, bins_per_hour, accuracy_rate, efficiency, computed_at
+  )
+  SELECT
+    p_wh_name, p_date, m.username, m.bins, m.qty, m.minutes, m.bins_per_hour, m.accuracy_rate,
+    ROUND(100 * (
+      m.speed_weight * LEAST(m.bins_per_hour / m.target_bins_per_hour, 1) +
+      m.accuracy_weight * m.accuracy_rate
+    ), 2),
+    now()
+  FROM perf_metrics m
+  ON CONFLICT (wh_name, date, username) DO UPDATE
+  SET
+    no_of_bins_counted = EXCLUDED.no_of_bins_counted,
+    no_of_qty_counted = EXCLUDED.no_of_qty_counted,
+    time_taken_minutes = EXCLUDED.time_taken_minutes,
+    bins_per_hour = EXCLUDED.bins_per_hour,
+    accuracy_rate = EXCLUDED.accuracy_rate,
+    efficiency = EXCLUDED.efficiency,
+    computed_at = EXCLUDED.computed_at;
+
+  DROP TABLE perf_metrics;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Starting a break that is already running, or ending one that is not, changes nothing
+CREATE OR REPLACE FUNCTION set_session_break(
+  p_session_id uuid,
+  p_actor_id uuid,
+  p_on_break boolean,
+  p_reason text DEFAULT 'break'
+)
+RETURNS counting_sessions AS $$
+DECLARE
+  v_session counting_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session FROM counting_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+  IF v_session.worker_id <> p_actor_id THEN
+    RAISE EXCEPTION 'Only the session''s worker can take a break';
+  END IF;
+  IF v_session.status <> 'active' THEN
+    RAISE EXCEPTION 'Counting session has ended';
+  END IF;
+
+  IF p_on_break AND v_session.break_started_at IS NULL THEN
+    INSERT INTO session_breaks (session_id, reason) VALUES (p_session_id, p_reason);
+
+    UPDATE counting_sessions
+    SET break_started_at = now(), last_heartbeat_at = now()
+    WHERE id = p_session_id
+    RETURNING * INTO v_session;
+  ELSIF NOT p_on_break AND v_session.break_started_at IS NOT NULL THEN
+    UPDATE session_breaks SET ended_at = now() WHERE session_id = p_session_id AND ended_at IS NULL;
+
+    UPDATE counting_sessions
+    SET break_started_at = NULL, last_heartbeat_at = now()
+    WHERE id = p_session_id
+    RETURNING * INTO v_session;
+  END IF;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION close_session(
+  p_session_id uuid,
+  p_end_reason text,
+  p_ended_by uuid DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_end_time timestamptz DEFAULT now()
+)
+RETURNS counting_sessions AS $$
+DECLARE
+  v_session counting_sessions%ROWTYPE;
+  v_worker_user_id text;
+BEGIN
+  SELECT * INTO v_session FROM counting_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+  IF v_session.status <> 'active' THEN
+    RAISE EXCEPTION 'Session is already completed';
+  END IF;
+
+  UPDATE session_breaks
+  SET ended_at = GREATEST(started_at, p_end_time)
+  WHERE session_id = p_session_id AND ended_at IS NULL;
+
+  UPDATE counting_sessions
+  SET
+    status = 'completed',
+    end_time = GREATEST(start_time, p_end_time),
+    end_reason = p_end_reason,
+    ended_by = p_ended_by,
+    end_note = p_note,
+    break_started_at = NULL
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  -- Finalize the worker's time and efficiency for the business day the session started in
+  SELECT user_id INTO v_worker_user_id FROM users WHERE id = v_session.worker_id;
+  PERFORM compute_worker_performance(v_session.warehouse_name, v_session.business_date, v_worker_user_id);
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION close_stale_sessions()
+RETURNS integer AS $$
+DECLARE
+  v_session record;
+  v_count integer := 0;
+BEGIN
+  -- Locked while they close, so a late heartbeat waits and then finds the session ended
+  FOR v_session IN
+    SELECT s.id, s.warehouse_name, s.last_heartbeat_at, w.user_id AS worker_user_id,
+      COALESCE(ws.session_timeout_minutes, 30) AS timeout_minutes
+    FROM counting_sessions s
+    JOIN users w ON w.id = s.worker_id
+    LEFT JOIN warehouse_settings ws ON ws.warehouse_name = s.warehouse_name
+    WHERE s.status = 'active'
+      AND s.last_heartbeat_at < now() - make_interval(mins => COALESCE(ws.session_timeout_minutes, 30))
+    FOR UPDATE OF s SKIP LOCKED
+  LOOP
+    -- Time after the last heartbeat was never worked
+    PERFORM close_session(
+      v_session.id,
+      'timeout',
+      NULL,
+      format('No heartbeat for %s minutes', v_session.timeout_minutes),
+      v_session.last_heartbeat_at
+    );
+
+    INSERT INTO audit_logs (user_id, action, warehouse_name, details)
+    VALUES (
+      NULL,
+      'SESSION_TIMEOUT',
+      v_session.warehouse_name,
+      jsonb_build_object(
+        'session_id', v_session.id,
+        'worker', v_session.worker_user_id,
+        'last_heartbeat_at', v_session.last_heartbeat_at,
+        'timeout_minutes', v_session.timeout_minutes
+      )
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The confirm time is the device's; it only decides whether an ended session still takes the count
+DROP FUNCTION IF EXISTS record_count(uuid, text, integer, integer, jsonb, boolean, uuid, uuid, inet);
+
+CREATE FUNCTION record_count(
+  p_session_id uuid,
+  p_bin_no text,
+  p_qty_counted integer,
+  p_qty_as_per_books integer,
+  p_items jsonb,
+  p_matches_books boolean,
+  p_client_key uuid,
+  p_actor_id uuid,
+  p_ip_address inet DEFAULT NULL,
+  p_counted_at timestamptz DEFAULT NULL
+)
+RETURNS TABLE (counting_data_id uuid, replayed boolean) AS $$
+DECLARE
+  v_session record;
+  v_earlier_id uuid;
+  v_count counting_data%ROWTYPE;
+  v_counted_at timestamptz := LEAST(COALESCE(p_counted_at, now()), now());
+  v_late boolean := false;
+  v_campaign_id uuid;
+BEGIN
+  -- Serializes counts in the session, and with them the worker's performance refresh
+  SELECT s.*, w.user_id AS worker_user_id, tl.user_id AS team_leader_user_id
+  INTO v_session
+  FROM counting_sessions s
+  JOIN users w ON w.id = s.worker_id
+  JOIN users tl ON tl.id = s.team_leader_id
+  WHERE s.id = p_session_id
+  FOR UPDATE OF s;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF p_client_key IS NOT NULL THEN
+    SELECT cd.id INTO v_earlier_id
+    FROM counting_data cd
+    WHERE cd.client_key = p_client_key AND cd.session_id = p_session_id;
+    IF FOUND THEN
+      RETURN QUERY SELECT v_earlier_id, true;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- After the replay lookup, so a retry of a count saved before the session ended still succeeds
+  IF v_session.status <> 'active' THEN
+    v_late := p_counted_at IS NOT NULL
+      AND v_counted_at >= v_session.start_time
+      AND (v_counted_at <= v_session.end_time OR v_session.end_reason = 'timeout')
+      -- Never reaches into the worker's next session
+      AND NOT EXISTS (
+        SELECT 1 FROM counting_sessions n
+        WHERE n.worker_id = v_session.worker_id
+          AND n.start_time > v_session.start_time
+          AND n.start_time <= v_counted_at
+      );
+
+    IF NOT v_late THEN
+      RAISE EXCEPTION 'Counting session has ended' USING ERRCODE = 'object_not_in_prerequisite_state';
+    END IF;
+
+    IF v_counted_at > v_session.end_time THEN
+      UPDATE counting_sessions
+      SET end_time = v_counted_at, last_heartbeat_at = v_counted_at
+      WHERE id = p_session_id;
+    END IF;
+  END IF;
+
+  -- The open campaign covering the bin, whichever one the session started under; the
+  -- worker's own assignment wins when campaigns overlap
+  SELECT cb.campaign_id INTO v_campaign_id
+  FROM campaign_bins cb
+  JOIN count_campaigns c ON c.id = cb.campaign_id
+  WHERE c.warehouse_name = v_session.warehouse_name
+    AND c.status = 'open'
+    AND cb.bin_no = p_bin_no
+  ORDER BY cb.assigned_worker_id IS NOT DISTINCT FROM v_session.worker_id DESC, c.created_at
+  LIMIT 1;
+
+  -- A second count of the same bin is kept but flagged for the team leader
+  SELECT cd.id INTO v_earlier_id
+  FROM counting_data cd
+  WHERE cd.session_id = p_session_id AND cd.bin_no = p_bin_no
+  ORDER BY cd.created_at
+  LIMIT 1;
+
+  INSERT INTO counting_data (
+    session_id, wh_name, tl_name, username, bin_no, qty_counted, qty_as_per_books,
+    duplicate_of, is_blind, second_count_required, campaign_id, client_key
+  )
+  VALUES (
+    p_session_id, v_session.warehouse_name, v_session.team_leader_user_id, v_session.worker_user_id,
+    p_bin_no, p_qty_counted, p_qty_as_per_books, v_earlier_id, v_session.blind_count,
+    -- A blind count off from books waits for a second blind count before the TL sees it
+    v_session.require_second_count AND NOT p_matches_books,
+    v_campaign_id, p_client_key
+  )
+  RETURNING * INTO v_count;
+
+  INSERT INTO counting_data_items (counting_data_id, sku, description, uom, qty_as_per_books, qty_counted)
+  SELECT v_count.id, i.sku, i.description, COALESCE(i.uom, 'EA'), i.qty_as_per_books, i.qty_counted
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb))
+    AS i(sku text, description text, uom text, qty_as_per_books integer, qty_counted integer);
+
+  -- Refresh the worker's day; ranking is left to the nightly engine
+  PERFORM compute_worker_performance(v_session.warehouse_name, v_count.date, v_session.worker_user_id);
+
+  INSERT INTO audit_logs (user_id, action, warehouse_name, ip_address, details)
+  VALUES (
+    p_actor_id,
+    'COUNT_BIN',
+    v_session.warehouse_name,
+    p_ip_address,
+    jsonb_build_object(
+      'counting_data_id', v_count.id,
+      'session_id', p_session_id,
+      'worker', v_session.worker_user_id,
+      'bin_no', p_bin_no,
+      'qty_counted', p_qty_counted,
+      'skus', jsonb_array_length(COALESCE(p_items, '[]'::jsonb)),
+      'blind', v_count.is_blind,
+      'duplicate_of', v_earlier_id,
+      'after_session_end', v_late,
+      'counted_at', p_counted_at
+    )
+  );
+
+  RETURN QUERY SELECT v_count.id, false;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT cron.schedule(
+  'close-stale-sessions',
+  '*/5 * * * *',
+  $$SELECT close_stale_sessions()$$
+);
+
+-- The return type changes, so the function is recreated
+DROP FUNCTION IF EXISTS live_board_sessions(text);
+
+CREATE FUNCTION live_board_sessions(p_warehouse_name text)
+RETURNS TABLE (
+  session_id uuid,
+  worker_id uuid,
+  worker_user_id text,
+  team_leader_id uuid,
+  vendor_id uuid,
+  start_time timestamptz,
+  bins_counted bigint,
+  last_count_at timestamptz,
+  efficiency numeric,
+  break_started_at timestamptz,
+  last_heartbeat_at timestamptz
+) AS $$
+  SELECT
+    cs.id,
+    cs.worker_id,
+    u.user_id,
+    cs.team_leader_id,
+    u.vendor_id,
+    cs.start_time,
+    COUNT(cd.id),
+    MAX(cd.created_at),
+    (
+      SELECT wp.efficiency FROM worker_performance wp
+      WHERE wp.username = u.user_id AND wp.wh_name = p_warehouse_name AND wp.date = cs.business_date
+      ORDER BY wp.computed_at DESC NULLS LAST
+      LIMIT 1
+    ),
+    cs.break_started_at,
+    cs.last_heartbeat_at
+  FROM counting_sessions cs
+  JOIN users u ON u.id = cs.worker_id
+  LEFT JOIN counting_data cd ON cd.session_id = cs.id
+  WHERE cs.warehouse_name = p_warehouse_name AND cs.status = 'active'
+  GROUP BY cs.id, u.user_id, u.vendor_id
+  ORDER BY u.user_id;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,302 @@
+/*
+  # Anomaly Detection
+
+  1. New Tables
+    - `anomaly_thresholds` - per-vendor limits for each rule; the row without
+      a vendor holds the defaults for vendors who have not tuned their own
+    - `anomaly_flags` - one flag per rule, person, warehouse and day, with the
+      measured value, the limit it crossed, evidence (summary figures and the
+      counts behind it) and the vendor's review
+
+  2. Rules
+    - `exact_match` - a worker's non-blind counts match books too often
+    - `quick_counts` - too many counts saved within seconds of the previous
+      one in the same session
+    - `impossible_rate` - a day's bins per hour above what can be counted
+    - `round_numbers` - too many round counts where the books were not round
+    - `variance_cluster` - one worker or team leader holds most of the day's
+      large variances in a warehouse
+
+  3. Functions
+    - `detect_anomalies` - evaluates every rule for one warehouse's day,
+      refreshing open flags and clearing open ones that no longer apply;
+      reviewed flags are left as reviewed
+    - `run_performance_engine` - also runs detection when it closes a day
+
+  4. Security
+    - Vendors read their own flags and thresholds; admins read everything
+*/
+
+CREATE TABLE anomaly_thresholds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id uuid UNIQUE REFERENCES users(id),
+  exact_match_rate numeric(4,3) NOT NULL DEFAULT 0.98 CHECK (exact_match_rate > 0 AND exact_match_rate <= 1),
+  exact_match_min_bins integer NOT NULL DEFAULT 30 CHECK (exact_match_min_bins > 0),
+  min_seconds_between_counts integer NOT NULL DEFAULT 5 CHECK (min_seconds_between_counts > 0),
+  quick_count_limit integer NOT NULL DEFAULT 5 CHECK (quick_count_limit > 0),
+  max_bins_per_hour numeric(8,2) NOT NULL DEFAULT 240 CHECK (max_bins_per_hour > 0),
+  rate_min_bins integer NOT NULL DEFAULT 20 CHECK (rate_min_bins > 0),
+  round_number_share numeric(4,3) NOT NULL DEFAULT 0.5 CHECK (round_number_share > 0 AND round_number_share <= 1),
+  round_number_min_bins integer NOT NULL DEFAULT 20 CHECK (round_number_min_bins > 0),
+  large_variance_qty integer NOT NULL DEFAULT 20 CHECK (large_variance_qty > 0),
+  variance_cluster_share numeric(4,3) NOT NULL DEFAULT 0.5 CHECK (variance_cluster_share > 0 AND variance_cluster_share <= 1),
+  variance_cluster_min integer NOT NULL DEFAULT 5 CHECK (variance_cluster_min > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Only one defaults row
+CREATE UNIQUE INDEX idx_anomaly_thresholds_defaults ON anomaly_thresholds((vendor_id IS NULL))
+  WHERE vendor_id IS NULL;
+
+INSERT INTO anomaly_thresholds (vendor_id) VALUES (NULL);
+
+CREATE TABLE anomaly_flags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule text NOT NULL CHECK (rule IN ('exact_match', 'quick_counts', 'impossible_rate', 'round_numbers', 'variance_cluster')),
+  -- `users.user_id` of the worker or team leader flagged
+  subject text NOT NULL,
+  subject_role text NOT NULL CHECK (subject_role IN ('worker', 'team_leader')),
+  vendor_id uuid REFERENCES users(id),
+  wh_name text NOT NULL,
+  date date NOT NULL,
+  metric numeric NOT NULL,
+  threshold numeric NOT NULL,
+  evidence jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'confirmed', 'dismissed')),
+  reviewed_by uuid REFERENCES users(id),
+  reviewed_at timestamptz,
+  review_note text,
+  detected_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (rule, subject, wh_name, date)
+);
+
+CREATE INDEX idx_anomaly_flags_vendor_status ON anomaly_flags(vendor_id, status, date);
+CREATE INDEX idx_anomaly_flags_wh_date ON anomaly_flags(wh_name, date);
+
+-- Each flag keeps at most p_evidence_limit counts as evidence
+CREATE OR REPLACE FUNCTION detect_anomalies(p_wh_name text, p_date date, p_evidence_limit integer DEFAULT 50)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  CREATE TEMP TABLE day_counts ON COMMIT DROP AS
+  SELECT
+    cd.id,
+    cd.username,
+    cd.tl_name,
+    cd.qty_counted,
+    cd.qty_as_per_books,
+    cd.is_blind,
+    cd.created_at,
+    -- The worker's own variance, before any recount
+    cd.qty_counted - cd.qty_as_per_books AS count_variance,
+    EXTRACT(EPOCH FROM (
+      cd.created_at - lag(cd.created_at) OVER (PARTITION BY cd.session_id ORDER BY cd.created_at)
+    )) AS seconds_since_previous
+  FROM counting_data cd
+  WHERE cd.wh_name = p_wh_name AND cd.date = p_date;
+
+  -- Each person is held to their vendor's limits, or the defaults
+  CREATE TEMP TABLE day_thresholds ON COMMIT DROP AS
+  SELECT u.user_id AS subject, u.vendor_id AS subject_vendor_id, t.*
+  FROM users u
+  JOIN LATERAL (
+    SELECT * FROM anomaly_thresholds th
+    WHERE th.vendor_id = u.vendor_id OR th.vendor_id IS NULL
+    ORDER BY th.vendor_id NULLS LAST
+    LIMIT 1
+  ) t ON true
+  WHERE u.user_id IN (SELECT username FROM day_counts UNION SELECT tl_name FROM day_counts);
+
+  CREATE TEMP TABLE anomaly_candidates (
+    rule text,
+    subject text,
+    subject_role text,
+    vendor_id uuid,
+    metric numeric,
+    threshold numeric,
+    evidence jsonb
+  ) ON COMMIT DROP;
+
+  -- Blind counts never showed the books, so only non-blind counts can copy them
+  INSERT INTO anomaly_candidates
+  SELECT
+    'exact_match', c.username, 'worker', t.subject_vendor_id,
+    ROUND(AVG((c.qty_counted = c.qty_as_per_books)::integer), 4),
+    t.exact_match_rate,
+    jsonb_build_object(
+      'bins', COUNT(*),
+      'matching_books', COUNT(*) FILTER (WHERE c.qty_counted = c.qty_as_per_books),
+      'counting_data_ids', to_jsonb((array_agg(c.id ORDER BY c.created_at)
+        FILTER (WHERE c.qty_counted = c.qty_as_per_books))[1:p_evidence_limit])
+    )
+  FROM day_counts c
+  JOIN day_thresholds t ON t.subject = c.username
+  WHERE NOT c.is_blind
+  GROUP BY c.username, t.subject_vendor_id, t.exact_match_rate, t.exact_match_min_bins
+  HAVING COUNT(*) >= t.exact_match_min_bins
+    AND AVG((c.qty_counted = c.qty_as_per_books)::integer) >= t.exact_match_rate;
+
+  INSERT INTO anomaly_candidates
+  SELECT
+    'quick_counts', c.username, 'worker', t.subject_vendor_id,
+    COUNT(*) FILTER (WHERE c.seconds_since_previous < t.min_seconds_between_counts),
+    t.quick_count_limit,
+    jsonb_build_object(
+      'bins', COUNT(*),
+      'min_seconds_between_counts', t.min_seconds_between_counts,
+      'fastest_seconds', ROUND(MIN(c.seconds_since_previous)::numeric, 1),
+      'counting_data_ids', to_jsonb((array_agg(c.id ORDER BY c.created_at)
+        FILTER (WHERE c.seconds_since_previous < t.min_seconds_between_counts))[1:p_evidence_limit])
+    )
+  FROM day_counts c
+  JOIN day_thresholds t ON t.subject = c.username
+  GROUP BY c.username, t.subject_vendor_id, t.min_seconds_between_counts, t.quick_count_limit
+  HAVING COUNT(*) FILTER (WHERE c.seconds_since_previous < t.min_seconds_between_counts) >= t.quick_count_limit;
+
+  -- Speed over the whole day, net of breaks, as the performance engine measured it
+  INSERT INTO anomaly_candidates
+  SELECT
+    'impossible_rate', wp.username, 'worker', t.subject_vendor_id,
+    wp.bins_per_hour,
+    t.max_bins_per_hour,
+    jsonb_build_object(
+      'bins', wp.no_of_bins_counted,
+      'minutes', wp.time_taken_minutes,
+      'counting_data_ids', to_jsonb((
+        SELECT (array_agg(c.id ORDER BY c.created_at))[1:p_evidence_limit]
+        FROM day_counts c
+        WHERE c.username = wp.username
+      ))
+    )
+  FROM worker_performance wp
+  JOIN day_thresholds t ON t.subject = wp.username
+  WHERE wp.wh_name = p_wh_name AND wp.date = p_date
+    AND wp.no_of_bins_counted >= t.rate_min_bins
+    AND wp.bins_per_hour >= t.max_bins_per_hour;
+
+  -- A round count is only telling when the books were not round themselves
+  INSERT INTO anomaly_candidates
+  SELECT
+    'round_numbers', c.username, 'worker', t.subject_vendor_id,
+    ROUND(AVG((c.qty_counted >= 10 AND c.qty_counted % 10 = 0 AND c.qty_as_per_books % 10 <> 0)::integer), 4),
+    t.round_number_share,
+    jsonb_build_object(
+      'bins', COUNT(*),
+      'round_counts', COUNT(*) FILTER (WHERE c.qty_counted >= 10 AND c.qty_counted % 10 = 0 AND c.qty_as_per_books % 10 <> 0),
+      'counting_data_ids', to_jsonb((array_agg(c.id ORDER BY c.created_at)
+        FILTER (WHERE c.qty_counted >= 10 AND c.qty_counted % 10 = 0 AND c.qty_as_per_books % 10 <> 0))[1:p_evidence_limit])
+    )
+  FROM day_counts c
+  JOIN day_thresholds t ON t.subject = c.username
+  GROUP BY c.username, t.subject_vendor_id, t.round_number_share, t.round_number_min_bins
+  HAVING COUNT(*) >= t.round_number_min_bins
+    AND AVG((c.qty_counted >= 10 AND c.qty_counted % 10 = 0 AND c.qty_as_per_books % 10 <> 0)::integer) >= t.round_number_share;
+
+  -- Large is judged by each person's own limit; a share needs at least two people to compare
+  INSERT INTO anomaly_candidates
+  SELECT
+    'variance_cluster', p.subject, p.subject_role, t.subject_vendor_id,
+    ROUND(COUNT(*) FILTER (WHERE p.is_subject)::numeric / COUNT(*), 4),
+    t.variance_cluster_share,
+    jsonb_build_object(
+      'large_variance_qty', t.large_variance_qty,
+      'large_variances', COUNT(*),
+      'subject_large_variances', COUNT(*) FILTER (WHERE p.is_subject),
+      'counting_data_ids', to_jsonb((array_agg(p.id ORDER BY p.created_at) FILTER (WHERE p.is_subject))[1:p_evidence_limit])
+    )
+  FROM (
+    SELECT s.subject, s.subject_role, c.id, c.created_at,
+      CASE WHEN s.subject_role = 'worker' THEN c.username ELSE c.tl_name END = s.subject AS is_subject
+    FROM (
+      SELECT DISTINCT username AS subject, 'worker' AS subject_role FROM day_counts
+      UNION
+      SELECT DISTINCT tl_name, 'team_leader' FROM day_counts
+    ) s
+    JOIN day_thresholds st ON st.subject = s.subject
+    JOIN day_counts c ON abs(c.count_variance) >= st.large_variance_qty
+    WHERE (
+      SELECT COUNT(DISTINCT CASE WHEN s.subject_role = 'worker' THEN dc.username ELSE dc.tl_name END)
+      FROM day_counts dc
+    ) >= 2
+  ) p
+  JOIN day_thresholds t ON t.subject = p.subject
+  GROUP BY p.subject, p.subject_role, t.subject_vendor_id, t.large_variance_qty,
+    t.variance_cluster_share, t.variance_cluster_min
+  HAVING COUNT(*) FILTER (WHERE p.is_subject) >= t.variance_cluster_min
+    AND COUNT(*) FILTER (WHERE p.is_subject)::numeric / COUNT(*) >= t.variance_cluster_share;
+
+  -- Open flags the day no longer supports (e.g. after an edit) drop out of the queue
+  DELETE FROM anomaly_flags f
+  WHERE f.wh_name = p_wh_name AND f.date = p_date AND f.status = 'open'
+    AND NOT EXISTS (
+      SELECT 1 FROM anomaly_candidates ac WHERE ac.rule = f.rule AND ac.subject = f.subject
+    );
+
+  INSERT INTO anomaly_flags (rule, subject, subject_role, vendor_id, wh_name, date, metric, threshold, evidence)
+  SELECT ac.rule, ac.subject, ac.subject_role, ac.vendor_id, p_wh_name, p_date, ac.metric, ac.threshold, ac.evidence
+  FROM anomaly_candidates ac
+  ON CONFLICT (rule, subject, wh_name, date) DO UPDATE
+  SET
+    metric = EXCLUDED.metric,
+    threshold = EXCLUDED.threshold,
+    evidence = EXCLUDED.evidence,
+    vendor_id = EXCLUDED.vendor_id,
+    detected_at = now()
+  WHERE anomaly_flags.status = 'open';
+
+  SELECT COUNT(*) INTO v_count FROM anomaly_candidates;
+
+  DROP TABLE anomaly_candidates;
+  DROP TABLE day_thresholds;
+  DROP TABLE day_counts;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Without a date, each warehouse is closed out once, in the hour after its day ends
+CREATE OR REPLACE FUNCTION run_performance_engine(p_date date DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_wh_name text;
+  v_date date;
+  v_count integer := 0;
+BEGIN
+  FOR v_wh_name, v_date IN
+    SELECT w.code, COALESCE(p_date, business_date(w.code, now()) - 1)
+    FROM warehouses w
+    WHERE p_date IS NOT NULL
+      OR business_date(w.code, now() - interval '1 hour') <> business_date(w.code, now())
+  LOOP
+    IF EXISTS (SELECT 1 FROM counting_sessions WHERE warehouse_name = v_wh_name AND business_date = v_date)
+      OR EXISTS (SELECT 1 FROM counting_data WHERE wh_name = v_wh_name AND date = v_date)
+    THEN
+      PERFORM compute_worker_performance(v_wh_name, v_date);
+      PERFORM rank_worker_performance(v_wh_name, v_date);
+      PERFORM detect_anomalies(v_wh_name, v_date);
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE anomaly_thresholds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE anomaly_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors read their thresholds and the defaults" ON anomaly_thresholds
+  FOR SELECT TO authenticated
+  USING (
+    vendor_id IS NULL
+    OR vendor_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM users u WHERE u.id = auth.uid() AND u.role = 'admin')
+  );
+
+CREATE POLICY "Vendors read their flags" ON anomaly_flags
+  FOR SELECT TO authenticated
+  USING (
+    vendor_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM users u WHERE u.id = auth.uid() AND u.role = 'admin')
+  );
@@ -0,0 +1,176 @@
+/*
+  # Daily Count Summary Reports
+
+  1. New Tables
+    - `report_subscriptions` - one per vendor: when each of their warehouses'
+      summary goes out (warehouse local time), how it is delivered (`smtp`,
+      `webhook` or `file`) and to whom
+    - `report_deliveries` - every delivery attempt and its outcome; scheduled
+      attempts have no `triggered_by`
+
+  2. Functions
+    - `daily_count_summary` - bins planned against bins counted and the open
+      recount queue for one warehouse's business day; variance and worker
+      figures come from `reconciliation_report` and `worker_performance`
+    - `due_daily_reports` - the warehouse days whose summary is due: the
+      previous business day, once the subscription's send time has passed
+      locally, until it is sent or has failed three times
+
+  3. Schedule
+    - `daily-count-reports` calls the `daily-report` function every hour, ten
+      minutes after the performance engine has closed and ranked the day. The
+      project URL and service role key are read from Vault as `project_url`
+      and `service_role_key`
+
+  4. Security
+    - Vendors read their own subscription and deliveries; admins read all.
+      Changes go through the `daily-report` function, which only takes
+      https webhook URLs on public hosts and checks the resolved address
+      again on every send
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE TABLE report_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id uuid NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  send_at time NOT NULL DEFAULT '07:00',
+  transport text NOT NULL DEFAULT 'smtp' CHECK (transport IN ('smtp', 'webhook', 'file')),
+  recipients text[] NOT NULL DEFAULT '{}',
+  webhook_url text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (transport <> 'smtp' OR cardinality(recipients) > 0),
+  CHECK (transport <> 'webhook' OR webhook_url IS NOT NULL)
+);
+
+CREATE TABLE report_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES report_subscriptions(id) ON DELETE CASCADE,
+  wh_name text NOT NULL REFERENCES warehouses(code) ON UPDATE CASCADE,
+  report_date date NOT NULL,
+  transport text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  error text,
+  -- Set for test sends from the settings page
+  triggered_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_report_deliveries_subscription_day ON report_deliveries(subscription_id, wh_name, report_date);
+
+-- Campaigns open at any point in the day set the plan; without one, every bin in the warehouse is
+CREATE OR REPLACE FUNCTION daily_count_summary(p_wh_name text, p_date date)
+RETURNS jsonb AS $$
+DECLARE
+  v_campaign_ids uuid[];
+  v_campaigns text[];
+  v_planned integer;
+  v_plan_counted integer;
+  v_bins_counted integer;
+BEGIN
+  SELECT array_agg(id), array_agg(name ORDER BY created_at)
+  INTO v_campaign_ids, v_campaigns
+  FROM count_campaigns
+  WHERE warehouse_name = p_wh_name
+    AND business_date(p_wh_name, created_at) <= p_date
+    AND (closed_at IS NULL OR business_date(p_wh_name, closed_at) >= p_date);
+
+  SELECT COUNT(DISTINCT bin_no) INTO v_bins_counted
+  FROM counting_data
+  WHERE wh_name = p_wh_name AND date = p_date;
+
+  IF v_campaign_ids IS NOT NULL THEN
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE status <> 'uncounted')
+    INTO v_planned, v_plan_counted
+    FROM campaign_bins
+    WHERE campaign_id = ANY(v_campaign_ids);
+  ELSE
+    SELECT COUNT(*) INTO v_planned FROM bin_master WHERE warehouse_name = p_wh_name;
+    v_plan_counted := v_bins_counted;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'campaigns', COALESCE(to_jsonb(v_campaigns), '[]'::jsonb),
+    'bins_planned', v_planned,
+    'plan_bins_counted', v_plan_counted,
+    'bins_counted', v_bins_counted,
+    -- The recount queue as it stands, whichever day the counts are from
+    'open_recounts', (
+      SELECT COUNT(*) FROM counting_data
+      WHERE wh_name = p_wh_name
+        AND NOT COALESCE(is_locked, false)
+        AND NOT awaiting_second_count
+        AND (difference <> 0 OR has_item_variance OR qty_recounted_tl IS NOT NULL)
+    ),
+    'awaiting_second_count', (
+      SELECT COUNT(*) FROM counting_data
+      WHERE wh_name = p_wh_name AND awaiting_second_count
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION due_daily_reports(p_at timestamptz DEFAULT now(), p_max_attempts integer DEFAULT 3)
+RETURNS TABLE (
+  subscription_id uuid,
+  vendor_id uuid,
+  wh_name text,
+  report_date date
+) AS $$
+  SELECT s.id, s.vendor_id, d.code, d.report_date
+  FROM report_subscriptions s
+  JOIN LATERAL (
+    SELECT w.code, w.timezone, business_date(w.code, p_at) - 1 AS report_date
+    FROM warehouses w
+    WHERE w.vendor_id = s.vendor_id AND w.is_active
+  ) d ON true
+  WHERE s.is_active
+    AND (p_at AT TIME ZONE d.timezone)::time >= s.send_at
+    AND NOT EXISTS (
+      SELECT 1 FROM report_deliveries rd
+      WHERE rd.subscription_id = s.id AND rd.wh_name = d.code AND rd.report_date = d.report_date
+        AND rd.triggered_by IS NULL AND rd.status = 'sent'
+    )
+    AND (
+      SELECT COUNT(*) FROM report_deliveries rd
+      WHERE rd.subscription_id = s.id AND rd.wh_name = d.code AND rd.report_date = d.report_date
+        AND rd.triggered_by IS NULL AND rd.status = 'failed'
+    ) < p_max_attempts
+  ORDER BY s.vendor_id, d.code;
+$$ LANGUAGE sql STABLE;
+
+SELECT cron.schedule(
+  'daily-count-reports',
+  '15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/daily-report/run',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 60000
+  )
+  $$
+);
+
+ALTER TABLE report_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors read their report subscription" ON report_subscriptions
+  FOR SELECT TO authenticated
+  USING (
+    vendor_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM users u WHERE u.id = auth.uid() AND u.role = 'admin')
+  );
+
+CREATE POLICY "Vendors read their report deliveries" ON report_deliveries
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM report_subscriptions s WHERE s.id = subscription_id AND s.vendor_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM users u WHERE u.id = auth.uid() AND u.role = 'admin')
+  );